@@ -0,0 +1,144 @@
+// electron/cli/cli.ts
+
+// Headless command line for scripts and CI: turns a document into a table the same way the
+// grid does (tolerant parsing, array selection, flattening) and writes it with the grid's
+// exporters, without opening a window.
+// Built to dist-electron/cli.cjs and installed as the `jsongrid` bin. It runs on plain Node,
+// or on the app's own runtime with ELECTRON_RUN_AS_NODE=1.
+
+import { readFile, writeFile } from 'node:fs/promises'
+import { parseArgs } from 'node:util'
+import { deriveGridData, DeriveResult, FlattenOptions, NO_FLATTEN } from '../../src/utils/deriveGridData'
+import { EXPORT_FORMATS, ExportFormat, NESTED_MODES, NestedMode, exportRecords, gridRowToRecord } from '../../src/utils/exporters'
+import { DOC_FORMATS, DocFormat, formatFromPath, parseDocument, sniffFormat } from '../../src/utils/formats'
+import { resolvePath } from '../../src/utils/jsonPath'
+import { SCHEMA_OUTPUTS, SchemaOutput, generateSchema } from '../../src/utils/schemaInference'
+
+const USAGE = `Usage: jsongrid export [input] [options]
+
+Reads a JSON, JSON5, JSONL, YAML or TOML document (a file, or stdin when the input is
+missing or "-"), picks the array the grid would show and writes its rows.
+
+Options:
+  --path <path>            Array to use, e.g. '$.data.items' (default: the best scored array)
+  --input-format <format>  ${Object.keys(DOC_FORMATS).join(', ')} (default: from the extension, else sniffed)
+  --flatten <depth>        Turn nested fields into columns: a number of levels, or "all"
+  --index-arrays           With --flatten, add a column per array item (friends[0].name)
+  --format <format>        ${Object.keys(EXPORT_FORMATS).join(', ')} (default: csv)
+  --nested <mode>          ${Object.keys(NESTED_MODES).join(', ')} (default: json)
+  --delimiter <char>       CSV delimiter (default: ,)
+  -o, --output <file>      Write to a file instead of stdout
+  --print-candidates       Print the scored arrays instead of exporting
+  --schema                 Print a schema inferred from the array instead of exporting
+  --schema-format <format> ${Object.keys(SCHEMA_OUTPUTS).join(', ')} (default: json-schema)
+  -h, --help               Show this help
+`
+
+/** Wrong arguments: reported with the usage and exit code 2, rather than 1 for bad input */
+class UsageError extends Error {}
+
+const OPTIONS = {
+  path: { type: 'string' },
+  'input-format': { type: 'string' },
+  flatten: { type: 'string' },
+  'index-arrays': { type: 'boolean' },
+  format: { type: 'string', default: 'csv' },
+  nested: { type: 'string', default: 'json' },
+  delimiter: { type: 'string', default: ',' },
+  output: { type: 'string', short: 'o' },
+  'print-candidates': { type: 'boolean' },
+  schema: { type: 'boolean' },
+  'schema-format': { type: 'string', default: 'json-schema' },
+  help: { type: 'boolean', short: 'h' },
+} as const
+
+/** Checks `value` against the keys of one of the utils' option tables */
+function oneOf<T extends string>(option: string, value: string, table: Record<T, unknown>): T {
+  if (Object.hasOwn(table, value)) return value as T
+  throw new UsageError(`--${option} must be one of ${Object.keys(table).join(', ')}; got "${value}"`)
+}
+
+function flattenOption(depth: string | undefined, indexArrays: boolean): FlattenOptions {
+  if (depth === undefined) {
+    if (indexArrays) throw new UsageError('--index-arrays needs --flatten')
+    return NO_FLATTEN
+  }
+  const levels = depth === 'all' ? Infinity : Number(depth)
+  if (!(levels >= 0) || (levels !== Infinity && !Number.isInteger(levels))) {
+    throw new UsageError(`--flatten must be a number of levels or "all"; got "${depth}"`)
+  }
+  return { depth: levels, arrays: indexArrays ? 'index' : 'cell' }
+}
+
+async function readInput(input: string | undefined): Promise<string> {
+  if (input !== undefined && input !== '-') return readFile(input, 'utf8')
+  if (process.stdin.isTTY) throw new UsageError('No input: pass a file, or pipe the document in')
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+/** The ranked arrays as an aligned table; `*` marks the one in use */
+function formatCandidates(data: DeriveResult): string {
+  const lines = [['', 'score', 'items', 'path', 'reason']]
+  for (const c of data.candidates) {
+    lines.push([c.path === data.path ? '*' : '', String(c.score), String(c.length), c.path, c.reason])
+  }
+  if (data.pinned && !data.candidates.some((c) => c.path === data.path)) {
+    lines.push(['*', '-', String(data.rows.length), data.path, 'pinned with --path'])
+  }
+  const widths = lines[0].map((_, i) => Math.max(...lines.map((l) => l[i].length)))
+  return lines.map((l) => l.map((cell, i) => (i === l.length - 1 ? cell : cell.padEnd(widths[i]))).join('  ').trimEnd()).join('\n') + '\n'
+}
+
+async function run(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true })
+  if (values.help) {
+    process.stdout.write(USAGE)
+    return
+  }
+  // `export` is the only command; it may be left out
+  const args = positionals[0] === 'export' ? positionals.slice(1) : positionals
+  if (args.length > 1) throw new UsageError(`Expected one input, got: ${args.join(' ')}`)
+  const input = args[0]
+
+  const format = oneOf<ExportFormat>('format', values.format, EXPORT_FORMATS)
+  const nested = oneOf<NestedMode>('nested', values.nested, NESTED_MODES)
+  const schemaFormat = oneOf<SchemaOutput>('schema-format', values['schema-format'], SCHEMA_OUTPUTS)
+  const flatten = flattenOption(values.flatten, !!values['index-arrays'])
+  if (values['print-candidates'] && values.schema) throw new UsageError('Use either --print-candidates or --schema')
+
+  const text = await readInput(input)
+  const inputFormat = values['input-format'] !== undefined
+    ? oneOf<DocFormat>('input-format', values['input-format'], DOC_FORMATS)
+    : formatFromPath(input) ?? sniffFormat(text)
+
+  const { data, error } = deriveGridData(text, { path: values.path, format: inputFormat, flatten })
+  if (error) throw new Error(error)
+  if (!data) throw new Error('No array found in the document')
+
+  let out: string
+  if (values['print-candidates']) {
+    out = formatCandidates(data)
+  } else if (values.schema) {
+    // Named after the array's key, like the app's schema panel
+    const name = [...data.pathArray].reverse().find((seg) => seg !== '$' && !seg.startsWith('['))
+    out = generateSchema(resolvePath(parseDocument(text, inputFormat), data.pathArray), schemaFormat, name ?? 'Root')
+  } else {
+    const keys = data.columns.map((c) => c.key)
+    out = exportRecords(data.rows.map((r) => gridRowToRecord(r, keys)), keys, { format, nested, delimiter: values.delimiter })
+  }
+
+  if (values.output) {
+    await writeFile(values.output, out, 'utf8')
+    process.stderr.write(`Wrote ${values.output}\n`)
+  } else {
+    process.stdout.write(out)
+  }
+}
+
+run(process.argv.slice(2)).catch((e) => {
+  const usage = e instanceof UsageError || (e as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')
+  process.stderr.write(`jsongrid: ${e instanceof Error ? e.message : String(e)}\n${usage ? '\nRun jsongrid --help for usage.\n' : ''}`)
+  process.exitCode = usage ? 2 : 1
+})
@@ -0,0 +1,93 @@
+// electron/main/fileWatcher.ts
+
+// Watches the open documents for changes made by other programs.
+// Folders are watched rather than files, because editors often save by writing a new
+// file and renaming it over the old one, which ends a watch on the file itself.
+// Our own saves call markSaved so they are not reported back as external changes.
+
+import { FSWatcher, watch } from 'node:fs'
+import { stat } from 'node:fs/promises'
+import { basename, dirname } from 'node:path'
+
+/** Editors write in several steps; wait for them to settle before comparing */
+const SETTLE_MS = 200
+
+type Watch = {
+  watcher: FSWatcher
+  mtimeMs: number
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+const watches = new Map<string, Watch>()
+/** Files the renderer last asked for; watches started after an await check it is still wanted */
+let wanted = new Set<string>()
+
+async function modifiedAt(filePath: string): Promise<number | null> {
+  try {
+    return (await stat(filePath)).mtimeMs
+  } catch {
+    return null
+  }
+}
+
+function stopWatching(filePath: string) {
+  const current = watches.get(filePath)
+  if (!current) return
+  current.watcher.close()
+  if (current.timer) clearTimeout(current.timer)
+  watches.delete(filePath)
+}
+
+async function startWatching(filePath: string, onChange: (filePath: string) => void) {
+  const mtimeMs = await modifiedAt(filePath)
+  if (mtimeMs === null || !wanted.has(filePath) || watches.has(filePath)) return
+  const name = basename(filePath)
+  try {
+    const current: Watch = {
+      mtimeMs,
+      timer: null,
+      watcher: watch(dirname(filePath), (_event, changed) => {
+        if (changed && changed.toString() !== name) return
+        if (current.timer) clearTimeout(current.timer)
+        current.timer = setTimeout(async () => {
+          current.timer = null
+          const next = await modifiedAt(filePath)
+          // Deleted files, our own saves and stale watches are not reported
+          if (watches.get(filePath) !== current || next === null || next === current.mtimeMs) return
+          current.mtimeMs = next
+          onChange(filePath)
+        }, SETTLE_MS)
+      }),
+    }
+    watches.set(filePath, current)
+  } catch (e) {
+    console.error('Could not watch', filePath, e)
+  }
+}
+
+/**
+ * @name watchFiles
+ * @description Watches exactly `filePaths` (starting and stopping watches as needed) and calls
+ * `onChange` when the modification time of one of them moves.
+ */
+export async function watchFiles(filePaths: string[], onChange: (filePath: string) => void): Promise<void> {
+  wanted = new Set(filePaths)
+  for (const filePath of [...watches.keys()]) if (!wanted.has(filePath)) stopWatching(filePath)
+  await Promise.all([...wanted].map((filePath) => startWatching(filePath, onChange)))
+}
+
+export function unwatchFiles() {
+  wanted = new Set()
+  for (const filePath of [...watches.keys()]) stopWatching(filePath)
+}
+
+/**
+ * @name markSaved
+ * @description Records the modification time of a file we just wrote, so the watcher ignores it.
+ */
+export async function markSaved(filePath: string): Promise<void> {
+  const current = watches.get(filePath)
+  if (!current) return
+  const mtimeMs = await modifiedAt(filePath)
+  if (mtimeMs !== null) current.mtimeMs = mtimeMs
+}
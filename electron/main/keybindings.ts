@@ -0,0 +1,114 @@
+// electron/main/keybindings.ts
+
+// User keybindings: keybindings.json in the userData directory, applied by the renderer on top
+// of its defaults. The file is JSON with comments (read with JSON5). It is watched, so edits
+// apply as soon as they are saved, whichever editor saved them.
+
+import { app } from 'electron'
+import { FSWatcher, watch } from 'node:fs'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import JSON5 from 'json5'
+import type { Keybinding } from '../../src/utils/keybindings'
+
+const FILE_NAME = 'keybindings.json'
+/** Editors write in several steps; wait for them to settle before reading */
+const SETTLE_MS = 200
+
+export type KeybindingsFile = {
+  bindings: Keybinding[]
+  /** Why the file could not be read, or which entries were skipped */
+  error?: string
+}
+
+const TEMPLATE = `// Keyboard shortcuts. Each entry binds a key to a command, on top of the defaults:
+//   { "key": "ctrl+alt+f", "command": "editor.format" }
+// A command starting with "-" removes the key from that command instead:
+//   { "key": "ctrl+w", "command": "-tab.close" }
+// A key is modifiers (ctrl, shift, alt) and one key joined with "+"; ctrl is Cmd on macOS.
+// The command palette (Ctrl+Shift+P) lists every command with its id and keys.
+[
+]
+`
+
+let watcher: FSWatcher | null = null
+let timer: ReturnType<typeof setTimeout> | null = null
+
+function keybindingsPath(): string {
+  return join(app.getPath('userData'), FILE_NAME)
+}
+
+/**
+ * @name readKeybindings
+ * @description The user's bindings. A missing file has none; a broken one has none and an
+ * error, and entries without a string key and command are skipped with an error.
+ */
+export async function readKeybindings(): Promise<KeybindingsFile> {
+  let text: string
+  try {
+    text = await readFile(keybindingsPath(), 'utf-8')
+  } catch {
+    return { bindings: [] }
+  }
+  let entries: unknown
+  try {
+    entries = JSON5.parse(text)
+  } catch (e) {
+    return { bindings: [], error: `${FILE_NAME}: ${e instanceof Error ? e.message : String(e)}` }
+  }
+  if (!Array.isArray(entries)) return { bindings: [], error: `${FILE_NAME}: expected an array of { "key", "command" } entries` }
+
+  const bindings: Keybinding[] = []
+  const skipped: number[] = []
+  entries.forEach((entry, i) => {
+    if (entry && typeof entry.key === 'string' && typeof entry.command === 'string') bindings.push({ key: entry.key, command: entry.command })
+    else skipped.push(i + 1)
+  })
+  if (skipped.length === 0) return { bindings }
+  return { bindings, error: `${FILE_NAME}: skipped entry ${skipped.join(', ')}; each needs a "key" and a "command" string` }
+}
+
+/**
+ * @name ensureKeybindingsFile
+ * @description Creates the keybindings file with instructions unless it exists, and returns its path.
+ */
+export async function ensureKeybindingsFile(): Promise<string> {
+  const filePath = keybindingsPath()
+  await mkdir(app.getPath('userData'), { recursive: true })
+  try {
+    await writeFile(filePath, TEMPLATE, { encoding: 'utf-8', flag: 'wx' })
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e
+  }
+  return filePath
+}
+
+/**
+ * @name watchKeybindings
+ * @description Calls `onChange` when the keybindings file is created, changed or removed. The
+ * folder is watched, as the file may not exist yet and editors may replace it when saving.
+ */
+export async function watchKeybindings(onChange: () => void): Promise<void> {
+  unwatchKeybindings()
+  const folder = app.getPath('userData')
+  try {
+    await mkdir(folder, { recursive: true })
+    watcher = watch(folder, (_event, changed) => {
+      if (changed && changed.toString() !== FILE_NAME) return
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(() => {
+        timer = null
+        onChange()
+      }, SETTLE_MS)
+    })
+  } catch (e) {
+    console.error('Could not watch', keybindingsPath(), e)
+  }
+}
+
+export function unwatchKeybindings() {
+  watcher?.close()
+  watcher = null
+  if (timer) clearTimeout(timer)
+  timer = null
+}
@@ -0,0 +1,277 @@
+// electron/main/largeFile.ts
+
+// Large-file mode: files above LARGE_FILE_THRESHOLD are never sent to the renderer whole.
+// The main process streams them once to record the byte range of every record (one line
+// of NDJSON/JSONL, or one element of a top-level JSON array) and then serves pages of
+// records on demand.
+
+import { createReadStream } from 'node:fs'
+import { open, stat } from 'node:fs/promises'
+
+/** Files larger than this open in large-file mode */
+export const LARGE_FILE_THRESHOLD = 20 * 1024 * 1024
+
+export type LargeFileFormat = 'jsonl' | 'json-array'
+
+export type LargeFileProgress = {
+  id: string
+  bytesRead: number
+  totalBytes: number
+  records: number
+  done: boolean
+  /** Why indexing stopped early; only on the final (done) report */
+  error?: string
+}
+
+export type LargeFileInfo = {
+  id: string
+  filePath: string
+  size: number
+  format: LargeFileFormat
+  records: number
+}
+
+/** Growable pair of offset arrays; plain number[] would double memory for millions of records */
+class RecordIndex {
+  starts = new Float64Array(1024)
+  ends = new Float64Array(1024)
+  length = 0
+
+  push(start: number, end: number) {
+    if (this.length === this.starts.length) {
+      const grow = (a: Float64Array) => {
+        const next = new Float64Array(a.length * 2)
+        next.set(a)
+        return next
+      }
+      this.starts = grow(this.starts)
+      this.ends = grow(this.ends)
+    }
+    this.starts[this.length] = start
+    this.ends[this.length] = end
+    this.length++
+  }
+}
+
+type Session = {
+  info: LargeFileInfo
+  index: RecordIndex
+  done: boolean
+  cancelled: boolean
+}
+
+const sessions = new Map<string, Session>()
+let nextSessionId = 0
+
+const WS = new Set([0x20, 0x09, 0x0a, 0x0d])
+/** How far to look for the end of the first JSONL record */
+const FIRST_LINE_LIMIT = 1024 * 1024
+
+/** Length of the UTF-8 byte order mark at the start of `buf`, if it has one */
+const bomLength = (buf: Buffer) => (buf[0] === 0xef && buf[1] === 0xbb && buf[2] === 0xbf ? 3 : 0)
+
+/**
+ * @name sniffLargeFileFormat
+ * @description A file whose first non-whitespace byte is `[` is one JSON array; a file whose
+ * first line is a complete JSON value is newline-delimited records. Anything else, such as an
+ * object wrapping the array (`{ "data": [ … ] }`), cannot be paged: null.
+ */
+export async function sniffLargeFileFormat(filePath: string): Promise<LargeFileFormat | null> {
+  const fh = await open(filePath, 'r')
+  try {
+    const buf = Buffer.alloc(FIRST_LINE_LIMIT)
+    const { bytesRead } = await fh.read(buf, 0, buf.length, 0)
+    let i = bomLength(buf)
+    while (i < bytesRead && WS.has(buf[i])) i++
+    if (buf[i] === 0x5b) return 'json-array'
+    const lineEnd = buf.indexOf(0x0a, i)
+    if (lineEnd < 0 || lineEnd >= bytesRead) return null
+    try {
+      JSON.parse(buf.toString('utf-8', i, lineEnd))
+      return 'jsonl'
+    } catch {
+      return null
+    }
+  } finally {
+    await fh.close()
+  }
+}
+
+/**
+ * Builds a byte-level scanner for the given format. The scanner is fed chunks in order and
+ * pushes [start, end) ranges of complete records into `index`.
+ */
+function createScanner(format: LargeFileFormat, index: RecordIndex) {
+  if (format === 'jsonl') {
+    let lineStart = 0
+    let lastNonWs = -1
+    return {
+      feed(chunk: Buffer, offset: number) {
+        // The byte order mark is not part of the first record
+        const from = offset === 0 ? bomLength(chunk) : 0
+        if (from > 0) lineStart = from
+        for (let i = from; i < chunk.length; i++) {
+          const b = chunk[i]
+          const pos = offset + i
+          if (b === 0x0a) {
+            if (lastNonWs >= lineStart) index.push(lineStart, lastNonWs + 1)
+            lineStart = pos + 1
+          } else if (!WS.has(b)) {
+            lastNonWs = pos
+          }
+        }
+      },
+      finish() {
+        if (lastNonWs >= lineStart) index.push(lineStart, lastNonWs + 1)
+      },
+    }
+  }
+
+  // json-array: track nesting and strings; records are the elements at depth 1
+  let depth = 0
+  let inString = false
+  let escaped = false
+  let recordStart = -1
+  let lastNonWs = -1
+  const endRecord = () => {
+    if (recordStart >= 0) index.push(recordStart, lastNonWs + 1)
+    recordStart = -1
+  }
+  return {
+    feed(chunk: Buffer, offset: number) {
+      for (let i = 0; i < chunk.length; i++) {
+        const b = chunk[i]
+        const pos = offset + i
+        if (inString) {
+          if (escaped) escaped = false
+          else if (b === 0x5c) escaped = true
+          else if (b === 0x22) inString = false
+          lastNonWs = pos
+          continue
+        }
+        if (WS.has(b)) continue
+        if (depth === 1 && recordStart < 0 && b !== 0x2c && b !== 0x5d) recordStart = pos
+        if (b === 0x22) {
+          inString = true
+        } else if (b === 0x7b || b === 0x5b) {
+          depth++
+        } else if (b === 0x7d || b === 0x5d) {
+          depth--
+          if (depth === 0) {
+            endRecord()
+            continue
+          }
+        } else if (b === 0x2c && depth === 1) {
+          endRecord()
+          continue
+        }
+        lastNonWs = pos
+      }
+    },
+    finish() {
+      endRecord()
+    },
+  }
+}
+
+/**
+ * @name indexLargeFile
+ * @description Streams the file once and indexes record offsets. Progress is reported
+ * roughly every 4 MB. Pages can be read while indexing is still running.
+ */
+export async function indexLargeFile(
+  filePath: string,
+  onProgress: (p: LargeFileProgress) => void,
+): Promise<LargeFileInfo> {
+  const { size } = await stat(filePath)
+  const format = await sniffLargeFileFormat(filePath)
+  if (!format) throw new Error('Only a JSON array or one JSON value per line can be paged')
+  const id = `lf${++nextSessionId}`
+  const session: Session = {
+    info: { id, filePath, size, format, records: 0 },
+    index: new RecordIndex(),
+    done: false,
+    cancelled: false,
+  }
+  sessions.set(id, session)
+
+  const scanner = createScanner(format, session.index)
+  let bytesRead = 0
+  let lastReport = 0
+  const report = (done: boolean, error?: string) =>
+    onProgress({ id, bytesRead, totalBytes: size, records: session.index.length, done, error })
+
+  // Report the session id right away so the renderer can cancel or page early
+  report(false)
+
+  void (async () => {
+    let error: string | undefined
+    try {
+      const stream = createReadStream(filePath, { highWaterMark: 1024 * 1024 })
+      for await (const chunk of stream) {
+        if (session.cancelled) {
+          stream.destroy()
+          return
+        }
+        scanner.feed(chunk as Buffer, bytesRead)
+        bytesRead += (chunk as Buffer).length
+        if (bytesRead - lastReport >= 4 * 1024 * 1024) {
+          lastReport = bytesRead
+          session.info.records = session.index.length
+          report(false)
+        }
+      }
+      scanner.finish()
+    } catch (e) {
+      // The file went away or could not be read; what was indexed so far stays readable
+      console.error('Indexing', filePath, 'failed:', e)
+      error = e instanceof Error ? e.message : String(e)
+    } finally {
+      session.done = true
+      session.info.records = session.index.length
+      if (!session.cancelled) report(true, error)
+    }
+  })()
+
+  return session.info
+}
+
+/**
+ * @name readLargeFileRecords
+ * @description Returns the raw text of records [start, start + count) that have been indexed so far.
+ */
+export async function readLargeFileRecords(id: string, start: number, count: number): Promise<string[]> {
+  const session = sessions.get(id)
+  if (!session) throw new Error(`Unknown large file session ${id}`)
+  const { index } = session
+  const end = Math.min(index.length, start + count)
+  if (start >= end) return []
+
+  const from = index.starts[start]
+  const to = index.ends[end - 1]
+  const buf = Buffer.alloc(to - from)
+  const fh = await open(session.info.filePath, 'r')
+  try {
+    await fh.read(buf, 0, buf.length, from)
+  } finally {
+    await fh.close()
+  }
+
+  const out: string[] = []
+  for (let i = start; i < end; i++) {
+    out.push(buf.toString('utf-8', index.starts[i] - from, index.ends[i] - from))
+  }
+  return out
+}
+
+/**
+ * @name closeLargeFile
+ * @description Stops indexing (if still running) and frees the offsets.
+ */
+export function closeLargeFile(id: string) {
+  const session = sessions.get(id)
+  if (session) {
+    session.cancelled = true
+    sessions.delete(id)
+  }
+}
@@ -1,8 +1,15 @@
 // electron/main/main.ts
-import { app, BrowserWindow, ipcMain, dialog } from 'electron'
-import { join, dirname } from 'node:path'
+import { app, BrowserWindow, ipcMain, dialog, net, Menu, MenuItemConstructorOptions, screen } from 'electron'
+import { join, dirname, resolve, isAbsolute } from 'node:path'
 import { fileURLToPath } from 'node:url'
-import { readFile, writeFile } from 'node:fs/promises'
+import { readFile, writeFile, stat } from 'node:fs/promises'
+import { LARGE_FILE_THRESHOLD, indexLargeFile, readLargeFileRecords, closeLargeFile, sniffLargeFileFormat } from './largeFile'
+import { AppSettings, readSettings, updateSettings } from './settings'
+import { markSaved, unwatchFiles, watchFiles } from './fileWatcher'
+import { addRecentFile, clearRecentFiles, getRecentFiles, removeRecentFile } from './recentFiles'
+import { SessionState, WindowLayout, readSession, writeSession } from './session'
+import { ensureKeybindingsFile, readKeybindings, watchKeybindings } from './keybindings'
+import { formatKey, resolveKeybindings } from '../../src/utils/keybindings'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
@@ -16,16 +23,199 @@ export const RENDERER_DIST = join(process.env.APP_ROOT, 'dist')
 process.env.VITE_PUBLIC = VITE_DEV_SERVER_URL ? join(process.env.APP_ROOT, 'public') : RENDERER_DIST
 
 let win: BrowserWindow | null
+/** Active document and the number of documents with unsaved changes, as last reported by the renderer */
+let documentState: { filePath?: string; dirty: boolean; unsaved: number } = { dirty: false, unsaved: 0 }
+/** Set once the user has saved or discarded their changes, so the next close goes through */
+let closeConfirmed = false
+/** Open documents and layout, kept up to date by the renderer and written with the window layout on close */
+let session: SessionState = { documents: [], active: 0 }
+/** Files to open once the renderer asks for them: from the command line, or sent before it was ready */
+let pendingFiles: string[] = []
+let rendererReady = false
+/** Default and user keybindings, for the shortcuts shown in the menu */
+let keybindings = resolveKeybindings([])
+
+const BASE_TITLE = 'JSONGrid'
+const fileNameOf = (filePath?: string) => (filePath ? filePath.split(/[/\\]/).pop() : undefined)
+
+type SaveData = { filePath?: string; text: string; formatName?: string; extensions?: string[] }
+
+/**
+ * Asks whether to save unsaved changes before they are dropped (closing the window or a tab).
+ * `what` names the documents. Resolves to the user's choice.
+ */
+async function askToSave(what: string): Promise<'save' | 'discard' | 'cancel'> {
+  if (!win) return 'cancel'
+  const { response } = await dialog.showMessageBox(win, {
+    type: 'warning',
+    buttons: ['Save', "Don't Save", 'Cancel'],
+    defaultId: 0,
+    cancelId: 2,
+    message: `Do you want to save the changes you made to ${what}?`,
+    detail: "Your changes will be lost if you don't save them.",
+  })
+  return (['save', 'discard', 'cancel'] as const)[response]
+}
+
+/**
+ * File arguments of a launch: flags are skipped, as is the app path when running from source
+ * (`electron .`); relative paths resolve against the launch folder.
+ */
+function filesFromArgv(argv: string[], cwd: string): string[] {
+  return argv
+    .slice(process.defaultApp ? 2 : 1)
+    .filter((arg) => !arg.startsWith('-'))
+    .map((arg) => resolve(cwd, arg))
+}
+
+/** Opens files in the window's tabs, or queues them until the renderer is ready */
+function openInWindow(filePaths: string[]) {
+  if (filePaths.length === 0) return
+  if (!win || !rendererReady) {
+    pendingFiles.push(...filePaths)
+    return
+  }
+  win.webContents.send('app:open-files', filePaths)
+  if (win.isMinimized()) win.restore()
+  win.focus()
+}
+
+/** Electron accelerator for a command's first key; `ctrl` means Cmd on macOS, as in the renderer */
+function acceleratorOf(commandId: string): string | undefined {
+  const key = keybindings.keysByCommand.get(commandId)?.[0]
+  return key && formatKey(key).replace(/^Ctrl\b/, 'CmdOrCtrl')
+}
+
+/**
+ * Application menu with File and View menus. Items run commands of the renderer's registry by
+ * id. Their shortcuts follow the keybindings but are only shown, not registered: the renderer
+ * handles them along with its other keys (on macOS the menu takes them and sends the command).
+ */
+function buildMenu(recentFiles: string[]) {
+  const isMac = process.platform === 'darwin'
+  const command = (label: string, commandId: string): MenuItemConstructorOptions => ({
+    label,
+    accelerator: acceleratorOf(commandId),
+    registerAccelerator: false,
+    click: () => win?.webContents.send('menu:command', commandId),
+  })
+  const recent: MenuItemConstructorOptions[] = recentFiles.length
+    ? [
+        ...recentFiles.map((filePath) => ({ label: filePath, click: () => openInWindow([filePath]) })),
+        { type: 'separator' },
+        {
+          label: 'Clear Recent',
+          click: () => clearRecentFiles().then(recentChanged).catch((e) => console.error('Failed to clear recent files:', e)),
+        },
+      ]
+    : [{ label: 'No Recent Files', enabled: false }]
+
+  const template: MenuItemConstructorOptions[] = [
+    ...(isMac ? [{ role: 'appMenu' } as MenuItemConstructorOptions] : []),
+    {
+      label: 'File',
+      submenu: [
+        command('New', 'file.new'),
+        command('Open…', 'file.open'),
+        { label: 'Open Recent', submenu: recent },
+        { type: 'separator' },
+        command('Save', 'file.save'),
+        command('Save As…', 'file.saveAs'),
+        { type: 'separator' },
+        command('Keyboard Shortcuts', 'keybindings.open'),
+        { type: 'separator' },
+        command('Close Tab', 'tab.close'),
+        // Ctrl+W closes the tab, so closing the window moves to Ctrl+Shift+W
+        { role: 'close', label: 'Close Window', accelerator: 'CmdOrCtrl+Shift+W' },
+        ...(isMac ? [] : [{ role: 'quit' } as MenuItemConstructorOptions]),
+      ],
+    },
+    { role: 'editMenu' },
+    {
+      label: 'View',
+      submenu: [
+        command('Command Palette…', 'commandPalette'),
+        { type: 'separator' },
+        { role: 'reload' },
+        { role: 'forceReload' },
+        { role: 'toggleDevTools' },
+        { type: 'separator' },
+        { role: 'resetZoom' },
+        { role: 'zoomIn' },
+        { role: 'zoomOut' },
+        { type: 'separator' },
+        { role: 'togglefullscreen' },
+      ],
+    },
+    { label: 'Window', submenu: [{ role: 'minimize' }, ...(isMac ? [{ role: 'zoom' }, { role: 'front' }] as MenuItemConstructorOptions[] : [])] },
+  ]
+  Menu.setApplicationMenu(Menu.buildFromTemplate(template))
+}
+
+function recentChanged(recentFiles: string[]) {
+  buildMenu(recentFiles)
+  win?.webContents.send('recent:changed', recentFiles)
+}
+
+/** Reads the keybindings file, updates the menu's shortcuts and sends the bindings to the renderer */
+async function keybindingsChanged() {
+  const file = await readKeybindings()
+  keybindings = resolveKeybindings(file.bindings)
+  buildMenu(await getRecentFiles())
+  win?.webContents.send('keybindings:changed', file)
+}
+
+function noteRecentFile(filePath: string) {
+  addRecentFile(filePath).then(recentChanged).catch((e) => console.error('Failed to update recent files:', e))
+}
+
+/** The stored window layout, unless its display is gone (the window would open off screen) */
+function restorableLayout(layout?: WindowLayout): WindowLayout | undefined {
+  if (!layout) return undefined
+  const area = screen.getDisplayMatching(layout).workArea
+  const visible =
+    layout.x < area.x + area.width && layout.x + layout.width > area.x && layout.y < area.y + area.height && layout.y + layout.height > area.y
+  return visible ? layout : undefined
+}
 
 function createWindow() {
+  const layout = restorableLayout(session.window)
   win = new BrowserWindow({
     // FIX: Set a default title for the window.
-    title: 'JSONGrid',
+    title: BASE_TITLE,
     icon: join(process.env.VITE_PUBLIC, 'electron-vite.svg'),
+    ...(layout && { x: layout.x, y: layout.y, width: layout.width, height: layout.height }),
     webPreferences: {
       preload: join(MAIN_DIST, 'preload.cjs'),
     },
   })
+  if (layout?.maximized) win.maximize()
+
+  // Unsaved changes: ask first; saving is the renderer's job, which closes the window when done
+  win.on('close', async (event) => {
+    const { unsaved, filePath } = documentState
+    if (closeConfirmed || unsaved === 0) {
+      if (win) writeSession({ ...session, window: { ...win.getNormalBounds(), maximized: win.isMaximized() } })
+      return
+    }
+    event.preventDefault()
+    const choice = await askToSave(unsaved > 1 ? `${unsaved} documents` : fileNameOf(filePath) ?? 'Untitled')
+    if (choice === 'discard') {
+      closeConfirmed = true
+      win?.close()
+    } else if (choice === 'save') {
+      win?.webContents.send('window:save-before-close')
+    }
+  })
+
+  win.on('closed', () => {
+    unwatchFiles()
+    rendererReady = false
+    // A window opened later (macOS keeps the app running) starts with its own close guard
+    closeConfirmed = false
+    documentState = { dirty: false, unsaved: 0 }
+    win = null
+  })
 
   win.webContents.on('did-finish-load', () => {
     win?.webContents.send('main-process-message', new Date().toLocaleString())
@@ -53,54 +243,278 @@ app.on('activate', () => {
   }
 })
 
-app.whenReady().then(createWindow)
+// A second launch (opening a file from the OS, or from a terminal) hands its files to this
+// instance and quits
+const primaryInstance = app.requestSingleInstanceLock()
+if (!primaryInstance) app.quit()
 
-ipcMain.handle('file:save', async (event, data: { filePath?: string; text: string }) => {
-  if (!win) return
+pendingFiles = filesFromArgv(process.argv, process.cwd())
+
+app.on('second-instance', (_event, argv, workingDirectory) => {
+  openInWindow(filesFromArgv(argv, workingDirectory))
+  if (win) {
+    if (win.isMinimized()) win.restore()
+    win.focus()
+  }
+})
 
-  const defaultPath = data.filePath || 'untitled.json'
+// macOS hands files over by event, also before the app is ready
+app.on('open-file', (event, filePath) => {
+  event.preventDefault()
+  openInWindow([filePath])
+})
+
+if (primaryInstance) {
+  app.whenReady().then(async () => {
+    session = (await readSession()) ?? session
+    keybindings = resolveKeybindings((await readKeybindings()).bindings)
+    buildMenu(await getRecentFiles())
+    createWindow()
+    void watchKeybindings(() => {
+      keybindingsChanged().catch((e) => console.error('Failed to reload keybindings:', e))
+    })
+  })
+}
+
+/** Shows the save dialog for the document's format and writes the file there */
+async function saveWithDialog(data: SaveData): Promise<{ filePath: string } | null> {
+  if (!win) return null
+
+  // The renderer names the document format (JSON, YAML, TOML) so the dialog offers matching files
+  const formatName = data.formatName || 'JSON'
+  const extensions = data.extensions?.length ? data.extensions : ['json']
+  const defaultPath = data.filePath || `untitled.${extensions[0]}`
   const result = await dialog.showSaveDialog(win, {
     defaultPath,
-    title: 'Save JSON File',
-    filters: [{ name: 'JSON Files', extensions: ['json'] }, { name: 'All Files', extensions: ['*'] }],
+    title: `Save ${formatName} File`,
+    filters: [{ name: `${formatName} Files`, extensions }, { name: 'All Files', extensions: ['*'] }],
   })
 
   if (result.filePath) {
     await writeFile(result.filePath, data.text, 'utf-8')
+    await markSaved(result.filePath)
+    noteRecentFile(result.filePath)
     return { filePath: result.filePath }
   }
   return null
+}
+
+/**
+ * Saves to the known path without asking; documents that were never saved get the dialog.
+ */
+ipcMain.handle('file:save', async (_event, data: SaveData) => {
+  if (!data.filePath) return saveWithDialog(data)
+  await writeFile(data.filePath, data.text, 'utf-8')
+  await markSaved(data.filePath)
+  noteRecentFile(data.filePath)
+  return { filePath: data.filePath }
 })
 
-ipcMain.handle('file:open', async () => {
+ipcMain.handle('file:save-as', (_event, data: SaveData) => saveWithDialog(data))
+
+/**
+ * Exports grid data: asks where to save with a filter for the chosen format, then writes
+ * the text the renderer produced.
+ */
+ipcMain.handle('file:export', async (_event, data: { text: string; defaultName: string; extension: string; formatName: string }) => {
+  if (!win) return
+
+  const result = await dialog.showSaveDialog(win, {
+    defaultPath: data.defaultName,
+    title: 'Export Grid',
+    filters: [{ name: data.formatName, extensions: [data.extension] }, { name: 'All Files', extensions: ['*'] }],
+  })
+
+  if (result.filePath) {
+    await writeFile(result.filePath, data.text, 'utf-8')
+    return { filePath: result.filePath }
+  }
+  return null
+})
+
+type OpenedFile = { filePath: string; text: string } | { filePath: string; large: true; size: number }
+
+/** Reads a file to open in a tab, and puts it on the recent files list unless `recent` is false */
+async function readForOpen(filePath: string, recent = true): Promise<OpenedFile> {
+  // Large files are indexed and paged instead of being sent over IPC in one piece
+  const { size } = await stat(filePath)
+  if (recent) noteRecentFile(filePath)
+  // Only JSON arrays and JSONL can be paged; other formats (and other JSON) are always read whole
+  if (size > LARGE_FILE_THRESHOLD && !/\.(csv|tsv|ya?ml|toml)$/i.test(filePath) && (await sniffLargeFileFormat(filePath))) {
+    return { filePath, large: true, size }
+  }
+  return { filePath, text: await readFile(filePath, 'utf-8') }
+}
+
+/** Asks for a data file to open; resolves to its path, or undefined when canceled */
+async function chooseFileToOpen(title: string): Promise<string | undefined> {
   if (!win) return
 
   const result = await dialog.showOpenDialog(win, {
-    title: 'Open JSON File',
+    title,
     properties: ['openFile'],
-    filters: [{ name: 'JSON Files', extensions: ['json'] }, { name: 'All Files', extensions: ['*'] }],
+    filters: [
+      { name: 'Data Files', extensions: ['json', 'jsonl', 'ndjson', 'json5', 'yaml', 'yml', 'toml', 'csv', 'tsv'] },
+      { name: 'JSON Files', extensions: ['json', 'jsonl', 'ndjson', 'json5'] },
+      { name: 'YAML / TOML Files', extensions: ['yaml', 'yml', 'toml'] },
+      { name: 'CSV / TSV Files', extensions: ['csv', 'tsv'] },
+      { name: 'All Files', extensions: ['*'] },
+    ],
   })
 
-  if (result.filePaths && result.filePaths.length > 0) {
-    const filePath = result.filePaths[0]
-    const content = await readFile(filePath, 'utf-8')
-    return {
-      filePath: filePath,
-      text: content,
-    }
+  return result.filePaths?.[0]
+}
+
+ipcMain.handle('file:open', async () => {
+  const filePath = await chooseFileToOpen('Open JSON File')
+  return filePath ? readForOpen(filePath) : null
+})
+
+/**
+ * Opens a file to compare the document with. It is not opened as a document, so it does not
+ * go on the recent files list.
+ */
+ipcMain.handle('file:open-to-compare', async () => {
+  const filePath = await chooseFileToOpen('Open File to Compare')
+  return filePath ? readForOpen(filePath, false) : null
+})
+
+/**
+ * Opens a file by path: recent files, session restore, command-line arguments and dropped files.
+ * A recent file that cannot be read any more leaves the list.
+ */
+ipcMain.handle('file:open-path', async (_event, filePath: string) => {
+  try {
+    return await readForOpen(filePath)
+  } catch (e) {
+    removeRecentFile(filePath).then(recentChanged).catch((err) => console.error('Failed to update recent files:', err))
+    throw e
   }
-  return null
 })
 
 /**
- * FIX: IPC handler to set the main window's title.
- * This allows the renderer process to update the title bar based on the current file.
- * It shows the filename for clarity.
+ * Reads the current text of a file, e.g. to reload the document after it changed on disk.
  */
-ipcMain.on('window:set-title', (event, filePath: string | undefined) => {
+ipcMain.handle('file:read', (_event, filePath: string) => readFile(filePath, 'utf-8'))
+
+/**
+ * Watches the open documents and tells the renderer when another program changes one of them.
+ * Each call replaces the list; an empty one stops watching.
+ */
+ipcMain.on('file:watch', (event, filePaths: string[]) => {
+  void watchFiles(filePaths, (changed) => {
+    if (!event.sender.isDestroyed()) event.sender.send('file:changed', changed)
+  })
+})
+
+ipcMain.handle('dialog:ask-to-save', (_event, filePath?: string) => askToSave(fileNameOf(filePath) ?? 'Untitled'))
+
+/**
+ * IPC handler to set the main window's title from the active file and its unsaved state.
+ * The number of unsaved documents is what the close guard checks.
+ */
+ipcMain.on('window:set-title', (_event, data: { filePath?: string; dirty: boolean; unsaved: number }) => {
+  documentState = data
   if (win) {
-    const baseTitle = 'JSONGrid'
-    const fileName = filePath ? filePath.split(/[/\\]/).pop() : undefined
-    win.setTitle(fileName ? `${fileName} — ${baseTitle}` : baseTitle)
+    const fileName = fileNameOf(data.filePath) ?? (data.dirty ? 'Untitled' : undefined)
+    win.setTitle(fileName ? `${data.dirty ? '● ' : ''}${fileName} — ${BASE_TITLE}` : BASE_TITLE)
+    win.setDocumentEdited(data.dirty)
   }
-})
\ No newline at end of file
+})
+
+/** The renderer saved after a close was held up for unsaved changes */
+ipcMain.on('window:close', () => {
+  closeConfirmed = true
+  win?.close()
+})
+
+/**
+ * Large-file mode: index record offsets in the background and stream progress back to the
+ * renderer, which then asks for pages of records as the user scrolls through them.
+ */
+ipcMain.handle('large-file:index', async (event, filePath: string) => {
+  return indexLargeFile(filePath, (progress) => {
+    if (!event.sender.isDestroyed()) event.sender.send('large-file:progress', progress)
+  })
+})
+
+ipcMain.handle('large-file:records', async (_event, data: { id: string; start: number; count: number }) => {
+  return readLargeFileRecords(data.id, data.start, data.count)
+})
+
+ipcMain.on('large-file:close', (_event, id: string) => {
+  closeLargeFile(id)
+})
+
+ipcMain.handle('settings:get', () => readSettings())
+
+ipcMain.handle('recent:get', () => getRecentFiles())
+
+ipcMain.handle('recent:clear', async () => {
+  const recentFiles = await clearRecentFiles()
+  recentChanged(recentFiles)
+  return recentFiles
+})
+
+/**
+ * Session restore: the renderer reads the last session and the files it was launched with once,
+ * then reports its open documents as they change.
+ */
+ipcMain.handle('session:get', (): Omit<SessionState, 'window'> => {
+  const { documents, active, split } = session
+  return { documents, active, split }
+})
+
+ipcMain.on('session:save', (_event, data: Omit<SessionState, 'window'>) => {
+  session = { ...session, ...data }
+  writeSession(session)
+})
+
+ipcMain.handle('app:launch-files', () => {
+  rendererReady = true
+  const files = pendingFiles
+  pendingFiles = []
+  return files
+})
+
+ipcMain.handle('keybindings:get', () => readKeybindings())
+
+// Creates the file with instructions on first use; the renderer opens it in a tab
+ipcMain.handle('keybindings:open', () => ensureKeybindingsFile())
+
+ipcMain.handle('settings:update', (_event, patch: Partial<AppSettings>) => updateSettings(patch))
+
+/**
+ * Lets the user pick a JSON Schema file; returns its text for the renderer to compile.
+ */
+ipcMain.handle('schema:open', async () => {
+  if (!win) return
+
+  const result = await dialog.showOpenDialog(win, {
+    title: 'Choose JSON Schema',
+    properties: ['openFile'],
+    filters: [{ name: 'JSON Schema', extensions: ['json'] }, { name: 'All Files', extensions: ['*'] }],
+  })
+  if (result.filePaths.length === 0) return null
+  const filePath = result.filePaths[0]
+  return { location: filePath, text: await readFile(filePath, 'utf-8') }
+})
+
+/**
+ * Loads a schema referenced by `$schema` or a settings mapping: http(s) URLs are fetched,
+ * file URLs and paths are read, and relative paths resolve against the document's folder.
+ */
+ipcMain.handle('schema:load', async (_event, data: { ref: string; baseFile?: string }) => {
+  const { ref, baseFile } = data
+  if (/^https?:\/\//i.test(ref)) {
+    const res = await net.fetch(ref)
+    if (!res.ok) throw new Error(`Could not fetch ${ref}: ${res.status} ${res.statusText}`)
+    return { location: ref, text: await res.text() }
+  }
+  let filePath = ref.startsWith('file:') ? fileURLToPath(ref) : ref
+  if (!isAbsolute(filePath)) {
+    if (!baseFile) throw new Error(`Save the document first to resolve the relative schema path ${ref}`)
+    filePath = resolve(dirname(baseFile), filePath)
+  }
+  return { location: filePath, text: await readFile(filePath, 'utf-8') }
+})
@@ -0,0 +1,35 @@
+// electron/main/recentFiles.ts
+
+// Recently opened and saved files, kept in the settings file, most recent first.
+// The list also goes to the OS (jump list, dock menu) through app.addRecentDocument.
+
+import { app } from 'electron'
+import { readSettings, updateSettings } from './settings'
+
+export const MAX_RECENT_FILES = 10
+
+export async function getRecentFiles(): Promise<string[]> {
+  return (await readSettings()).recentFiles
+}
+
+/**
+ * @name addRecentFile
+ * @description Moves `filePath` to the top of the list and returns the new list.
+ */
+export async function addRecentFile(filePath: string): Promise<string[]> {
+  app.addRecentDocument(filePath)
+  const next = await updateSettings(({ recentFiles }) => ({
+    recentFiles: [filePath, ...recentFiles.filter((f) => f !== filePath)].slice(0, MAX_RECENT_FILES),
+  }))
+  return next.recentFiles
+}
+
+export async function removeRecentFile(filePath: string): Promise<string[]> {
+  const next = await updateSettings(({ recentFiles }) => ({ recentFiles: recentFiles.filter((f) => f !== filePath) }))
+  return next.recentFiles
+}
+
+export async function clearRecentFiles(): Promise<string[]> {
+  app.clearRecentDocuments()
+  return (await updateSettings({ recentFiles: [] })).recentFiles
+}
@@ -0,0 +1,55 @@
+// electron/main/session.ts
+
+// The last session: open documents, the active one and the window layout, restored on launch.
+// Kept apart from the settings in session.json, since it is rewritten whenever tabs change.
+// Writes are synchronous because the last one happens while the window closes and the app quits.
+
+import { app } from 'electron'
+import { join } from 'node:path'
+import { mkdirSync, writeFileSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+
+export type WindowLayout = {
+  x: number
+  y: number
+  width: number
+  height: number
+  maximized: boolean
+}
+
+export type SessionState = {
+  /** Files open in tabs, in tab order */
+  documents: string[]
+  /** Index of the active document */
+  active: number
+  /** Editor and grid pane sizes */
+  split?: number[]
+  window?: WindowLayout
+}
+
+function sessionPath(): string {
+  return join(app.getPath('userData'), 'session.json')
+}
+
+/**
+ * @name readSession
+ * @description The stored session, or null when there is none or it cannot be read.
+ */
+export async function readSession(): Promise<SessionState | null> {
+  try {
+    const stored = JSON.parse(await readFile(sessionPath(), 'utf-8'))
+    if (!stored || typeof stored !== 'object' || !Array.isArray(stored.documents)) return null
+    return { active: 0, ...stored }
+  } catch {
+    return null
+  }
+}
+
+export function writeSession(session: SessionState) {
+  try {
+    mkdirSync(app.getPath('userData'), { recursive: true })
+    writeFileSync(sessionPath(), `${JSON.stringify(session, null, 2)}\n`, 'utf-8')
+  } catch (e) {
+    console.error('Failed to write session:', e)
+  }
+}
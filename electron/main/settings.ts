@@ -0,0 +1,103 @@
+// electron/main/settings.ts
+
+// App settings: a JSON file in the userData directory, read on demand and written whole.
+// Missing or unreadable files fall back to the defaults so a bad edit never blocks startup,
+// but an unreadable file is never written over: updates fail until it is fixed or removed.
+// Updates run one at a time and replace the file in one step (write a temp file, rename), so
+// updates made together all land and a reader never sees a half-written file.
+
+import { app } from 'electron'
+import { join } from 'node:path'
+import { readFile, writeFile, mkdir, rename } from 'node:fs/promises'
+
+/** Validate documents whose path matches `glob` against the schema at `schema` (path or URL) */
+export type SchemaMapping = {
+  glob: string
+  schema: string
+}
+
+export type AppSettings = {
+  schemaMappings: SchemaMapping[]
+  /** Recently opened or saved files, most recent first */
+  recentFiles: string[]
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  schemaMappings: [],
+  recentFiles: [],
+}
+
+/** The last queued update; the next one starts when it has settled */
+let queue: Promise<unknown> = Promise.resolve()
+
+function settingsPath(): string {
+  return join(app.getPath('userData'), 'settings.json')
+}
+
+const isSchemaMapping = (m: unknown): m is SchemaMapping =>
+  !!m && typeof (m as SchemaMapping).glob === 'string' && typeof (m as SchemaMapping).schema === 'string'
+
+/** The stored settings over the defaults, or the defaults and why the file could not be used */
+async function loadSettings(): Promise<{ settings: AppSettings; error?: string }> {
+  let text: string
+  try {
+    text = await readFile(settingsPath(), 'utf-8')
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return { settings: { ...DEFAULT_SETTINGS } }
+    return { settings: { ...DEFAULT_SETTINGS }, error: `Could not read ${settingsPath()}: ${e instanceof Error ? e.message : String(e)}` }
+  }
+  let stored: unknown
+  try {
+    stored = JSON.parse(text)
+  } catch (e) {
+    return { settings: { ...DEFAULT_SETTINGS }, error: `${settingsPath()} is not valid JSON: ${e instanceof Error ? e.message : String(e)}` }
+  }
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+    return { settings: { ...DEFAULT_SETTINGS }, error: `${settingsPath()} does not hold a settings object` }
+  }
+  // Keys this version does not know are kept; the known ones keep only well-formed entries
+  const { schemaMappings, recentFiles } = stored as Record<string, unknown>
+  return {
+    settings: {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      schemaMappings: Array.isArray(schemaMappings) ? schemaMappings.filter(isSchemaMapping) : [],
+      recentFiles: Array.isArray(recentFiles) ? recentFiles.filter((f): f is string => typeof f === 'string') : [],
+    },
+  }
+}
+
+/**
+ * @name readSettings
+ * @description Current settings merged over the defaults; the defaults when the file is broken.
+ */
+export async function readSettings(): Promise<AppSettings> {
+  const { settings, error } = await loadSettings()
+  if (error) console.error(error)
+  return settings
+}
+
+/**
+ * @name updateSettings
+ * @description Merges `patch` into the stored settings and returns the result. A function
+ * patch gets the settings as they are once earlier updates are written. Fails, leaving the
+ * file alone, when the stored settings cannot be read: writing would lose them.
+ */
+export function updateSettings(
+  patch: Partial<AppSettings> | ((current: AppSettings) => Partial<AppSettings>),
+): Promise<AppSettings> {
+  const update = queue.then(async () => {
+    const { settings: current, error } = await loadSettings()
+    if (error) throw new Error(`${error}. Settings are not saved until it is fixed or removed.`)
+    const next = { ...current, ...(typeof patch === 'function' ? patch(current) : patch) }
+    const filePath = settingsPath()
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await mkdir(app.getPath('userData'), { recursive: true })
+    await writeFile(tempPath, `${JSON.stringify(next, null, 2)}\n`, 'utf-8')
+    await rename(tempPath, filePath)
+    return next
+  })
+  // A failed update is its caller's to handle; the ones after it still run
+  queue = update.catch(() => undefined)
+  return update
+}
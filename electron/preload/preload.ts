@@ -7,7 +7,7 @@
 'use strict'
 
 // Import only safe modules
-const { contextBridge, ipcRenderer } = require('electron')
+const { contextBridge, ipcRenderer, webUtils } = require('electron')
 
 console.log('[JSONGRID] ✅ preload.cjs successfully loaded')
 
@@ -20,16 +20,240 @@ contextBridge.exposeInMainWorld('api', {
     openFile: () => ipcRenderer.invoke('file:open'),
 
     /**
-     * Saves the current JSON content to disk via an IPC handler in main.ts.
-     * @param {{ filePath?: string, text: string }} data - The payload containing the text to save and an optional file path.
-     * @returns {Promise<{ filePath: string } | null>} A promise that resolves with the new file path, or null if canceled.
+     * Opens a file to compare the current document with; unlike openFile it is not added to recent files.
+     * @returns {Promise<OpenFileResult>} The file path and content, a large-file marker, or null if canceled.
      */
-    saveFile: (data: { filePath?: string; text: string }) => ipcRenderer.invoke('file:save', data),
+    openFileToCompare: () => ipcRenderer.invoke('file:open-to-compare'),
 
     /**
-     * FIX: Expose a function to set the window title.
-     * Sends a one-way message to the main process.
-     * @param {string} [filePath] - The file path to use for the title.
+     * Opens a file by path, e.g. a recent file, a restored tab or a dropped file.
+     * @param {string} filePath - The file to open.
+     * @returns {Promise<OpenFileResult>} The file path and content, or a large-file marker.
      */
-    setTitle: (filePath?: string) => ipcRenderer.send('window:set-title', filePath),
+    openPath: (filePath: string) => ipcRenderer.invoke('file:open-path', filePath),
+
+    /**
+     * Path of a file dropped onto the window.
+     * @param {File} file - A file from a drop event's dataTransfer.
+     * @returns {string} Its path on disk.
+     */
+    getPathForFile: (file: File) => webUtils.getPathForFile(file),
+
+    /**
+     * Saves the current content to `filePath` without asking; without a path it asks where via a save dialog.
+     * @param {{ filePath?: string, text: string, formatName?: string, extensions?: string[] }} data - The payload containing the text to save, an optional file path and the document format for the dialog filter.
+     * @returns {Promise<{ filePath: string } | null>} A promise that resolves with the file path, or null if canceled.
+     */
+    saveFile: (data: { filePath?: string; text: string; formatName?: string; extensions?: string[] }) => ipcRenderer.invoke('file:save', data),
+
+    /**
+     * Saves the current content through a save dialog, with `filePath` as the suggested location.
+     * @param {{ filePath?: string, text: string, formatName?: string, extensions?: string[] }} data - Same payload as saveFile.
+     * @returns {Promise<{ filePath: string } | null>} A promise that resolves with the chosen path, or null if canceled.
+     */
+    saveFileAs: (data: { filePath?: string; text: string; formatName?: string; extensions?: string[] }) => ipcRenderer.invoke('file:save-as', data),
+
+    /**
+     * Reads a file's current text, e.g. to reload it after it changed on disk.
+     * @param {string} filePath - The file to read.
+     * @returns {Promise<string>} The file content.
+     */
+    readFile: (filePath: string) => ipcRenderer.invoke('file:read', filePath),
+
+    /**
+     * Watches the open files for changes by other programs, replacing the previous list.
+     * @param {string[]} filePaths - The files to watch; empty stops watching.
+     */
+    watchFiles: (filePaths: string[]) => ipcRenderer.send('file:watch', filePaths),
+
+    /**
+     * Subscribes to changes of the watched files.
+     * @param {(filePath: string) => void} callback - Called with the path of the changed file.
+     * @returns {() => void} Unsubscribe function.
+     */
+    onFileChanged: (callback: (filePath: string) => void) => {
+        const listener = (_event: unknown, filePath: string) => callback(filePath)
+        ipcRenderer.on('file:changed', listener)
+        return () => ipcRenderer.removeListener('file:changed', listener)
+    },
+
+    /**
+     * Asks the user whether to save unsaved changes.
+     * @param {string} [filePath] - The document's file, named in the question; none for untitled documents.
+     * @returns {Promise<'save' | 'discard' | 'cancel'>} The user's choice.
+     */
+    askToSave: (filePath?: string) => ipcRenderer.invoke('dialog:ask-to-save', filePath),
+
+    /**
+     * Saves exported grid data through a native save dialog.
+     * @param {{ text: string, defaultName: string, extension: string, formatName: string }} data - The exported text and the file type to offer.
+     * @returns {Promise<{ filePath: string } | null>} The chosen path, or null if canceled.
+     */
+    exportFile: (data: { text: string; defaultName: string; extension: string; formatName: string }) => ipcRenderer.invoke('file:export', data),
+
+    /**
+     * Sets the window title from the active file and whether it has unsaved changes.
+     * Sends a one-way message to the main process, which also uses `unsaved` to guard closing.
+     * @param {{ filePath?: string, dirty: boolean, unsaved: number }} data - The active file path, its unsaved state and the number of unsaved documents.
+     */
+    setTitle: (data: { filePath?: string; dirty: boolean; unsaved: number }) => ipcRenderer.send('window:set-title', data),
+
+    /**
+     * Subscribes to save requests made when the window is closing with unsaved changes.
+     * @param {() => void} callback - Should save and then call closeWindow.
+     * @returns {() => void} Unsubscribe function.
+     */
+    onSaveBeforeClose: (callback: () => void) => {
+        const listener = () => callback()
+        ipcRenderer.on('window:save-before-close', listener)
+        return () => ipcRenderer.removeListener('window:save-before-close', listener)
+    },
+
+    /**
+     * Closes the window after a save requested by onSaveBeforeClose.
+     */
+    closeWindow: () => ipcRenderer.send('window:close'),
+
+    /**
+     * Starts indexing a file that was too large to open normally.
+     * @param {string} filePath - The path returned by openFile with `large: true`.
+     * @returns {Promise<LargeFileInfo>} Session info; the record count keeps growing until indexing is done.
+     */
+    indexLargeFile: (filePath: string) => ipcRenderer.invoke('large-file:index', filePath),
+
+    /**
+     * Reads the raw text of a page of records from an indexed large file.
+     * @param {{ id: string, start: number, count: number }} data - Session id and record range.
+     * @returns {Promise<string[]>} One string per record.
+     */
+    readLargeFileRecords: (data: { id: string; start: number; count: number }) => ipcRenderer.invoke('large-file:records', data),
+
+    /**
+     * Subscribes to indexing progress for large files.
+     * @param {(progress: LargeFileProgress) => void} callback - Called with each progress update.
+     * @returns {() => void} Unsubscribe function.
+     */
+    onLargeFileProgress: (callback: (progress: unknown) => void) => {
+        const listener = (_event: unknown, progress: unknown) => callback(progress)
+        ipcRenderer.on('large-file:progress', listener)
+        return () => ipcRenderer.removeListener('large-file:progress', listener)
+    },
+
+    /**
+     * Releases a large file session in the main process.
+     * @param {string} id - The session id.
+     */
+    closeLargeFile: (id: string) => ipcRenderer.send('large-file:close', id),
+
+    /**
+     * Reads the app settings stored in the userData directory.
+     * @returns {Promise<AppSettings>} The settings merged over the defaults.
+     */
+    getSettings: () => ipcRenderer.invoke('settings:get'),
+
+    /**
+     * Merges a partial update into the stored settings.
+     * @param {Partial<AppSettings>} patch - The settings to change.
+     * @returns {Promise<AppSettings>} The updated settings.
+     */
+    updateSettings: (patch: unknown) => ipcRenderer.invoke('settings:update', patch),
+
+    /**
+     * Reads the recently opened and saved files.
+     * @returns {Promise<string[]>} File paths, most recent first.
+     */
+    getRecentFiles: () => ipcRenderer.invoke('recent:get'),
+
+    /**
+     * Empties the recent files list.
+     * @returns {Promise<string[]>} The new (empty) list.
+     */
+    clearRecentFiles: () => ipcRenderer.invoke('recent:clear'),
+
+    /**
+     * Subscribes to changes of the recent files list.
+     * @param {(recentFiles: string[]) => void} callback - Called with the new list.
+     * @returns {() => void} Unsubscribe function.
+     */
+    onRecentFilesChanged: (callback: (recentFiles: string[]) => void) => {
+        const listener = (_event: unknown, recentFiles: string[]) => callback(recentFiles)
+        ipcRenderer.on('recent:changed', listener)
+        return () => ipcRenderer.removeListener('recent:changed', listener)
+    },
+
+    /**
+     * Reads the documents and layout of the last session.
+     * @returns {Promise<DocumentSession>} The stored session.
+     */
+    getSession: () => ipcRenderer.invoke('session:get'),
+
+    /**
+     * Stores the open documents and layout, to restore them on the next launch.
+     * @param {DocumentSession} data - The current session.
+     */
+    saveSession: (data: unknown) => ipcRenderer.send('session:save', data),
+
+    /**
+     * Files the app was launched with; each call returns the files not handed out yet.
+     * @returns {Promise<string[]>} File paths to open.
+     */
+    getLaunchFiles: () => ipcRenderer.invoke('app:launch-files'),
+
+    /**
+     * Subscribes to files to open from outside: a second launch, the OS or the Open Recent menu.
+     * @param {(filePaths: string[]) => void} callback - Called with the files to open.
+     * @returns {() => void} Unsubscribe function.
+     */
+    onOpenFiles: (callback: (filePaths: string[]) => void) => {
+        const listener = (_event: unknown, filePaths: string[]) => callback(filePaths)
+        ipcRenderer.on('app:open-files', listener)
+        return () => ipcRenderer.removeListener('app:open-files', listener)
+    },
+
+    /**
+     * Subscribes to menu items, which run commands of the renderer's command registry.
+     * @param {(commandId: string) => void} callback - Called with the id of the chosen command.
+     * @returns {() => void} Unsubscribe function.
+     */
+    onMenuCommand: (callback: (commandId: string) => void) => {
+        const listener = (_event: unknown, commandId: string) => callback(commandId)
+        ipcRenderer.on('menu:command', listener)
+        return () => ipcRenderer.removeListener('menu:command', listener)
+    },
+
+    /**
+     * Reads the user's keybindings file.
+     * @returns {Promise<KeybindingsFile>} The user's bindings, and an error when the file has problems.
+     */
+    getKeybindings: () => ipcRenderer.invoke('keybindings:get'),
+
+    /**
+     * Creates the keybindings file unless it exists.
+     * @returns {Promise<string>} The file's path, to open it in a tab.
+     */
+    openKeybindingsFile: () => ipcRenderer.invoke('keybindings:open'),
+
+    /**
+     * Subscribes to changes of the keybindings file.
+     * @param {(file: KeybindingsFile) => void} callback - Called with the file as read after the change.
+     * @returns {() => void} Unsubscribe function.
+     */
+    onKeybindingsChanged: (callback: (file: unknown) => void) => {
+        const listener = (_event: unknown, file: unknown) => callback(file)
+        ipcRenderer.on('keybindings:changed', listener)
+        return () => ipcRenderer.removeListener('keybindings:changed', listener)
+    },
+
+    /**
+     * Lets the user pick a JSON Schema file.
+     * @returns {Promise<{ location: string, text: string } | null>} The schema path and text, or null if canceled.
+     */
+    openSchema: () => ipcRenderer.invoke('schema:open'),
+
+    /**
+     * Loads a schema by URL or path; relative paths resolve against `baseFile`'s folder.
+     * @param {{ ref: string, baseFile?: string }} data - The reference and the document it came from.
+     * @returns {Promise<{ location: string, text: string }>} The resolved location and the schema text.
+     */
+    loadSchema: (data: { ref: string; baseFile?: string }) => ipcRenderer.invoke('schema:load', data),
 })
\ No newline at end of file
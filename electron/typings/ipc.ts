@@ -1,10 +1,95 @@
-export type OpenFileResult = { filePath: string; text: string } | null
+export type OpenFileResult =
+    | { filePath: string; text: string; large?: undefined }
+    /** Too large to send over IPC; open it with indexLargeFile */
+    | { filePath: string; large: true; size: number; text?: undefined }
+    | null
+
+export type LargeFileInfo = {
+    id: string
+    filePath: string
+    size: number
+    format: 'jsonl' | 'json-array'
+    records: number
+}
+
+export type LargeFileProgress = {
+    id: string
+    bytesRead: number
+    totalBytes: number
+    records: number
+    done: boolean
+    /** Why indexing stopped early; only on the final (done) report */
+    error?: string
+}
+
+export type SchemaMapping = {
+    /** Matched against the document path; a pattern without `/` matches the file name */
+    glob: string
+    /** Schema file path or URL */
+    schema: string
+}
+
+export type AppSettings = {
+    schemaMappings: SchemaMapping[]
+    /** Recently opened or saved files, most recent first */
+    recentFiles: string[]
+}
+
+export type SchemaText = { location: string; text: string }
+
+/** Open documents and layout of a session; the window layout is kept by the main process */
+export type DocumentSession = {
+    /** Files open in tabs, in tab order */
+    documents: string[]
+    /** Index of the active document */
+    active: number
+    /** Editor and grid pane sizes */
+    split?: number[]
+}
+
+/** The user's keybindings file, applied by the renderer on top of its defaults */
+export type KeybindingsFile = {
+    bindings: { key: string; command: string }[]
+    /** Why the file could not be read, or which entries were skipped */
+    error?: string
+}
 
 declare global {
     interface Window {
         api: {
             openFile(): Promise<OpenFileResult>
-            saveFile(data: { filePath?: string; text: string }): Promise<{ filePath: string } | null>
+            openFileToCompare(): Promise<OpenFileResult>
+            openPath(filePath: string): Promise<OpenFileResult>
+            getPathForFile(file: File): string
+            saveFile(data: { filePath?: string; text: string; formatName?: string; extensions?: string[] }): Promise<{ filePath: string } | null>
+            saveFileAs(data: { filePath?: string; text: string; formatName?: string; extensions?: string[] }): Promise<{ filePath: string } | null>
+            readFile(filePath: string): Promise<string>
+            watchFiles(filePaths: string[]): void
+            onFileChanged(callback: (filePath: string) => void): () => void
+            askToSave(filePath?: string): Promise<'save' | 'discard' | 'cancel'>
+            setTitle(data: { filePath?: string; dirty: boolean; unsaved: number }): void
+            onSaveBeforeClose(callback: () => void): () => void
+            closeWindow(): void
+            exportFile(data: { text: string; defaultName: string; extension: string; formatName: string }): Promise<{ filePath: string } | null>
+            indexLargeFile(filePath: string): Promise<LargeFileInfo>
+            readLargeFileRecords(data: { id: string; start: number; count: number }): Promise<string[]>
+            onLargeFileProgress(callback: (progress: LargeFileProgress) => void): () => void
+            closeLargeFile(id: string): void
+            getSettings(): Promise<AppSettings>
+            updateSettings(patch: Partial<AppSettings>): Promise<AppSettings>
+            getRecentFiles(): Promise<string[]>
+            clearRecentFiles(): Promise<string[]>
+            onRecentFilesChanged(callback: (recentFiles: string[]) => void): () => void
+            getSession(): Promise<DocumentSession>
+            saveSession(data: DocumentSession): void
+            getLaunchFiles(): Promise<string[]>
+            onOpenFiles(callback: (filePaths: string[]) => void): () => void
+            onMenuCommand(callback: (commandId: string) => void): () => void
+            getKeybindings(): Promise<KeybindingsFile>
+            openKeybindingsFile(): Promise<string>
+            onKeybindingsChanged(callback: (file: KeybindingsFile) => void): () => void
+            openSchema(): Promise<SchemaText | null>
+            loadSchema(data: { ref: string; baseFile?: string }): Promise<SchemaText>
         }
     }
 }
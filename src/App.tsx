@@ -1,231 +1,232 @@
 import { useEffect, useState, useCallback, useMemo, useRef } from 'react'
-import { Allotment } from 'allotment'
-import 'allotment/dist/style.css'
-import JSON5 from 'json5'
-import {
-  FileJson,
-  FolderOpen,
-  Save,
-  Play,
-  Minimize2,
-  CheckCircle,
-  Trash2,
-  Search,
-  Maximize2,
-  Minimize,
-  Filter
-} from 'lucide-react'
+import { AlertTriangle, FileJson, FolderOpen, Save, SaveAll } from 'lucide-react'
 import { GridProvider } from './context/GridContext'
-import { useGridContext } from './context/GridContext'
-
-import EditorMonaco from './components/EditorMonaco'
-import GridView, { GridViewHandle } from './components/GridView'
-import { deriveGridData } from './utils/deriveGridData'
-import { useDebounce } from '@/hooks/useDebounce'
+import DocumentView, { DocumentViewHandle } from './components/DocumentView'
+import TabBar from './components/TabBar'
+import StartScreen from './components/StartScreen'
+import CommandPalette from './components/CommandPalette'
+import { useSettings } from '@/hooks/useSettings'
+import { useTabs } from '@/hooks/useTabs'
+import { useCommandRegistry, useCommands } from '@/hooks/useCommands'
+import { SAMPLE_JSON } from './utils/sampleData'
+import type { OpenFileResult } from '../electron/typings/ipc'
 import './App.css'
 
-const initialJson = `[
-	{
-		"_id": "65ce58753546634a0dceb369",
-		"guid": "7eac8b2b-6d0d-47b6-9370-e8ee5d95421c",
-		"isActive": true,
-		"tags": {
-			"item": "et",
-			"value": {
-				"company": "Filodyne"
-			}
-		},
-		"balance": "$2,839.71",
-		"picture": "http://placehold.it/32x32",
-		"age": 35,
-		"eye Color": "brown",
-		"name": "Hartman Tyler",
-		"gender": "male",
-		"company": "COGENTRY",
-		"email": "hartmantyler@cogentry.com",
-		"phone": "+1 (843) 467-2321",
-		"friends": [
-			{
-				"id": 0,
-				"name": "Anastasia Mclean"
-			},
-			{
-				"id": 1,
-				"name": "Douglas Marshall"
-			},
-			{
-				"id": 2,
-				"name": "Chris Stone"
-			}
-		],
-		"address": "494 Gain Court, Wilmington, Guam, 9348",
-		"registered": "2018-07-22T10:00:39 +04:00",
-		"latitude": -37.13536,
-		"longitude": -116.583092,
-		"greeting": "Hello, Hartman Tyler! You have 1 unread messages.",
-		"favoriteFruit": "strawberry"
-	},
-	{
-		"_id": "65ce587519ec6121a04ba950",
-		"guid": "eb5afd03-c2fb-4344-9507-f71541593a15",
-		"isActive": false,
-		"tags": {
-			"item": "est",
-			"value": {
-				"company": "Affluex"
-			}
-		},
-		"balance": "$1,442.27",
-		"picture": "http://placehold.it/32x32",
-		"age": 35,
-		"eye Color": "green",
-		"name": "Malinda Jarvis",
-		"gender": "female",
-		"company": "OVATION",
-		"email": "malindajarvis@ovation.com",
-		"phone": "+1 (994) 436-2250",
-		"friends": [
-			{
-				"id": 0,
-				"name": "Carmella Cleveland"
-			},
-			{
-				"id": 1,
-				"name": "Mariana Moody"
-			},
-			{
-				"id": 2,
-				"name": "Marcia Tillman"
-			}
-		],
-		"address": "810 Lawn Court, Yettem, Mississippi, 8470",
-		"registered": "2014-06-30T01:51:15 +04:00",
-		"latitude": 78.030851,
-		"longitude": -135.193892,
-		"greeting": "Hello, Malinda Jarvis! You have 10 unread messages.",
-		"favoriteFruit": "banana"
-	}
-]`
-
 function App() {
-  const [text, setText] = useState(initialJson)
-  const [filePath, setFilePath] = useState<string>()
-  const [fileError, setFileError] = useState<string | null>(null)
   const api = window.api
-  const { triggerExpandAll, triggerCollapseAll, registerEditHandler } = useGridContext()
-  const gridRef = useRef<GridViewHandle>(null)
-
-  const debouncedText = useDebounce(text, 300)
-
-  /**
-   * Use useMemo to efficiently derive grid data and capture parsing errors.
-   */
-  const { data: gridData, error: gridError } = useMemo(() => {
-    return deriveGridData(debouncedText)
-  }, [debouncedText])
-
-  useEffect(() => {
-    registerEditHandler((relativePath, value) => {
-      if (!gridData) return
-      try {
-        const root = JSON5.parse(text)
-        // gridData.pathArray starts with '$', skip it
-        const basePath = gridData.pathArray[0] === '$' ? gridData.pathArray.slice(1) : gridData.pathArray
-        const fullPath = [...basePath, ...relativePath]
-
-        const setValue = (obj: any, p: (string | number)[], v: any): any => {
-          if (p.length === 0) return v
-          const [head, ...tail] = p
-          const k = head
-
-          const clone = Array.isArray(obj) ? [...obj] : { ...obj }
-
-          if (tail.length === 0) {
-            let finalValue = v
-            const original = obj[k]
-            // Attempt to preserve type
-            if (typeof original === 'number' && !isNaN(Number(v)) && v.trim() !== '') {
-              finalValue = Number(v)
-            } else if (typeof original === 'boolean') {
-              if (v === 'true') finalValue = true
-              if (v === 'false') finalValue = false
-            }
-            clone[k] = finalValue
-          } else {
-            clone[k] = setValue(obj[k] || (typeof tail[0] === 'number' ? [] : {}), tail, v)
-          }
-          return clone
-        }
+  const { settings, update: updateSettings } = useSettings()
+  const { tabs, active, open, close, move, activate, setStatus } = useTabs()
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [recentFiles, setRecentFiles] = useState<string[]>([])
+  /** Editor and grid pane sizes new tabs start with; kept in the session */
+  const [split, setSplit] = useState<number[]>()
+  /** False until the last session is restored; the start screen and session saving wait for it */
+  const [restored, setRestored] = useState(!api)
+  const [showPalette, setShowPalette] = useState(false)
+  const { run, withKey, problems, keybindingsError } = useCommandRegistry()
+  /** Mounted document views by tab id, for saving from the header, shortcuts and the close guard */
+  const viewsRef = useRef(new Map<string, DocumentViewHandle>())
+  // Files open one after another (restoring a session, dropping several), before the tabs re-render
+  const tabsRef = useRef(tabs)
+  tabsRef.current = tabs
+  const activeRef = useRef(active)
+  activeRef.current = active
 
-        const newRoot = setValue(root, fullPath, value)
-        setText(JSON.stringify(newRoot, null, 2))
-      } catch (e) {
-        console.error("Failed to update JSON", e)
-      }
-    })
-  }, [gridData, registerEditHandler, text])
+  /** Shows an opened file: in its tab when it is open already, else in a new one */
+  const showOpened = useCallback((res: NonNullable<OpenFileResult>): string => {
+    const existing = tabsRef.current.find((t) => t.status.onDisk && t.status.filePath === res.filePath)
+    if (existing) {
+      activate(existing.id)
+      return existing.id
+    }
+    // An untouched document without a file (a new tab, the sample) makes way for the opened one
+    const current = activeRef.current
+    const replace = current && !current.status.filePath && !current.status.dirty ? current.id : undefined
+    return open({ text: res.text ?? '', filePath: res.filePath, large: res.large }, replace)
+  }, [open, activate])
 
   const openFile = useCallback(async (): Promise<void> => {
     try {
       setFileError(null)
       const res = await api?.openFile()
-      if (res?.text) {
-        setText(res.text)
-        setFilePath(res.filePath)
-      }
+      if (res) showOpened(res)
     } catch (e) {
       setFileError(e instanceof Error ? e.message : String(e))
     }
-  }, [api])
+  }, [api, showOpened])
 
-  const saveFile = useCallback(async (): Promise<void> => {
-    try {
-      setFileError(null)
-      const res = await api?.saveFile({ filePath, text })
-      if (res?.filePath) setFilePath(res.filePath)
-    } catch (e) {
-      setFileError(e instanceof Error ? e.message : String(e))
+  /** Opens files by path in order; resolves to their tab ids, null for files that could not be opened */
+  const openPaths = useCallback(async (filePaths: string[]): Promise<(string | null)[]> => {
+    const ids: (string | null)[] = []
+    for (const filePath of filePaths) {
+      try {
+        const res = await api?.openPath(filePath)
+        ids.push(res ? showOpened(res) : null)
+      } catch (e) {
+        setFileError(`Could not open ${filePath}: ${e instanceof Error ? e.message : String(e)}`)
+        ids.push(null)
+      }
     }
-  }, [api, filePath, text])
+    return ids
+  }, [api, showOpened])
 
-  const handleFormat = () => {
-    try {
-      const parsed = JSON.parse(text)
-      setText(JSON.stringify(parsed, null, 2))
-    } catch (e) {
-      // ignore error
+  const saveActive = useCallback(async (saveAs = false): Promise<void> => {
+    if (active) await viewsRef.current.get(active.id)?.save(saveAs)
+  }, [active])
+
+  const newDocument = useCallback(() => {
+    open({ text: '' })
+  }, [open])
+
+  /** Closes a tab, asking first when it has unsaved changes */
+  const closeTab = useCallback(async (id: string): Promise<void> => {
+    const tab = tabs.find((t) => t.id === id)
+    if (!tab) return
+    if (tab.status.dirty && api) {
+      activate(id)
+      const choice = await api.askToSave(tab.status.filePath)
+      if (choice === 'cancel') return
+      if (choice === 'save' && !(await viewsRef.current.get(id)?.save())) return
     }
+    close(id)
+  }, [api, tabs, activate, close])
+
+  /** Activates the tab `step` places to the right (or left), wrapping around */
+  const cycleTab = (step: number) => {
+    if (!active) return
+    const index = tabs.findIndex((t) => t.id === active.id)
+    activate(tabs[(index + step + tabs.length) % tabs.length].id)
   }
 
-  const handleMinify = () => {
+  /** Opens the keybindings file in a tab, creating it with instructions the first time */
+  const openKeybindings = async () => {
     try {
-      const parsed = JSON.parse(text)
-      setText(JSON.stringify(parsed))
+      if (api) await openPaths([await api.openKeybindingsFile()])
     } catch (e) {
-      // ignore error
+      setFileError(e instanceof Error ? e.message : String(e))
     }
   }
 
-  const handleClear = () => {
-    setText('')
-  }
+  const canSave = !!api && !!active && !active.status.large
+  useCommands([
+    { id: 'commandPalette', title: 'Show All Commands', category: 'View', run: () => setShowPalette(true) },
+    { id: 'file.new', title: 'New Document', category: 'File', run: newDocument },
+    { id: 'file.open', title: 'Open…', category: 'File', run: () => void openFile(), enabled: !!api },
+    { id: 'file.save', title: 'Save', category: 'File', run: () => void saveActive(), enabled: canSave },
+    { id: 'file.saveAs', title: 'Save As…', category: 'File', run: () => void saveActive(true), enabled: canSave },
+    { id: 'tab.close', title: 'Close Tab', category: 'View', run: () => {
+      if (active) void closeTab(active.id)
+    }, enabled: !!active },
+    { id: 'tab.next', title: 'Next Tab', category: 'View', run: () => cycleTab(1), enabled: tabs.length > 1 },
+    { id: 'tab.previous', title: 'Previous Tab', category: 'View', run: () => cycleTab(-1), enabled: tabs.length > 1 },
+    { id: 'keybindings.open', title: 'Open Keybindings File', category: 'Preferences', run: () => void openKeybindings(), enabled: !!api },
+  ])
 
+  // Restore the last session, then open the files the app was launched with
+  const restoreStartedRef = useRef(false)
   useEffect(() => {
-    const onKey = (e: KeyboardEvent) => {
-      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'o') {
-        e.preventDefault()
-        void openFile()
-      }
-      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 's') {
-        e.preventDefault()
-        void saveFile()
+    if (!api || restoreStartedRef.current) return
+    restoreStartedRef.current = true
+    const restore = async () => {
+      try {
+        const session = await api.getSession()
+        setSplit(session.split)
+        const ids = await openPaths(session.documents)
+        const activeId = ids[session.active]
+        if (activeId) activate(activeId)
+        await openPaths(await api.getLaunchFiles())
+      } catch (e) {
+        console.error('Failed to restore the session:', e)
       }
+      setRestored(true)
     }
-    window.addEventListener('keydown', onKey)
-    return () => window.removeEventListener('keydown', onKey)
-  }, [openFile, saveFile])
+    void restore()
+  }, [api, openPaths, activate])
+
+  // Keep the session up to date: documents that have a file, the active one and the pane sizes
+  const lastSessionRef = useRef('')
+  useEffect(() => {
+    if (!api || !restored) return
+    const documents = tabs.flatMap((t) => (t.status.onDisk && t.status.filePath ? [t.status.filePath] : []))
+    const activeFile = active?.status.onDisk ? active.status.filePath : undefined
+    const session = { documents, active: Math.max(0, activeFile ? documents.indexOf(activeFile) : 0), split }
+    const json = JSON.stringify(session)
+    if (json === lastSessionRef.current) return
+    lastSessionRef.current = json
+    api.saveSession(session)
+  }, [api, restored, tabs, active, split])
+
+  useEffect(() => {
+    if (!api) return
+    api.getRecentFiles().then(setRecentFiles).catch((e) => console.error('Failed to read recent files:', e))
+    return api.onRecentFilesChanged(setRecentFiles)
+  }, [api])
 
+  useEffect(() => {
+    if (!api?.onOpenFiles) return
+    return api.onOpenFiles((filePaths) => void openPaths(filePaths))
+  }, [api, openPaths])
+
+  useEffect(() => {
+    if (!api?.onMenuCommand) return
+    return api.onMenuCommand(run)
+  }, [api, run])
+
+  // Files dropped anywhere on the window open in tabs. Capturing keeps the editor from taking
+  // them, and Electron from navigating to the file
+  useEffect(() => {
+    if (!api) return
+    const hasFiles = (e: DragEvent) => !!e.dataTransfer?.types.includes('Files')
+    const onDragOver = (e: DragEvent) => {
+      if (!hasFiles(e) || !e.dataTransfer) return
+      e.preventDefault()
+      e.stopPropagation()
+      e.dataTransfer.dropEffect = 'copy'
+    }
+    const onDrop = (e: DragEvent) => {
+      if (!hasFiles(e) || !e.dataTransfer) return
+      e.preventDefault()
+      e.stopPropagation()
+      void openPaths(Array.from(e.dataTransfer.files, (file) => api.getPathForFile(file)).filter(Boolean))
+    }
+    window.addEventListener('dragover', onDragOver, true)
+    window.addEventListener('drop', onDrop, true)
+    return () => {
+      window.removeEventListener('dragover', onDragOver, true)
+      window.removeEventListener('drop', onDrop, true)
+    }
+  }, [api, openPaths])
 
+  const unsaved = tabs.filter((t) => t.status.dirty).length
+
+  useEffect(() => {
+    api?.setTitle({ filePath: active?.status.filePath, dirty: !!active?.status.dirty, unsaved })
+  }, [api, active?.status.filePath, active?.status.dirty, unsaved])
+
+  /** Files of all tabs that were read from disk; large files are never edited, so they are left alone */
+  const watchedFiles = useMemo(
+    () => [...new Set(tabs.flatMap((t) => (t.status.onDisk && !t.status.large && t.status.filePath ? [t.status.filePath] : [])))],
+    [tabs],
+  )
+
+  useEffect(() => {
+    api?.watchFiles(watchedFiles)
+  }, [api, watchedFiles])
+
+  // Main asks for a save when the window is closed with unsaved changes and the user picks Save:
+  // save every unsaved tab in turn, and close only if none was cancelled
+  useEffect(() => {
+    if (!api?.onSaveBeforeClose) return
+    return api.onSaveBeforeClose(async () => {
+      for (const tab of tabs.filter((t) => t.status.dirty)) {
+        activate(tab.id)
+        if (!(await viewsRef.current.get(tab.id)?.save())) return
+      }
+      api.closeWindow()
+    })
+  }, [api, tabs, activate])
+
+  const keybindingIssues = [...(keybindingsError ? [keybindingsError] : []), ...problems.map((p) => `${p.key} → ${p.command}: ${p.message}`)]
 
   return (
     <div className="app-container">
@@ -236,106 +237,83 @@ function App() {
           <span>JSONGrid Desktop</span>
         </div>
         <div className="header-actions">
-          <button className="btn-secondary" onClick={openFile} disabled={!api} title="Open (⌘/Ctrl+O)">
+          <button className="btn-secondary" onClick={openFile} disabled={!api} title={withKey('Open', 'file.open')}>
             <FolderOpen size={16} /> Open
           </button>
-          <button className="btn-primary" onClick={saveFile} disabled={!api} title="Save (⌘/Ctrl+S)">
+          <button className="btn-primary" onClick={() => saveActive()} disabled={!canSave} title={withKey('Save', 'file.save')}>
             <Save size={16} /> Save
           </button>
-          {filePath && (
-            <span style={{ marginLeft: 8, fontSize: 12, opacity: 0.8 }}>
-              {filePath}
+          <button className="btn-secondary" onClick={() => saveActive(true)} disabled={!canSave} title={withKey('Save As', 'file.saveAs')}>
+            <SaveAll size={16} /> Save As
+          </button>
+          {keybindingIssues.length > 0 && (
+            <button
+              className="btn-secondary"
+              onClick={() => void openKeybindings()}
+              disabled={!api}
+              title={`${keybindingIssues.join('\n')}\n\nClick to open the keybindings file`}
+            >
+              <AlertTriangle size={16} /> Keybindings
+            </button>
+          )}
+          {fileError && <span style={{ marginLeft: 8, fontSize: 12, color: '#fca5a5', alignSelf: 'center' }}>{fileError}</span>}
+          {active && (active.status.filePath || active.status.dirty) && (
+            <span style={{ marginLeft: 8, fontSize: 12, opacity: 0.8, alignSelf: 'center' }} title={active.status.dirty ? 'Unsaved changes' : undefined}>
+              {active.status.dirty && '● '}
+              {active.status.filePath ?? active.untitledName}
             </span>
           )}
         </div>
       </header>
 
-      {/* Main Content */}
-      <div className="main-content">
-        <Allotment>
-          <Allotment.Pane minSize={300}>
-            <div className="panel-container">
-              <div className="panel-header">
-                <span>JSON</span>
-                {fileError && <span style={{ color: '#fca5a5', fontSize: 12 }}>{fileError}</span>}
-              </div>
-              <div className="toolbar">
-                <button className="toolbar-btn" onClick={() => setText(initialJson)}>
-                  <FileJson size={14} /> Sample
-                </button>
-                <button className="toolbar-btn" onClick={handleFormat}>
-                  <Play size={14} /> Format
-                </button>
-                <button className="toolbar-btn" onClick={handleMinify}>
-                  <Minimize2 size={14} /> Minify
-                </button>
-                {/* Validate is implicit with Monaco, but we could add explicit check */}
-                <button className="toolbar-btn" title="Validation is automatic">
-                  <CheckCircle size={14} /> Validate
-                </button>
-                <div style={{ flex: 1 }} />
-                <button className="toolbar-btn danger" onClick={handleClear}>
-                  <Trash2 size={14} /> Clear
-                </button>
-              </div>
-              <div style={{ flex: 1, overflow: 'hidden' }}>
-                <EditorMonaco value={text} onChange={setText} />
-              </div>
-            </div>
-          </Allotment.Pane>
+      {tabs.length > 0 && (
+        <TabBar
+          tabs={tabs}
+          activeId={active?.id ?? ''}
+          onActivate={activate}
+          onClose={(id) => void closeTab(id)}
+          onMove={move}
+          onNew={newDocument}
+        />
+      )}
+
+      {restored && tabs.length === 0 && (
+        <StartScreen
+          recentFiles={recentFiles}
+          canOpen={!!api}
+          onNew={newDocument}
+          onOpen={openFile}
+          onOpenRecent={(filePath) => void openPaths([filePath])}
+          onSample={() => open({ text: SAMPLE_JSON })}
+          onClearRecent={() => {
+            api?.clearRecentFiles().then(setRecentFiles).catch((e) => console.error('Failed to clear recent files:', e))
+          }}
+        />
+      )}
+
+      {showPalette && <CommandPalette onClose={() => setShowPalette(false)} />}
 
-          <Allotment.Pane minSize={300}>
-            <div className="panel-container">
-              <div className="panel-header">
-                <span>GRID</span>
-              </div>
-              <div className="toolbar">
-                <div className="toolbar-group">
-                  <button className="toolbar-btn" disabled>
-                    <Filter size={14} />
-                    Advanced Filter
-                  </button>
-                  <div className="search-container">
-                    <Search size={14} className="search-icon" />
-                    <input
-                      type="text"
-                      placeholder="Search..."
-                      className="search-input"
-                      onChange={(e) => gridRef.current?.setGlobalFilter(e.target.value)}
-                    />
-                  </div>
-                </div>
-                <div className="toolbar-group">
-                  <button className="toolbar-btn" onClick={triggerExpandAll}>
-                    <Maximize2 size={14} />
-                    Expand All
-                  </button>
-                  <button className="toolbar-btn" onClick={triggerCollapseAll}>
-                    <Minimize size={14} />
-                    Collapse All
-                  </button>
-                </div>
-              </div>
-              <div style={{ flex: 1, overflow: 'hidden', position: 'relative' }}>
-                {gridError ? (
-                  <div style={{ padding: 20, color: '#dc2626' }}>
-                    <strong>Error Parsing Input</strong>
-                    <p>{gridError}</p>
-                  </div>
-                ) : (
-                  <GridView
-                    ref={gridRef}
-                    data={gridData}
-                    key={`${gridData?.path}-${gridData?.columns.length}`}
-                  />
-                )}
-              </div>
-            </div>
-          </Allotment.Pane>
-        </Allotment>
-      </div>
+      {/* Every tab stays mounted with its own grid context; only the active one is shown */}
+      {tabs.map((tab) => (
+        <GridProvider key={tab.id}>
+          <DocumentView
+            ref={(view) => {
+              if (view) viewsRef.current.set(tab.id, view)
+              else viewsRef.current.delete(tab.id)
+            }}
+            id={tab.id}
+            source={tab.source}
+            active={tab.id === active?.id}
+            settings={settings}
+            onSettingsChange={updateSettings}
+            onStatusChange={setStatus}
+            split={split}
+            onSplitChange={setSplit}
+          />
+        </GridProvider>
+      ))}
     </div>
   )
 }
 
-export default App
\ No newline at end of file
+export default App
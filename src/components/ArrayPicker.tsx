@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react'
+import { Pin, PinOff } from 'lucide-react'
+import { ArrayCandidate } from '../utils/deriveGridData'
+
+type Props = {
+  path: string
+  candidates: ArrayCandidate[]
+  pinned: boolean
+  /** Pin the grid to a JSONPath, or pass null to go back to automatic selection */
+  onSelectPath: (path: string | null) => void
+}
+
+/**
+ * @name ArrayPicker
+ * @description Lets the user override which array drives the grid, either by choosing one of the
+ * ranked candidates from deriveGridData or by typing a JSONPath.
+ */
+export default function ArrayPicker({ path, candidates, pinned, onSelectPath }: Props) {
+  const [draft, setDraft] = useState(path)
+
+  // Keep the text box in sync when the selection changes from elsewhere
+  useEffect(() => setDraft(path), [path])
+
+  const inList = candidates.some((c) => c.path === path)
+
+  const commitDraft = () => {
+    const next = draft.trim()
+    if (next && next !== path) onSelectPath(next)
+  }
+
+  return (
+    <span style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+      <select
+        value={path}
+        onChange={(e) => onSelectPath(e.target.value)}
+        title="Arrays found in the document, best score first"
+        style={{ fontSize: 11, maxWidth: 260, border: '1px solid #e5e7eb', borderRadius: 4, background: 'white' }}
+      >
+        {!inList && <option value={path}>{path}</option>}
+        {candidates.map((c) => (
+          <option key={c.path} value={c.path} title={c.reason}>
+            {c.path} — {c.length} items, score {c.score}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+          if (e.key === 'Enter') commitDraft()
+          else if (e.key === 'Escape') setDraft(path)
+        }}
+        placeholder="$.data.items"
+        title="Type a JSONPath and press Enter to pin the grid to that array"
+        style={{ fontSize: 11, width: 160, padding: '1px 4px', border: '1px solid #e5e7eb', borderRadius: 4, fontFamily: 'monospace' }}
+      />
+      {pinned ? (
+        <span
+          onClick={() => onSelectPath(null)}
+          title="Pinned. Click to return to automatic selection"
+          style={{ cursor: 'pointer', color: '#3b82f6', display: 'inline-flex', alignItems: 'center', gap: 2 }}
+        >
+          <PinOff size={12} /> Auto
+        </span>
+      ) : (
+        <span title="Selected automatically" style={{ display: 'inline-flex', alignItems: 'center', gap: 2 }}>
+          <Pin size={12} /> auto
+        </span>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,152 @@
+import React, { useMemo, useRef, useState } from 'react'
+import { Check, X } from 'lucide-react'
+import {
+  CELL_TYPES,
+  CellValueType,
+  LONG_STRING,
+  detectCellType,
+  hasTime,
+  parseDraft,
+  toDraft,
+} from '../utils/cellValue'
+
+type Props = {
+  /** Current value of the cell */
+  value: unknown
+  onCommit: (value: unknown) => void
+  onCancel: () => void
+}
+
+const fieldStyle: React.CSSProperties = {
+  padding: '2px 4px',
+  border: '1px solid #3b82f6',
+  borderRadius: 4,
+  outline: 'none',
+  fontFamily: 'monospace',
+  fontSize: 12,
+  background: 'white',
+  color: '#1f2937',
+}
+
+/**
+ * @name CellEditor
+ * @description Inline editor for a grid value with an explicit type. Enter commits (Ctrl+Enter
+ * in multiline fields), Escape cancels, and leaving the editor commits when the draft is valid.
+ */
+export default function CellEditor({ value, onCommit, onCancel }: Props) {
+  const [type, setType] = useState<CellValueType>(() => detectCellType(value))
+  const [draft, setDraft] = useState(() => toDraft(value, detectCellType(value)))
+  const [showError, setShowError] = useState(false)
+  const rootRef = useRef<HTMLDivElement>(null)
+
+  const parsed = useMemo(() => parseDraft(draft, type, value), [draft, type, value])
+  const error = 'error' in parsed ? parsed.error : null
+  const multiline = type === 'json' || (type === 'string' && (draft.length > LONG_STRING || draft.includes('\n')))
+
+  const commit = () => {
+    if ('error' in parsed) {
+      setShowError(true)
+      return
+    }
+    onCommit(parsed.value)
+  }
+
+  const changeType = (next: CellValueType) => {
+    // Carry the current draft over where it makes sense (e.g. "42" string → number)
+    const source = 'value' in parsed ? parsed.value : draft
+    setType(next)
+    setDraft(toDraft(source, next))
+    setShowError(false)
+  }
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation()
+    if (e.key === 'Escape') {
+      onCancel()
+    } else if (e.key === 'Enter' && (!multiline || e.ctrlKey || e.metaKey)) {
+      e.preventDefault()
+      commit()
+    }
+  }
+
+  const onBlur = (e: React.FocusEvent) => {
+    if (rootRef.current?.contains(e.relatedTarget as Node | null)) return
+    if (error) onCancel()
+    else commit()
+  }
+
+  let widget: React.ReactNode
+  if (type === 'boolean') {
+    widget = (
+      <label style={{ display: 'inline-flex', alignItems: 'center', gap: 4, fontSize: 12 }}>
+        <input type="checkbox" autoFocus checked={draft === 'true'} onChange={(e) => setDraft(String(e.target.checked))} />
+        {draft}
+      </label>
+    )
+  } else if (type === 'null') {
+    widget = <span style={{ color: '#6b7280', fontFamily: 'monospace', fontSize: 12 }}>null</span>
+  } else if (type === 'date') {
+    widget = (
+      <input
+        autoFocus
+        type={hasTime(value) ? 'datetime-local' : 'date'}
+        step={1}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        style={fieldStyle}
+      />
+    )
+  } else if (multiline) {
+    widget = (
+      <textarea
+        autoFocus
+        value={draft}
+        rows={type === 'json' ? 6 : 4}
+        onChange={(e) => setDraft(e.target.value)}
+        style={{ ...fieldStyle, width: '100%', minWidth: 220, resize: 'vertical' }}
+      />
+    )
+  } else {
+    widget = (
+      <input
+        autoFocus
+        type={type === 'number' ? 'number' : 'text'}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        style={{ ...fieldStyle, width: '100%' }}
+      />
+    )
+  }
+
+  return (
+    <div
+      ref={rootRef}
+      className="value-cell-edit"
+      onKeyDown={onKeyDown}
+      onBlur={onBlur}
+      onClick={(e) => e.stopPropagation()}
+      style={{ display: 'flex', flexDirection: 'column', gap: 2, padding: 2, width: '100%' }}
+    >
+      <div style={{ display: 'flex', alignItems: multiline ? 'flex-start' : 'center', gap: 4 }}>
+        <select
+          value={type}
+          onChange={(e) => changeType(e.target.value as CellValueType)}
+          title="Value type"
+          style={{ fontSize: 11, border: '1px solid #d1d5db', borderRadius: 4, background: 'white' }}
+        >
+          {CELL_TYPES.map((t) => (
+            <option key={t.type} value={t.type}>{t.label}</option>
+          ))}
+        </select>
+        <div style={{ flex: 1, minWidth: 0 }}>{widget}</div>
+        <button className="toolbar-btn" style={{ padding: '2px 4px' }} onClick={commit} disabled={showError && !!error} title={multiline ? 'Save (Ctrl+Enter)' : 'Save (Enter)'}>
+          <Check size={12} />
+        </button>
+        <button className="toolbar-btn" style={{ padding: '2px 4px' }} onClick={onCancel} title="Cancel (Esc)">
+          <X size={12} />
+        </button>
+      </div>
+      {showError && error && <span style={{ color: '#dc2626', fontSize: 11 }}>{error}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+import type { ReactNode } from 'react'
+import { X } from 'lucide-react'
+import { ColumnProfile, HistogramBin } from '../utils/columnProfile'
+import { FilterCondition } from '../utils/filterModel'
+
+type Props = {
+  profile: ColumnProfile
+  /** Adds a condition to the grid filter; the panel is read-only without it */
+  onFilter?: (condition: Omit<FilterCondition, 'id'>) => void
+  onClose: () => void
+}
+
+const formatNumber = (n: number) => (Number.isInteger(n) ? n.toLocaleString() : n.toLocaleString(undefined, { maximumFractionDigits: 4 }))
+
+const percent = (part: number, whole: number) => (whole ? `${Math.round((part / whole) * 1000) / 10}%` : '0%')
+
+function Stat({ label, value, onClick }: { label: string; value: ReactNode; onClick?: () => void }) {
+  return (
+    <div
+      onClick={onClick}
+      style={{ display: 'flex', flexDirection: 'column', minWidth: 70, cursor: onClick ? 'pointer' : 'default' }}
+      title={onClick ? 'Filter the grid to these rows' : undefined}
+    >
+      <span style={{ color: '#6b7280', fontSize: 11 }}>{label}</span>
+      <strong style={{ color: onClick ? '#3b82f6' : '#1f2937', fontWeight: 600 }}>{value}</strong>
+    </div>
+  )
+}
+
+function Histogram({ bins, format, onFilter }: { bins: HistogramBin[]; format: (n: number) => string; onFilter?: Props['onFilter'] }) {
+  const peak = Math.max(1, ...bins.map((b) => b.count))
+  return (
+    <div style={{ display: 'flex', alignItems: 'flex-end', gap: 2, height: 48 }}>
+      {bins.map((b, i) => (
+        <div
+          key={i}
+          onClick={() => onFilter?.(b.filter)}
+          title={`${format(b.from)} – ${format(b.to)}: ${b.count.toLocaleString()}`}
+          style={{
+            flex: 1,
+            height: `${Math.max(2, (b.count / peak) * 100)}%`,
+            background: b.count ? '#93c5fd' : '#e5e7eb',
+            borderRadius: '2px 2px 0 0',
+            cursor: onFilter ? 'pointer' : 'default',
+          }}
+        />
+      ))}
+    </div>
+  )
+}
+
+/**
+ * @name ColumnProfilePanel
+ * @description Statistics for one grid column: counts, top values, numeric/date ranges and a
+ * histogram. Clicking a value, a bar or the null/missing counts filters the grid to those rows.
+ */
+export default function ColumnProfilePanel({ profile, onFilter, onClose }: Props) {
+  const { column, rows, present, nulls, missing, distinct, topValues, kinds, numbers, dates, strings } = profile
+  const peak = Math.max(1, ...topValues.map((v) => v.count))
+  const formatDate = (t: number) => new Date(t).toISOString().replace('T', ' ').replace(/(:00)?\.000Z$/, '')
+
+  return (
+    <div style={{ padding: 8, borderBottom: '1px solid #e5e7eb', background: '#f9fafb', fontSize: 12, display: 'flex', flexDirection: 'column', gap: 8, maxHeight: 360, overflowY: 'auto' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <strong>Profile: <code>{column}</code></strong>
+        <span style={{ color: '#6b7280' }}>
+          {Object.entries(kinds).sort((a, b) => b[1] - a[1]).map(([kind, n]) => `${kind} ${percent(n, present)}`).join(', ')}
+        </span>
+        <div style={{ flex: 1 }} />
+        <button className="toolbar-btn" onClick={onClose} title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', gap: 16, flexWrap: 'wrap' }}>
+        <Stat label="Rows" value={rows.toLocaleString()} />
+        <Stat label="Present" value={present.toLocaleString()} />
+        <Stat label="Null" value={`${nulls.toLocaleString()} (${percent(nulls, rows)})`} onClick={nulls && onFilter ? () => onFilter({ column, operator: 'isNull' }) : undefined} />
+        <Stat label="Missing" value={`${missing.toLocaleString()} (${percent(missing, rows)})`} onClick={missing && onFilter ? () => onFilter({ column, operator: 'isMissing' }) : undefined} />
+        <Stat label="Distinct" value={distinct.toLocaleString()} />
+        {numbers && (
+          <>
+            <Stat label="Min" value={formatNumber(numbers.min)} />
+            <Stat label="Max" value={formatNumber(numbers.max)} />
+            <Stat label="Mean" value={formatNumber(numbers.mean)} />
+            <Stat label="Median" value={formatNumber(numbers.median)} />
+          </>
+        )}
+        {dates && (
+          <>
+            <Stat label="Earliest" value={dates.min} />
+            <Stat label="Latest" value={dates.max} />
+          </>
+        )}
+        {strings && <Stat label="Length" value={strings.minLength === strings.maxLength ? strings.minLength : `${strings.minLength}–${strings.maxLength}`} />}
+      </div>
+
+      {numbers && numbers.histogram.length > 1 && <Histogram bins={numbers.histogram} format={formatNumber} onFilter={onFilter} />}
+      {dates && dates.histogram.length > 1 && <Histogram bins={dates.histogram} format={formatDate} onFilter={onFilter} />}
+
+      {topValues.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <span style={{ color: '#6b7280', fontSize: 11 }}>Top values</span>
+          {topValues.map((v, i) => {
+            const filter = v.filter
+            return (
+              <div
+                key={i}
+                onClick={filter && onFilter ? () => onFilter(filter) : undefined}
+                title={filter && onFilter ? 'Filter the grid to this value' : undefined}
+                style={{ display: 'flex', alignItems: 'center', gap: 8, cursor: filter && onFilter ? 'pointer' : 'default' }}
+              >
+                <span style={{ width: 180, flexShrink: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', fontFamily: 'monospace' }}>{v.label}</span>
+                <div style={{ flex: 1, background: '#e5e7eb', borderRadius: 2, height: 8 }}>
+                  <div style={{ width: `${(v.count / peak) * 100}%`, background: '#60a5fa', borderRadius: 2, height: '100%' }} />
+                </div>
+                <span style={{ width: 90, flexShrink: 0, textAlign: 'right', color: '#6b7280' }}>
+                  {v.count.toLocaleString()} ({percent(v.count, rows)})
+                </span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
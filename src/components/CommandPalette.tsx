@@ -0,0 +1,144 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { Command, useCommandRegistry } from '../hooks/useCommands'
+import { FuzzyMatch, fuzzyMatch } from '../utils/fuzzyMatch'
+import { formatKey } from '../utils/keybindings'
+
+type Props = {
+  onClose: () => void
+}
+
+type Item = FuzzyMatch & { command: Command; label: string }
+
+/** Text with the characters at `positions` in bold */
+function Highlighted({ text, positions }: { text: string; positions: number[] }) {
+  const marked = new Set(positions)
+  return (
+    <>
+      {Array.from(text, (ch, i) => (marked.has(i) ? <strong key={i} style={{ color: '#1d4ed8' }}>{ch}</strong> : ch))}
+    </>
+  )
+}
+
+/**
+ * @name CommandPalette
+ * @description Lists the commands that can run now with their keys, filtered by a fuzzy query.
+ * Arrow keys pick, Enter runs, Escape closes. Keys with a problem (Monaco takes them in the
+ * editor, bound twice) are marked, as are errors in the keybindings file.
+ */
+export default function CommandPalette({ onClose }: Props) {
+  const { commands, run, keysOf, problems, keybindingsError } = useCommandRegistry()
+  const [query, setQuery] = useState('')
+  const [index, setIndex] = useState(0)
+  const listRef = useRef<HTMLDivElement>(null)
+  // Focus goes back where it was, then the command may move it (search focuses its input)
+  const [previousFocus] = useState(() => document.activeElement as HTMLElement | null)
+
+  const problemsByKey = useMemo(() => {
+    const byKey = new Map<string, string[]>()
+    for (const p of problems) {
+      const id = `${p.command}\u0000${p.key}`
+      byKey.set(id, [...(byKey.get(id) ?? []), p.message])
+    }
+    return byKey
+  }, [problems])
+
+  const items = useMemo(() => {
+    const matches: Item[] = []
+    for (const command of commands) {
+      if (command.enabled === false) continue
+      const label = `${command.category}: ${command.title}`
+      // Ids from the keybindings file match too, below the titles
+      const match = fuzzyMatch(query, label) ?? (fuzzyMatch(query, command.id) ? { score: -100, positions: [] } : null)
+      if (match) matches.push({ command, label, ...match })
+    }
+    return query ? matches.sort((a, b) => b.score - a.score) : matches
+  }, [commands, query])
+
+  const selected = Math.min(index, items.length - 1)
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' })
+  }, [selected])
+
+  const close = () => {
+    previousFocus?.focus()
+    onClose()
+  }
+
+  const runAt = (i: number) => {
+    const item = items[i]
+    if (!item) return
+    close()
+    run(item.command.id)
+  }
+
+  const keyProblems = problems.filter((p) => !commands.some((c) => c.id === p.command && c.enabled !== false))
+
+  return (
+    <div className="palette-backdrop" onMouseDown={close}>
+      <div className="palette" onMouseDown={(e) => e.stopPropagation()}>
+        <input
+          autoFocus
+          className="palette-input"
+          placeholder="Type a command"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setIndex(0)
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+              e.preventDefault()
+              if (items.length > 0) setIndex((selected + (e.key === 'ArrowDown' ? 1 : items.length - 1)) % items.length)
+            } else if (e.key === 'Enter') {
+              e.preventDefault()
+              runAt(selected)
+            } else if (e.key === 'Escape') {
+              e.preventDefault()
+              close()
+            }
+          }}
+        />
+        <div className="palette-list" ref={listRef}>
+          {items.map((item, i) => (
+            <div
+              key={item.command.id}
+              className={`palette-item${i === selected ? ' active' : ''}`}
+              onMouseMove={() => setIndex(i)}
+              onClick={() => runAt(i)}
+              title={item.command.id}
+            >
+              <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                <Highlighted text={item.label} positions={item.positions} />
+              </span>
+              {keysOf(item.command.id).map((key) => {
+                const messages = problemsByKey.get(`${item.command.id}\u0000${key}`)
+                return (
+                  <kbd key={key} className={`palette-key${messages ? ' warning' : ''}`} title={messages?.join('\n')}>
+                    {messages && <AlertTriangle size={10} />}
+                    {formatKey(key)}
+                  </kbd>
+                )
+              })}
+            </div>
+          ))}
+          {items.length === 0 && <div style={{ padding: '8px 12px', color: '#6b7280', fontSize: 12 }}>No matching commands</div>}
+        </div>
+        {(keybindingsError || keyProblems.length > 0) && (
+          <div className="palette-footer">
+            <AlertTriangle size={12} style={{ flexShrink: 0, marginTop: 2 }} />
+            <div>
+              {keybindingsError && <div>{keybindingsError}</div>}
+              {keyProblems.map((p) => (
+                <div key={`${p.command}-${p.key}-${p.message}`}>
+                  {p.key} → {p.command}: {p.message}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,384 @@
+import React, { useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, ClipboardPaste, FolderOpen, X } from 'lucide-react'
+import { formatFromPath, parseDocument, sniffFormat } from '../utils/formats'
+import { formatJsonPath, fromValuePath, resolvePath, toValuePath } from '../utils/jsonPath'
+import {
+  DiffKind,
+  DiffPath,
+  DiffTreeNode,
+  MAX_DIFF_CHANGES,
+  RowDiff,
+  RowStatus,
+  alignRows,
+  buildDiffTree,
+  detectArrayKey,
+  diffDocuments,
+  keyCandidates,
+} from '../utils/structuralDiff'
+
+export type CompareTarget = { label: string; value: unknown }
+
+type Props = {
+  /** The open document, parsed */
+  document: unknown
+  /** The other document; null until one is opened or pasted */
+  other: CompareTarget | null
+  onOtherChange: (other: CompareTarget | null) => void
+  /** Segment path of the grid's array, whose rows are aligned */
+  arrayPath: string[] | null
+  /** Locate a path of the open document in the editor and grid */
+  onSelectPath: (path: DiffPath) => void
+}
+
+const KIND_COLORS: Record<DiffKind, { color: string; background: string; sign: string }> = {
+  added: { color: '#15803d', background: '#dcfce7', sign: '+' },
+  removed: { color: '#b91c1c', background: '#fee2e2', sign: '−' },
+  changed: { color: '#b45309', background: '#fef3c7', sign: '~' },
+}
+
+const ROW_BACKGROUNDS: Record<RowStatus, string> = {
+  added: '#f0fdf4',
+  removed: '#fef2f2',
+  modified: 'white',
+  unchanged: 'white',
+}
+
+/** Rendering stops here for long arrays */
+const MAX_RENDERED_ROWS = 1000
+/** Columns of the aligned rows; more fields than this are left out */
+const MAX_ROW_COLUMNS = 40
+
+const selectStyle = { fontSize: 11, padding: '0 2px', border: '1px solid #d1d5db', borderRadius: 4, background: 'white', color: '#374151' }
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  borderBottom: '1px solid #f3f4f6',
+  borderRight: '1px solid #f3f4f6',
+  fontSize: 12,
+  verticalAlign: 'top',
+  maxWidth: 260,
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+  whiteSpace: 'nowrap',
+}
+
+function preview(v: unknown): string {
+  if (v === undefined) return ''
+  if (typeof v === 'string') return v
+  const text = JSON.stringify(v)
+  return text.length > 80 ? `${text.slice(0, 79)}…` : text
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v)
+
+/** Cell of an aligned row: records by field, anything else in the `value` column */
+const fieldOf = (row: unknown, field: string) => (isRecord(row) ? row[field] : field === 'value' ? row : undefined)
+
+function DiffTree({ node, depth, collapsed, onToggle, onSelect }: {
+  node: DiffTreeNode
+  depth: number
+  collapsed: Set<string>
+  onToggle: (id: string) => void
+  onSelect: (node: DiffTreeNode) => void
+}) {
+  const id = `${JSON.stringify(node.path)}${node.change?.kind ?? ''}`
+  const open = !collapsed.has(id)
+  const change = node.change
+  const label = node.key === null ? '(document)' : typeof node.key === 'number' ? `[${node.key}]` : node.key
+  return (
+    <>
+      <div
+        onClick={() => onSelect(node)}
+        title={formatJsonPath(fromValuePath(node.path))}
+        style={{ display: 'flex', alignItems: 'center', gap: 6, paddingLeft: depth * 14, cursor: 'pointer', whiteSpace: 'nowrap', lineHeight: '20px' }}
+      >
+        {node.children.length > 0 ? (
+          <span
+            onClick={(e) => {
+              e.stopPropagation()
+              onToggle(id)
+            }}
+            style={{ display: 'flex' }}
+          >
+            {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+          </span>
+        ) : (
+          <span style={{ width: 12 }} />
+        )}
+        {change && (
+          <span style={{ color: KIND_COLORS[change.kind].color, background: KIND_COLORS[change.kind].background, borderRadius: 3, padding: '0 4px', fontWeight: 600 }}>
+            {KIND_COLORS[change.kind].sign}
+          </span>
+        )}
+        <code>{label}</code>
+        {change?.kind === 'changed' && (
+          <span style={{ color: '#6b7280', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+            <span style={{ textDecoration: 'line-through' }}>{preview(change.before)}</span> → {preview(change.after)}
+          </span>
+        )}
+        {change && change.kind !== 'changed' && (
+          <span style={{ color: '#6b7280', overflow: 'hidden', textOverflow: 'ellipsis' }}>{preview(change.kind === 'added' ? change.after : change.before)}</span>
+        )}
+        {!change && (
+          <span style={{ color: '#9ca3af' }}>
+            {(['added', 'removed', 'changed'] as DiffKind[]).filter((k) => node.counts[k]).map((k) => `${KIND_COLORS[k].sign}${node.counts[k]}`).join(' ')}
+          </span>
+        )}
+      </div>
+      {open && node.children.map((child, i) => (
+        <DiffTree key={i} node={child} depth={depth + 1} collapsed={collapsed} onToggle={onToggle} onSelect={onSelect} />
+      ))}
+    </>
+  )
+}
+
+/**
+ * @name CompareView
+ * @description Compares the open document with another one: a structural diff tree of added,
+ * removed and changed paths, and the grid's array with rows aligned by a key field.
+ */
+export default function CompareView({ document, other, onOtherChange, arrayPath, onSelectPath }: Props) {
+  const [pasting, setPasting] = useState(false)
+  const [pasteText, setPasteText] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  /** Key that aligns rows; undefined detects one, null matches rows by content */
+  const [alignKey, setAlignKey] = useState<string | null | undefined>(undefined)
+  const [changesOnly, setChangesOnly] = useState(true)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  const load = (text: string, label: string, filePath?: string) => {
+    try {
+      const format = formatFromPath(filePath) ?? sniffFormat(text)
+      onOtherChange({ label, value: parseDocument(text, format) })
+      setError(null)
+      setPasting(false)
+    } catch (e) {
+      setError(`Could not parse ${label}: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
+  const openFile = async () => {
+    try {
+      const res = await window.api?.openFileToCompare()
+      if (!res) return
+      if (res.large) return setError('That file is too large to compare.')
+      load(res.text, res.filePath.split(/[\\/]/).pop() ?? res.filePath, res.filePath)
+    } catch (e) {
+      setError(`Could not open the file: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
+  /** The grid's array in both documents, when both have it */
+  const arrays = useMemo(() => {
+    if (!other || !arrayPath) return null
+    const before = resolvePath(document, arrayPath)
+    const after = resolvePath(other.value, arrayPath)
+    return Array.isArray(before) && Array.isArray(after) ? { before, after } : null
+  }, [document, other, arrayPath])
+
+  const candidates = useMemo(() => (arrays ? keyCandidates(arrays.before, arrays.after) : []), [arrays])
+  const detectedKey = useMemo(() => (arrays ? detectArrayKey(arrays.before, arrays.after) : null), [arrays])
+  const key = alignKey === undefined ? detectedKey : alignKey
+
+  const diff = useMemo(() => {
+    if (!other) return null
+    const arrayValuePath = arrayPath ? JSON.stringify(toValuePath(arrayPath)) : null
+    const { changes, truncated } = diffDocuments(document, other.value, {
+      arrayKey: (path) => (JSON.stringify(path) === arrayValuePath ? key : undefined),
+    })
+    return { tree: buildDiffTree(changes), truncated }
+  }, [document, other, arrayPath, key])
+
+  const rowDiffs = useMemo(() => (arrays ? alignRows(arrays.before, arrays.after, key) : null), [arrays, key])
+
+  const rowColumns = useMemo(() => {
+    if (!rowDiffs) return []
+    const fields = new Set<string>()
+    for (const r of rowDiffs) {
+      for (const v of [r.before, r.after]) {
+        if (isRecord(v)) Object.keys(v).forEach((k) => fields.add(k))
+        else if (v !== undefined) fields.add('value')
+      }
+      if (fields.size >= MAX_ROW_COLUMNS) break
+    }
+    return [...fields].slice(0, MAX_ROW_COLUMNS)
+  }, [rowDiffs])
+
+  const rowCounts = useMemo(() => {
+    const counts: Record<RowStatus, number> = { added: 0, removed: 0, modified: 0, unchanged: 0 }
+    for (const r of rowDiffs ?? []) counts[r.status]++
+    return counts
+  }, [rowDiffs])
+
+  const shownRows = (rowDiffs ?? []).filter((r) => !changesOnly || r.status !== 'unchanged').slice(0, MAX_RENDERED_ROWS)
+
+  const toggle = (id: string) => setCollapsed((c) => {
+    const next = new Set(c)
+    if (!next.delete(id)) next.add(id)
+    return next
+  })
+
+  const selectNode = (node: DiffTreeNode) => {
+    // Added values only exist in the other document; show where they would go
+    onSelectPath(node.change?.kind === 'added' ? node.path.slice(0, -1) : node.path)
+  }
+
+  const selectRow = (row: RowDiff) => {
+    if (arrayPath && row.beforeIndex !== undefined) onSelectPath([...toValuePath(arrayPath), row.beforeIndex])
+  }
+
+  const counts = diff?.tree.counts
+
+  return (
+    <div style={{ height: '100%', display: 'flex', flexDirection: 'column', boxSizing: 'border-box', fontSize: 12 }}>
+      <div style={{ padding: 8, borderBottom: '1px solid #e5e7eb', background: '#f9fafb', display: 'flex', flexDirection: 'column', gap: 6 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <strong>Compare with</strong>
+          {other ? <code>{other.label}</code> : <span style={{ color: '#6b7280' }}>another document</span>}
+          <div style={{ flex: 1 }} />
+          <button className="toolbar-btn" onClick={openFile} disabled={!window.api}>
+            <FolderOpen size={14} /> Open file…
+          </button>
+          <button className={`toolbar-btn${pasting ? ' active' : ''}`} onClick={() => setPasting((v) => !v)}>
+            <ClipboardPaste size={14} /> Paste…
+          </button>
+          {other && (
+            <button className="toolbar-btn" onClick={() => onOtherChange(null)} title="Stop comparing">
+              <X size={14} />
+            </button>
+          )}
+        </div>
+        {pasting && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+            <textarea
+              value={pasteText}
+              onChange={(e) => setPasteText(e.target.value)}
+              placeholder="Paste JSON, YAML or TOML to compare with"
+              style={{ fontFamily: 'monospace', fontSize: 12, height: 120, resize: 'vertical', border: '1px solid #d1d5db', borderRadius: 4, padding: 4 }}
+            />
+            <div>
+              <button className="toolbar-btn" onClick={() => load(pasteText, 'pasted text')} disabled={!pasteText.trim()}>
+                Compare
+              </button>
+            </div>
+          </div>
+        )}
+        {error && <span style={{ color: '#dc2626' }}>{error}</span>}
+        {counts && (
+          <div style={{ display: 'flex', gap: 12 }}>
+            {(['added', 'removed', 'changed'] as DiffKind[]).map((k) => (
+              <span key={k} style={{ color: KIND_COLORS[k].color }}>
+                {KIND_COLORS[k].sign}{counts[k]} {k}
+              </span>
+            ))}
+            {diff.truncated && <span style={{ color: '#b45309' }}>Stopped after {MAX_DIFF_CHANGES} changes</span>}
+          </div>
+        )}
+      </div>
+
+      {diff && (
+        <div style={{ flex: rowDiffs ? '0 0 40%' : 1, overflow: 'auto', padding: '4px 8px', borderBottom: '1px solid #e5e7eb' }}>
+          {diff.tree.children.length === 0 && !diff.tree.change ? (
+            <span style={{ color: '#059669' }}>The documents are the same.</span>
+          ) : (
+            <DiffTree node={diff.tree} depth={0} collapsed={collapsed} onToggle={toggle} onSelect={selectNode} />
+          )}
+        </div>
+      )}
+
+      {rowDiffs && arrayPath && (
+        <>
+          <div style={{
+            padding: '4px 8px',
+            background: '#f9fafb',
+            borderBottom: '1px solid #e5e7eb',
+            fontSize: 11,
+            color: '#6b7280',
+            display: 'flex',
+            alignItems: 'center',
+            gap: 12
+          }}>
+            <span>Rows at <strong>{formatJsonPath(arrayPath)}</strong></span>
+            <span>
+              Align by{' '}
+              <select
+                value={key ?? ''}
+                onChange={(e) => setAlignKey(e.target.value || null)}
+                style={selectStyle}
+              >
+                <option value="">Content (no key)</option>
+                {candidates.map((c) => (
+                  <option key={c.key} value={c.key}>{c.key}{c.unique ? '' : ' (not unique)'}</option>
+                ))}
+              </select>
+            </span>
+            <span style={{ color: KIND_COLORS.added.color }}>+{rowCounts.added}</span>
+            <span style={{ color: KIND_COLORS.removed.color }}>−{rowCounts.removed}</span>
+            <span style={{ color: KIND_COLORS.changed.color }}>~{rowCounts.modified}</span>
+            <span>{rowCounts.unchanged} unchanged</span>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 4, cursor: 'pointer' }}>
+              <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} style={{ margin: 0 }} />
+              Changes only
+            </label>
+          </div>
+          <div style={{ overflow: 'auto', flex: 1, background: 'white' }}>
+            <table style={{ borderSpacing: 0 }}>
+              <thead style={{ background: '#f3f4f6', position: 'sticky', top: 0, zIndex: 1 }}>
+                <tr>
+                  {['', '#', ...rowColumns].map((c, i) => (
+                    <th key={i} style={{ ...cellStyle, fontWeight: 600, color: '#374151', textAlign: 'left', borderBottom: '1px solid #e5e7eb' }}>{c}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {shownRows.map((row, r) => (
+                  <tr
+                    key={r}
+                    onClick={() => selectRow(row)}
+                    style={{ background: ROW_BACKGROUNDS[row.status], cursor: row.beforeIndex !== undefined ? 'pointer' : 'default' }}
+                  >
+                    <td style={{ ...cellStyle, fontWeight: 600, color: row.status === 'added' ? KIND_COLORS.added.color : row.status === 'removed' ? KIND_COLORS.removed.color : row.status === 'modified' ? KIND_COLORS.changed.color : '#9ca3af' }}>
+                      {row.status === 'added' ? '+' : row.status === 'removed' ? '−' : row.status === 'modified' ? '~' : ''}
+                    </td>
+                    <td style={{ ...cellStyle, color: '#6b7280' }} title="Index in this document → in the other">
+                      {row.beforeIndex ?? '·'} → {row.afterIndex ?? '·'}
+                    </td>
+                    {rowColumns.map((field) => {
+                      const changed = row.fields.has(field)
+                      const before = fieldOf(row.before, field)
+                      const after = fieldOf(row.after, field)
+                      return (
+                        <td
+                          key={field}
+                          title={changed ? `${preview(before)} → ${preview(after)}` : undefined}
+                          style={{
+                            ...cellStyle,
+                            background: changed ? KIND_COLORS.changed.background : undefined,
+                            textDecoration: row.status === 'removed' ? 'line-through' : undefined,
+                            color: row.status === 'removed' ? KIND_COLORS.removed.color : undefined,
+                          }}
+                        >
+                          {changed && before !== undefined && (
+                            <span style={{ textDecoration: 'line-through', color: '#9ca3af', marginRight: 4 }}>{preview(before)}</span>
+                          )}
+                          {preview(row.status === 'removed' ? before : after)}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {shownRows.length === 0 && <div style={{ padding: 12, color: '#6b7280' }}>No row changes.</div>}
+          </div>
+        </>
+      )}
+
+      {other && arrayPath && !rowDiffs && (
+        <div style={{ padding: 12, color: '#6b7280' }}>
+          The other document has no array at {formatJsonPath(arrayPath)} to align rows with.
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import type { LucideIcon } from 'lucide-react'
+
+export type ContextMenuAction = {
+  label: string
+  icon?: LucideIcon
+  disabled?: boolean
+  danger?: boolean
+  onSelect?: () => void
+  /** Ask for a value inside the menu before running (Electron has no window.prompt) */
+  prompt?: { placeholder?: string; initial?: string; onSubmit: (value: string) => void }
+}
+
+export type ContextMenuItem = ContextMenuAction | 'separator'
+
+export type ContextMenuState = { x: number; y: number; items: ContextMenuItem[] }
+
+type Props = {
+  menu: ContextMenuState | null
+  onClose: () => void
+}
+
+/**
+ * @name ContextMenu
+ * @description Right-click menu rendered at the pointer, outside any scrolling/clipping
+ * container. Closes on outside click, Escape, scroll or resize.
+ */
+export default function ContextMenu({ menu, onClose }: Props) {
+  const ref = useRef<HTMLDivElement>(null)
+  const [prompting, setPrompting] = useState<ContextMenuAction | null>(null)
+  const [draft, setDraft] = useState('')
+  const [position, setPosition] = useState({ x: 0, y: 0 })
+
+  useEffect(() => setPrompting(null), [menu])
+
+  // Keep the menu inside the window
+  useLayoutEffect(() => {
+    if (!menu) return
+    const rect = ref.current?.getBoundingClientRect()
+    const w = rect?.width ?? 0
+    const h = rect?.height ?? 0
+    setPosition({
+      x: Math.max(0, Math.min(menu.x, window.innerWidth - w - 4)),
+      y: Math.max(0, Math.min(menu.y, window.innerHeight - h - 4)),
+    })
+  }, [menu, prompting])
+
+  useEffect(() => {
+    if (!menu) return
+    const onPointer = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) onClose()
+    }
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    const onScroll = (e: Event) => {
+      if (!ref.current?.contains(e.target as Node)) onClose()
+    }
+    window.addEventListener('mousedown', onPointer)
+    window.addEventListener('keydown', onKey)
+    window.addEventListener('scroll', onScroll, true)
+    window.addEventListener('resize', onClose)
+    return () => {
+      window.removeEventListener('mousedown', onPointer)
+      window.removeEventListener('keydown', onKey)
+      window.removeEventListener('scroll', onScroll, true)
+      window.removeEventListener('resize', onClose)
+    }
+  }, [menu, onClose])
+
+  if (!menu) return null
+
+  const choose = (item: ContextMenuAction) => {
+    if (item.prompt) {
+      setDraft(item.prompt.initial ?? '')
+      setPrompting(item)
+      return
+    }
+    onClose()
+    item.onSelect?.()
+  }
+
+  const submit = () => {
+    const value = draft.trim()
+    if (!prompting?.prompt || !value) return
+    const { onSubmit } = prompting.prompt
+    onClose()
+    onSubmit(value)
+  }
+
+  return createPortal(
+    <div
+      ref={ref}
+      className="context-menu"
+      style={{ left: position.x, top: position.y }}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {prompting?.prompt ? (
+        <div style={{ padding: '4px 8px', display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span style={{ color: '#6b7280' }}>{prompting.label}</span>
+          <input
+            autoFocus
+            className="search-input"
+            style={{ width: 200 }}
+            value={draft}
+            placeholder={prompting.prompt.placeholder}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submit()
+              e.stopPropagation()
+              if (e.key === 'Escape') onClose()
+            }}
+          />
+        </div>
+      ) : (
+        menu.items.map((item, i) => {
+          if (item === 'separator') return <div key={i} className="context-menu-separator" />
+          const Icon = item.icon
+          return (
+            <button
+              key={i}
+              className={`context-menu-item${item.danger ? ' danger' : ''}`}
+              disabled={item.disabled}
+              onClick={() => choose(item)}
+            >
+              {Icon ? <Icon size={14} /> : <span style={{ width: 14 }} />}
+              {item.label}
+              {item.prompt && '…'}
+            </button>
+          )
+        })
+      )}
+    </div>,
+    document.body,
+  )
+}
@@ -0,0 +1,111 @@
+import { useMemo, useState } from 'react'
+import { FileInput, X } from 'lucide-react'
+import { CSV_DELIMITERS, CsvImportOptions, DEFAULT_CSV_OPTIONS, csvToRecords } from '../utils/csv'
+
+type Props = {
+  /** CSV text from an opened file or the editor; empty lets the user paste */
+  source: string
+  /** Name shown for file imports */
+  fileName?: string
+  onConvert: (json: string) => void
+  onClose: () => void
+}
+
+const selectStyle = { fontSize: 12, padding: '2px 4px', border: '1px solid #d1d5db', borderRadius: 4, background: 'white' }
+
+/** Rows shown in the preview */
+const PREVIEW_ROWS = 3
+
+/**
+ * @name CsvImportPanel
+ * @description Converts CSV/TSV to a JSON array of records, with detected options that can be
+ * overridden and a preview of the first records.
+ */
+export default function CsvImportPanel({ source, fileName, onConvert, onClose }: Props) {
+  const [text, setText] = useState(source)
+  const [options, setOptions] = useState<CsvImportOptions>(DEFAULT_CSV_OPTIONS)
+
+  const result = useMemo(() => (text.trim() ? csvToRecords(text, options) : null), [text, options])
+  const update = (patch: Partial<CsvImportOptions>) => setOptions((o) => ({ ...o, ...patch }))
+  const delimiterLabel = CSV_DELIMITERS.find((d) => d.value === result?.delimiter)?.label ?? JSON.stringify(result?.delimiter)
+
+  return (
+    <div style={{ padding: 8, borderBottom: '1px solid #e5e7eb', background: '#f9fafb', fontSize: 12, display: 'flex', flexDirection: 'column', gap: 8, maxHeight: 360, overflowY: 'auto' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <strong>Import CSV / TSV</strong>
+        {fileName && <span style={{ color: '#6b7280' }}>{fileName}</span>}
+        <div style={{ flex: 1 }} />
+        <button className="toolbar-btn" onClick={onClose} title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      {!source && (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Paste CSV or TSV here"
+          rows={5}
+          style={{ fontFamily: 'monospace', fontSize: 12, border: '1px solid #d1d5db', borderRadius: 4, padding: 4, resize: 'vertical' }}
+        />
+      )}
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          Delimiter
+          <select value={options.delimiter} onChange={(e) => update({ delimiter: e.target.value })} style={selectStyle}>
+            <option value="auto">Auto{result && options.delimiter === 'auto' ? ` (${delimiterLabel})` : ''}</option>
+            {CSV_DELIMITERS.map((d) => (
+              <option key={d.value} value={d.value}>{d.label}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          Header row
+          <select
+            value={String(options.header)}
+            onChange={(e) => update({ header: e.target.value === 'auto' ? 'auto' : e.target.value === 'true' })}
+            style={selectStyle}
+          >
+            <option value="auto">Auto{result && options.header === 'auto' ? ` (${result.hasHeader ? 'yes' : 'no'})` : ''}</option>
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </select>
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          <input type="checkbox" checked={options.inferTypes} onChange={(e) => update({ inferTypes: e.target.checked })} />
+          Infer types
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }} title="address.city becomes { address: { city } }">
+          <input type="checkbox" checked={options.nest} onChange={(e) => update({ nest: e.target.checked })} />
+          Nest dot-path headers
+        </label>
+        <button
+          className="toolbar-btn"
+          disabled={!result || result.records.length === 0}
+          onClick={() => result && onConvert(JSON.stringify(result.records, null, 2))}
+        >
+          <FileInput size={14} /> Convert to JSON
+        </button>
+      </div>
+
+      {result && (
+        <>
+          <div style={{ color: '#6b7280' }}>
+            {result.records.length.toLocaleString()} records,{' '}
+            {result.columns.map((c, i) => (
+              <span key={c.name}>
+                {i > 0 && ', '}
+                <code>{c.name}</code> <span style={{ opacity: 0.7 }}>{c.type}</span>
+              </span>
+            ))}
+          </div>
+          <pre style={{ margin: 0, padding: 6, background: 'white', border: '1px solid #e5e7eb', borderRadius: 4, maxHeight: 140, overflow: 'auto', fontSize: 11 }}>
+            {JSON.stringify(result.records.slice(0, PREVIEW_ROWS), null, 2)}
+            {result.records.length > PREVIEW_ROWS ? '\n…' : ''}
+          </pre>
+        </>
+      )}
+    </div>
+  )
+}
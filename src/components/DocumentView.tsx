@@ -0,0 +1,862 @@
+import { forwardRef, useEffect, useImperativeHandle, useState, useCallback, useMemo, useRef } from 'react'
+import { Allotment } from 'allotment'
+import 'allotment/dist/style.css'
+import {
+  FileJson,
+  Play,
+  Minimize2,
+  CheckCircle,
+  Trash2,
+  Maximize2,
+  Minimize,
+  Filter,
+  Loader2,
+  Undo2,
+  Redo2,
+  History,
+  Sheet,
+  AlertCircle,
+  Braces,
+  Table2,
+  GitCompare
+} from 'lucide-react'
+import { useGridContext } from '../context/GridContext'
+import { Command, useCommandRegistry, useCommands } from '@/hooks/useCommands'
+
+import EditorMonaco, { OffsetRange } from './EditorMonaco'
+import GridView, { GridViewHandle } from './GridView'
+import { formatJsonPath, fromValuePath, resolvePath, toValuePath } from '../utils/jsonPath'
+import { EMPTY_FILTER, FilterModel, evaluateFilter, isFilterActive } from '../utils/filterModel'
+import FilterBuilder from './FilterBuilder'
+import SearchBar from './SearchBar'
+import { EMPTY_SEARCH, SearchOptions, buildSearchState, searchRows } from '../utils/deepSearch'
+import { useDebounce } from '@/hooks/useDebounce'
+import { useGridDerivation } from '@/hooks/useGridDerivation'
+import { useLargeFile } from '@/hooks/useLargeFile'
+import { useHistory } from '@/hooks/useHistory'
+import LargeFileBar from './LargeFileBar'
+import FileChangedBar from './FileChangedBar'
+import HistoryPanel from './HistoryPanel'
+import CsvImportPanel from './CsvImportPanel'
+import { looksLikeCsv } from '../utils/csv'
+import { SAMPLE_JSON } from '../utils/sampleData'
+import { FlattenOptions, NO_FLATTEN } from '../utils/deriveGridData'
+import type { DocumentSource, DocumentStatus } from '@/hooks/useTabs'
+import type { AppSettings } from '../../electron/typings/ipc'
+import { useSchema } from '@/hooks/useSchema'
+import ValidationPanel from './ValidationPanel'
+import SchemaInferencePanel from './SchemaInferencePanel'
+import PivotView from './PivotView'
+import CompareView, { CompareTarget } from './CompareView'
+import { EMPTY_PIVOT, PivotConfig } from '../utils/pivot'
+import { EMPTY_VALIDATION, SchemaError, buildValidationState, schemaRefOf, validateValue } from '../utils/schemaValidation'
+import { JsonNode, findNodeAtPath, findPathAtOffset, parseJsonAst } from '../utils/jsonAst'
+import { EMPTY_SELECTION, buildSelectionState } from '../utils/gridSelection'
+import { setValueEdits } from '../utils/textEdits'
+import { applyStructuralOp, describeOp, structuralEdits } from '../utils/structuralEdits'
+import {
+  DOC_FORMATS,
+  DocFormat,
+  convertDocument,
+  formatFromPath,
+  parseDocument,
+  setDocumentValue,
+  sniffFormat,
+  transformDocument,
+} from '../utils/formats'
+
+export type DocumentViewHandle = {
+  /** Saves the document (through a dialog when `saveAs`); resolves to whether it was saved */
+  save: (saveAs?: boolean) => Promise<boolean>
+}
+
+type Props = {
+  /** The tab's id, passed back with status changes */
+  id: string
+  source: DocumentSource
+  /** Inactive tabs stay mounted but hidden, and leave the keyboard to the active one */
+  active: boolean
+  settings: AppSettings
+  onSettingsChange: (patch: Partial<AppSettings>) => Promise<void>
+  onStatusChange: (id: string, status: DocumentStatus) => void
+  /** Editor and grid pane sizes a new tab starts with, and where a resize reports them */
+  split?: number[]
+  onSplitChange: (sizes: number[]) => void
+}
+
+/** CSV and TSV files open in the import panel and become JSON once converted */
+const isCsvSource = (source: DocumentSource) => !source.large && !!source.filePath && /\.(csv|tsv)$/i.test(source.filePath)
+
+/**
+ * @name DocumentView
+ * @description One open document: the editor and the grid with all of their state (selected
+ * array, sort, filters, column widths, expansion, history). Each tab has its own, inside its
+ * own GridProvider, so grid edits always reach the document they came from.
+ */
+const DocumentView = forwardRef<DocumentViewHandle, Props>(({ id, source, active, settings, onSettingsChange, onStatusChange, split, onSplitChange }, ref) => {
+  const csvSource = isCsvSource(source)
+  const initialText = source.large || csvSource ? '' : source.text
+  const [text, setText] = useState(initialText)
+  const [filePath, setFilePath] = useState(csvSource ? undefined : source.filePath)
+  /** Text as last opened or saved; null when the editor content was never saved as it is */
+  const [savedText, setSavedText] = useState<string | null>(initialText)
+  /** Whether filePath is the file the text came from, rather than a suggested name */
+  const [onDisk, setOnDisk] = useState(!!source.filePath && !csvSource)
+  /** Path of the open file after another program changed it */
+  const [externalChange, setExternalChange] = useState<string | null>(null)
+  /** Syntax of `text`; grid edits and saving keep the document in this format */
+  const [docFormat, setDocFormat] = useState<DocFormat>(() => (source.large ? 'json' : formatFromPath(source.filePath) ?? sniffFormat(initialText)))
+  const [fileError, setFileError] = useState<string | null>(null)
+  /** JSONPath the user pinned the grid to; null lets deriveGridData pick the best array */
+  const [pinnedPath, setPinnedPath] = useState<string | null>(null)
+  /** Dot-path column mode for nested fields */
+  const [flatten, setFlatten] = useState<FlattenOptions>(NO_FLATTEN)
+  const [filterModel, setFilterModel] = useState<FilterModel>(EMPTY_FILTER)
+  const [showFilterBuilder, setShowFilterBuilder] = useState(false)
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(EMPTY_SEARCH)
+  const [activeHit, setActiveHit] = useState(0)
+  /** Source range of the cell selected in the grid, highlighted in the editor */
+  const [editorHighlight, setEditorHighlight] = useState<OffsetRange | null>(null)
+  /** Editor cursor offset to map onto the grid; null when the grid owns the selection */
+  const [cursorOffset, setCursorOffset] = useState<number | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showValidation, setShowValidation] = useState(false)
+  const [showInference, setShowInference] = useState(false)
+  /** The grid panel shows the rows, a pivot of them, or a comparison with another document */
+  const [gridMode, setGridMode] = useState<'grid' | 'pivot' | 'compare'>('grid')
+  const [pivotConfig, setPivotConfig] = useState<PivotConfig>(EMPTY_PIVOT)
+  const [compareWith, setCompareWith] = useState<CompareTarget | null>(null)
+  /** CSV waiting to be converted: from an opened file, or the editor text/paste when no filePath */
+  const [csvImport, setCsvImport] = useState<{ source: string; filePath?: string } | null>(csvSource ? { source: source.text, filePath: source.filePath } : null)
+  const api = window.api
+  const {
+    triggerExpandAll,
+    triggerCollapseAll,
+    registerEditHandler,
+    setSearch,
+    setReadOnly,
+    setSelection,
+    registerSelectHandler,
+    registerStructureHandler,
+    setValidation,
+  } = useGridContext()
+  const gridRef = useRef<GridViewHandle>(null)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+  const { withKey } = useCommandRegistry()
+
+  const debouncedText = useDebounce(text, 300)
+  /** Every change to `text` after a file is opened goes through the shared history */
+  const history = useHistory(text, setText)
+  const { apply: applyEdits, replaceText, undo, redo, reset: resetHistory } = history
+  const { session: largeSession, open: openLargeFile, close: closeLargeFile, setPage: setLargePage } = useLargeFile()
+
+  useEffect(() => setReadOnly(!!largeSession), [largeSession, setReadOnly])
+
+  // Large files are paged from disk; the ref keeps strict mode's second mount from indexing twice
+  const largeOpenedRef = useRef(false)
+  useEffect(() => {
+    if (!source.large || !source.filePath || largeOpenedRef.current) return
+    largeOpenedRef.current = true
+    openLargeFile(source.filePath).catch((e) => setFileError(e instanceof Error ? e.message : String(e)))
+  }, [source, openLargeFile])
+
+  /** Text the grid was derived from; selection offsets are mapped against it */
+  const syncText = largeSession ? largeSession.pageText : debouncedText
+  const debouncedCursor = useDebounce(cursorOffset, 150)
+
+  /**
+   * The positioned syntax tree is only needed when the selection changes, so it is parsed
+   * lazily and cached for the current text.
+   */
+  const astCacheRef = useRef<{ text: string; ast: JsonNode | null } | null>(null)
+  const getAst = useCallback((source: string): JsonNode | null => {
+    if (astCacheRef.current?.text !== source) {
+      let ast: JsonNode | null = null
+      try {
+        ast = parseJsonAst(source)
+      } catch {
+        // Syntax errors are reported by the editor; selection sync just pauses
+      }
+      astCacheRef.current = { text: source, ast }
+    }
+    return astCacheRef.current.ast
+  }, [])
+
+  /**
+   * Derive grid data in a worker; the previous grid stays on screen while parsing.
+   * In large-file mode only the current page of records is derived.
+   */
+  const { data: gridData, error: gridError, isParsing } = useGridDerivation(
+    largeSession ? largeSession.pageText : debouncedText,
+    { path: largeSession ? null : pinnedPath, format: largeSession ? 'json' : docFormat, flatten },
+  )
+
+  // Text that stops parsing in its format may have switched format (undoing a conversion,
+  // pasting YAML into a JSON document): follow it when the sniffed format parses
+  useEffect(() => {
+    if (!gridError || largeSession) return
+    const sniffed = sniffFormat(debouncedText)
+    if (sniffed === docFormat) return
+    try {
+      parseDocument(debouncedText, sniffed)
+      setDocFormat(sniffed)
+    } catch {
+      // Just a syntax error in the current format
+    }
+  }, [gridError, debouncedText, docFormat, largeSession])
+
+  /** Source offsets are only known for the JSON family */
+  const hasPositions = docFormat === 'json' || !!largeSession
+
+  /** The whole parsed document, for schema validation; large files are only ever seen a page at a time */
+  const parsedDocument = useMemo(() => {
+    if (largeSession || !debouncedText.trim()) return null
+    try {
+      return { value: parseDocument(debouncedText, docFormat) }
+    } catch {
+      return null
+    }
+  }, [debouncedText, docFormat, largeSession])
+
+  const schema = useSchema({
+    documentRef: parsedDocument ? schemaRefOf(parsedDocument.value) : null,
+    filePath,
+    mappings: settings.schemaMappings,
+  })
+
+  const validation = useMemo<{ errors: SchemaError[] | null; error: string | null }>(() => {
+    if (!schema.active || !parsedDocument) return { errors: null, error: null }
+    try {
+      return { errors: validateValue(parsedDocument.value, schema.active.schema), error: null }
+    } catch (e) {
+      return { errors: null, error: `Invalid schema: ${e instanceof Error ? e.message : String(e)}` }
+    }
+  }, [schema.active, parsedDocument])
+
+  /** The grid's array inside the parsed document, named after its key for generated types */
+  const selectedArray = useMemo(() => {
+    if (!parsedDocument || !gridData) return null
+    const name = [...gridData.pathArray].reverse().find((seg) => seg !== '$' && !seg.startsWith('['))
+    return { value: resolvePath(parsedDocument.value, gridData.pathArray), path: gridData.path, name: name ?? 'Root' }
+  }, [parsedDocument, gridData])
+
+  useEffect(() => {
+    if (!validation.errors || !gridData) setValidation(EMPTY_VALIDATION)
+    else setValidation(buildValidationState(validation.errors, toValuePath(gridData.pathArray)))
+  }, [validation.errors, gridData, setValidation])
+
+  const debouncedSearch = useDebounce(searchOptions, 200)
+
+  /**
+   * Deep search walks every nested value of every row, so it only reruns when the
+   * debounced query or the grid data changes.
+   */
+  const searchResult = useMemo(() => {
+    if (!gridData) return { hits: [], truncated: false, error: null }
+    return searchRows(gridData.rows, gridData.columns, debouncedSearch)
+  }, [gridData, debouncedSearch])
+
+  const searchHitRows = useMemo(() => {
+    if (!debouncedSearch.query || searchResult.error) return null
+    return new Set(searchResult.hits.map((h) => h.rowIndex))
+  }, [debouncedSearch.query, searchResult])
+
+  useEffect(() => setActiveHit(0), [searchResult])
+
+  /** Rows the pivot works on: the grid's rows after search and advanced filter */
+  const pivotRows = useMemo(() => {
+    if (gridMode !== 'pivot' || !gridData) return []
+    const filtered = isFilterActive(filterModel)
+    return gridData.rows.filter((row, i) => (!searchHitRows || searchHitRows.has(i)) && (!filtered || evaluateFilter(filterModel, row)))
+  }, [gridMode, gridData, searchHitRows, filterModel])
+
+  useEffect(() => {
+    setSearch(buildSearchState(searchResult, debouncedSearch, activeHit))
+  }, [searchResult, debouncedSearch, activeHit, setSearch])
+
+  // Grid → editor: highlight the source range of the clicked cell
+  useEffect(() => {
+    registerSelectHandler((relativePath) => {
+      setCursorOffset(null)
+      setSelection(buildSelectionState(relativePath, false))
+      if (!gridData || !hasPositions) return
+      const ast = getAst(syncText)
+      const node = ast && findNodeAtPath(ast, [...toValuePath(gridData.pathArray), ...relativePath])
+      setEditorHighlight(node ? { start: node.start, end: node.end } : null)
+    })
+  }, [registerSelectHandler, setSelection, gridData, getAst, syncText, hasPositions])
+
+  // Editor → grid: select the cell under the cursor and scroll its row into view
+  useEffect(() => {
+    if (debouncedCursor === null || !gridData || !hasPositions) return
+    const ast = getAst(syncText)
+    if (!ast) return
+    const { path } = findPathAtOffset(ast, debouncedCursor)
+    const base = toValuePath(gridData.pathArray)
+    const inArray = path.length > base.length && base.every((seg, i) => path[i] === seg)
+    setEditorHighlight(null)
+    if (!inArray) {
+      setSelection(EMPTY_SELECTION)
+      return
+    }
+    const relativePath = path.slice(base.length)
+    setSelection(buildSelectionState(relativePath, true))
+    gridRef.current?.scrollToRow(relativePath[0] as number)
+  }, [debouncedCursor, gridData, getAst, syncText, setSelection, hasPositions])
+
+  /** Highlights a document path in the editor and, when it lies in the grid's array, in the grid */
+  const selectDocumentPath = (path: (string | number)[]) => {
+    const ast = hasPositions ? getAst(debouncedText) : null
+    const node = ast && findNodeAtPath(ast, path)
+    setEditorHighlight(node ? { start: node.start, end: node.end } : null)
+    if (!gridData) return
+    const base = toValuePath(gridData.pathArray)
+    if (path.length <= base.length || !base.every((seg, i) => path[i] === seg)) return
+    const relativePath = path.slice(base.length)
+    setCursorOffset(null)
+    setSelection(buildSelectionState(relativePath, true))
+    gridRef.current?.scrollToRow(relativePath[0] as number)
+  }
+
+  const selectSchemaError = (error: SchemaError) => selectDocumentPath(error.path)
+
+  const navigateToHit = useCallback((index: number) => {
+    setActiveHit(index)
+    const hit = searchResult.hits[index]
+    if (hit) gridRef.current?.scrollToRow(hit.rowIndex)
+  }, [searchResult])
+
+  useEffect(() => {
+    registerEditHandler((relativePath, value) => {
+      if (!gridData || largeSession) return
+      try {
+        // gridData.pathArray starts with '$' and uses '[n]' for indexes
+        const basePath = toValuePath(gridData.pathArray)
+        const fullPath = [...basePath, ...relativePath]
+        const label = `Set ${formatJsonPath(fromValuePath(fullPath))}`
+
+        if (docFormat !== 'json') {
+          const before = parseDocument(text, docFormat)
+          replaceText(setDocumentValue(text, docFormat, fullPath, value), {
+            label,
+            source: 'grid',
+            path: fullPath,
+            oldValue: resolvePath(before, fromValuePath(fullPath)),
+            newValue: value,
+          })
+          return
+        }
+
+        const root = getAst(text)
+        if (!root) throw new Error('The document has syntax errors')
+
+        // The cell editor hands over a typed value; keep the old one for the history panel
+        const original = findNodeAtPath(root, fullPath)
+
+        // Replace only the edited value's source range so the rest of the document keeps its format
+        applyEdits(setValueEdits(text, root, fullPath, value), {
+          label,
+          source: 'grid',
+          path: fullPath,
+          oldValue: original && original.type !== 'object' && original.type !== 'array' ? original.value : undefined,
+          newValue: value,
+        })
+      } catch (e) {
+        console.error("Failed to update JSON", e)
+      }
+    })
+  }, [gridData, registerEditHandler, text, largeSession, getAst, applyEdits, replaceText, docFormat])
+
+  useEffect(() => {
+    registerStructureHandler((op) => {
+      if (!gridData || largeSession) return
+      try {
+        const fullOp = { ...op, path: [...toValuePath(gridData.pathArray), ...op.path] }
+        if (docFormat !== 'json') {
+          const next = transformDocument(text, docFormat, (root) => applyStructuralOp(root, fullOp))
+          replaceText(next, { label: describeOp(op), source: 'grid', path: fullOp.path })
+          return
+        }
+        const root = getAst(text)
+        if (!root) throw new Error('The document has syntax errors')
+        const edits = structuralEdits(text, root, fullOp)
+        if (edits.length > 0) applyEdits(edits, { label: describeOp(op), source: 'grid', path: fullOp.path })
+      } catch (e) {
+        console.error("Failed to update JSON", e)
+        setFileError(e instanceof Error ? e.message : String(e))
+      }
+    })
+  }, [gridData, registerStructureHandler, text, largeSession, getAst, applyEdits, replaceText, docFormat])
+
+  const dirty = !largeSession && text !== savedText
+
+  /**
+   * Saves to the open file, or through a save dialog for Save As, new documents and converted
+   * ones (so a conversion never overwrites the original). Resolves to whether it was saved.
+   */
+  const saveFile = useCallback(async (saveAs = false): Promise<boolean> => {
+    if (largeSession) return false
+    try {
+      setFileError(null)
+      const { label, extensions } = DOC_FORMATS[docFormat]
+      const pathFormat = formatFromPath(filePath)
+      const converted = !!pathFormat && pathFormat !== docFormat
+      // After a conversion, offer the new format's extension instead of the old one
+      const target = filePath && converted ? filePath.replace(/\.[^./\\]+$/, `.${extensions[0]}`) : filePath
+      const data = { filePath: target, text, formatName: label, extensions }
+      const res = saveAs || converted || !onDisk ? await api?.saveFileAs(data) : await api?.saveFile(data)
+      if (!res?.filePath) return false
+      setFilePath(res.filePath)
+      setSavedText(text)
+      setOnDisk(true)
+      setExternalChange(null)
+      return true
+    } catch (e) {
+      setFileError(e instanceof Error ? e.message : String(e))
+      return false
+    }
+  }, [api, filePath, onDisk, text, largeSession, docFormat])
+
+  const reloadFile = async () => {
+    if (!externalChange || !api) return
+    try {
+      setFileError(null)
+      const next = await api.readFile(externalChange)
+      setText(next)
+      setSavedText(next)
+      resetHistory()
+    } catch (e) {
+      setFileError(e instanceof Error ? e.message : String(e))
+    }
+    setExternalChange(null)
+  }
+
+  useImperativeHandle(ref, () => ({ save: saveFile }), [saveFile])
+
+  useEffect(() => {
+    onStatusChange(id, { filePath, dirty, onDisk, large: !!largeSession })
+  }, [onStatusChange, id, filePath, dirty, onDisk, largeSession])
+
+  // App watches the files of all tabs; each tab picks out its own
+  useEffect(() => {
+    if (!api?.onFileChanged || !onDisk || !filePath) return
+    return api.onFileChanged((changed) => {
+      if (changed === filePath) setExternalChange(changed)
+    })
+  }, [api, onDisk, filePath])
+
+  const handleFormat = () => {
+    try {
+      if (docFormat !== 'json') {
+        replaceText(transformDocument(text, docFormat, (v) => v), { label: 'Format', source: 'command' })
+        return
+      }
+      const parsed = JSON.parse(text)
+      replaceText(JSON.stringify(parsed, null, 2), { label: 'Format', source: 'command' })
+    } catch (e) {
+      // ignore error
+    }
+  }
+
+  const handleMinify = () => {
+    try {
+      const parsed = JSON.parse(text)
+      replaceText(JSON.stringify(parsed), { label: 'Minify', source: 'command' })
+    } catch (e) {
+      // ignore error
+    }
+  }
+
+  const handleClear = () => {
+    replaceText('', { label: 'Clear', source: 'command' })
+  }
+
+  const loadSample = () => {
+    if (largeSession) {
+      closeLargeFile()
+      setFilePath(undefined)
+      setOnDisk(false)
+      setText(SAMPLE_JSON)
+      setSavedText(SAMPLE_JSON)
+      resetHistory()
+    } else {
+      setDocFormat('json')
+      replaceText(SAMPLE_JSON, { label: 'Load sample', source: 'command' })
+    }
+  }
+
+  const convertTo = (target: DocFormat) => {
+    try {
+      setFileError(null)
+      const next = convertDocument(text, docFormat, target)
+      setDocFormat(target)
+      replaceText(next, { label: `Convert to ${DOC_FORMATS[target].label}`, source: 'command' })
+    } catch (e) {
+      setFileError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  const handleCsvConvert = (json: string) => {
+    const source = csvImport
+    setCsvImport(null)
+    setDocFormat('json')
+    if (source?.filePath) {
+      closeLargeFile()
+      setText(json)
+      setSavedText(null)
+      resetHistory()
+      setOnDisk(false)
+      // Saving offers a .json next to the CSV instead of overwriting it
+      setFilePath(source.filePath.replace(/\.(csv|tsv)$/i, '.json'))
+      setPinnedPath(null)
+    } else {
+      replaceText(json, { label: 'Import CSV', source: 'command' })
+    }
+  }
+
+  const handleEditorChange = useCallback((value: string) => {
+    replaceText(value, { label: 'Edit in editor', source: 'editor' })
+  }, [replaceText])
+
+  const hitCount = searchResult.hits.length
+  const editable = !largeSession
+
+  // Toolbar actions for the palette and keybindings; only the active tab's are registered.
+  // Undo and redo leave text fields their own; the editor routes them to the history itself.
+  useCommands([
+    { id: 'editor.format', title: 'Format', category: 'Editor', run: handleFormat, enabled: editable },
+    { id: 'editor.minify', title: 'Minify', category: 'Editor', run: handleMinify, enabled: editable && docFormat === 'json' },
+    { id: 'editor.clear', title: 'Clear', category: 'Editor', run: handleClear, enabled: editable },
+    { id: 'editor.sample', title: 'Load Sample', category: 'Editor', run: loadSample },
+    { id: 'editor.importCsv', title: 'Convert CSV to JSON…', category: 'Editor', run: () => setCsvImport((v) => v ?? { source: looksLikeCsv(text) ? text : '' }), enabled: editable },
+    ...(Object.entries(DOC_FORMATS) as [DocFormat, (typeof DOC_FORMATS)[DocFormat]][]).map(([format, { label }]): Command => ({
+      id: `editor.convertTo.${format}`,
+      title: `Convert to ${label}`,
+      category: 'Editor',
+      run: () => convertTo(format),
+      enabled: editable && docFormat !== format,
+    })),
+    { id: 'history.undo', title: 'Undo', category: 'History', run: undo, enabled: editable && history.canUndo, textFieldsFirst: true },
+    { id: 'history.redo', title: 'Redo', category: 'History', run: redo, enabled: editable && history.canRedo, textFieldsFirst: true },
+    { id: 'history.toggle', title: 'Toggle Edit History', category: 'History', run: () => setShowHistory((v) => !v), enabled: editable },
+    { id: 'schema.validate', title: 'Toggle Validation', category: 'Schema', run: () => setShowValidation((v) => !v), enabled: editable },
+    { id: 'schema.infer', title: 'Toggle Schema Inference', category: 'Schema', run: () => setShowInference((v) => !v), enabled: editable },
+    {
+      id: 'grid.search',
+      title: 'Search',
+      category: 'Grid',
+      run: () => {
+        searchInputRef.current?.focus()
+        searchInputRef.current?.select()
+      },
+    },
+    { id: 'grid.nextMatch', title: 'Next Match', category: 'Grid', run: () => navigateToHit((activeHit + 1) % hitCount), enabled: hitCount > 0 },
+    { id: 'grid.previousMatch', title: 'Previous Match', category: 'Grid', run: () => navigateToHit((activeHit + hitCount - 1) % hitCount), enabled: hitCount > 0 },
+    { id: 'grid.filter', title: 'Toggle Advanced Filter', category: 'Grid', run: () => setShowFilterBuilder((v) => !v), enabled: !!gridData },
+    { id: 'grid.pivot', title: 'Toggle Pivot', category: 'Grid', run: () => setGridMode((m) => (m === 'pivot' ? 'grid' : 'pivot')), enabled: !!gridData },
+    { id: 'grid.compare', title: 'Toggle Compare', category: 'Grid', run: () => setGridMode((m) => (m === 'compare' ? 'grid' : 'compare')), enabled: !!parsedDocument },
+    { id: 'grid.expandAll', title: 'Expand All', category: 'Grid', run: triggerExpandAll },
+    { id: 'grid.collapseAll', title: 'Collapse All', category: 'Grid', run: triggerCollapseAll },
+    { id: 'grid.export', title: 'Export…', category: 'Grid', run: () => gridRef.current?.openExport(), enabled: gridMode === 'grid' && !!gridData && !gridError },
+    { id: 'grid.automaticArray', title: 'Back to Automatic Array Selection', category: 'Grid', run: () => setPinnedPath(null), enabled: !!pinnedPath },
+  ], active)
+
+  return (
+    <div className="main-content" style={active ? undefined : { display: 'none' }}>
+      <Allotment defaultSizes={split} onDragEnd={onSplitChange}>
+        <Allotment.Pane minSize={300}>
+          <div className="panel-container">
+            <div className="panel-header">
+              {largeSession ? (
+                <span>JSON</span>
+              ) : (
+                <select
+                  value={docFormat}
+                  onChange={(e) => convertTo(e.target.value as DocFormat)}
+                  title="Document format; choosing another one converts the document"
+                  style={{ background: 'transparent', color: 'inherit', border: 'none', fontWeight: 600, fontSize: 14, cursor: 'pointer' }}
+                >
+                  {Object.entries(DOC_FORMATS).map(([format, { label }]) => (
+                    <option key={format} value={format} style={{ color: '#1f2937' }}>{label}</option>
+                  ))}
+                </select>
+              )}
+              {fileError && <span style={{ color: '#fca5a5', fontSize: 12 }}>{fileError}</span>}
+            </div>
+            <div className="toolbar">
+              <button className="toolbar-btn" onClick={loadSample} title={withKey('Load sample', 'editor.sample')}>
+                <FileJson size={14} /> Sample
+              </button>
+              <button className="toolbar-btn" onClick={handleFormat} disabled={!!largeSession} title={withKey('Format', 'editor.format')}>
+                <Play size={14} /> Format
+              </button>
+              <button className="toolbar-btn" onClick={handleMinify} disabled={!!largeSession || docFormat !== 'json'} title={withKey('Minify', 'editor.minify')}>
+                <Minimize2 size={14} /> Minify
+              </button>
+              <button
+                className={`toolbar-btn${showValidation ? ' active' : ''}`}
+                onClick={() => setShowValidation((v) => !v)}
+                disabled={!!largeSession}
+                title={
+                  schema.active
+                    ? `Validating against ${schema.active.location}`
+                    : schema.pendingRemote ? `The remote $schema ${schema.pendingRemote} is not loaded yet` : 'Attach a JSON Schema'
+                }
+              >
+                {validation.errors?.length ? (
+                  <>
+                    <AlertCircle size={14} color="#dc2626" /> Validate ({validation.errors.length})
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle size={14} /> Validate
+                  </>
+                )}
+              </button>
+              <button
+                className={`toolbar-btn${showInference ? ' active' : ''}`}
+                onClick={() => setShowInference((v) => !v)}
+                disabled={!!largeSession}
+                title="Generate JSON Schema, TypeScript or Zod from the data"
+              >
+                <Braces size={14} /> Infer
+              </button>
+              <button
+                className={`toolbar-btn${csvImport ? ' active' : ''}`}
+                onClick={() => setCsvImport((v) => (v ? null : { source: looksLikeCsv(text) ? text : '' }))}
+                disabled={!!largeSession}
+                title="Convert CSV/TSV to JSON"
+              >
+                <Sheet size={14} /> CSV
+              </button>
+              <div style={{ flex: 1 }} />
+              <button className="toolbar-btn" onClick={undo} disabled={!!largeSession || !history.canUndo} title={withKey('Undo', 'history.undo')}>
+                <Undo2 size={14} />
+              </button>
+              <button className="toolbar-btn" onClick={redo} disabled={!!largeSession || !history.canRedo} title={withKey('Redo', 'history.redo')}>
+                <Redo2 size={14} />
+              </button>
+              <button
+                className={`toolbar-btn${showHistory ? ' active' : ''}`}
+                onClick={() => setShowHistory((v) => !v)}
+                disabled={!!largeSession}
+                title={withKey('Edit history', 'history.toggle')}
+              >
+                <History size={14} />
+              </button>
+              <button className="toolbar-btn danger" onClick={handleClear} disabled={!!largeSession} title={withKey('Clear', 'editor.clear')}>
+                <Trash2 size={14} /> Clear
+              </button>
+            </div>
+            {externalChange && externalChange === filePath && (
+              <FileChangedBar
+                filePath={externalChange}
+                dirty={dirty}
+                onReload={reloadFile}
+                onKeep={() => {
+                  // The file no longer matches the editor, so saving is needed to bring it back in line
+                  setSavedText(null)
+                  setExternalChange(null)
+                }}
+              />
+            )}
+            {csvImport && (
+              <CsvImportPanel
+                key={csvImport.filePath ?? 'editor'}
+                source={csvImport.source}
+                fileName={csvImport.filePath}
+                onConvert={handleCsvConvert}
+                onClose={() => setCsvImport(null)}
+              />
+            )}
+            {showHistory && !largeSession && (
+              <HistoryPanel
+                entries={history.entries}
+                index={history.index}
+                onJump={history.jumpTo}
+                onClose={() => setShowHistory(false)}
+              />
+            )}
+            {showValidation && !largeSession && (
+              <ValidationPanel
+                active={schema.active}
+                error={schema.error ?? validation.error}
+                errors={validation.errors}
+                pendingRemote={schema.pendingRemote}
+                onAllowRemote={schema.allowRemote}
+                mappings={settings.schemaMappings}
+                onMappingsChange={(schemaMappings) => {
+                  onSettingsChange({ schemaMappings }).catch((e) => setFileError(e instanceof Error ? e.message : String(e)))
+                }}
+                onChooseFile={schema.chooseFile}
+                onClearFile={schema.clearChosen}
+                onReload={schema.reload}
+                onSelectError={selectSchemaError}
+                onClose={() => setShowValidation(false)}
+              />
+            )}
+            {showInference && !largeSession && (
+              <SchemaInferencePanel
+                document={parsedDocument}
+                selected={selectedArray}
+                onClose={() => setShowInference(false)}
+              />
+            )}
+            <div style={{ flex: 1, overflow: 'hidden' }}>
+              {largeSession ? (
+                <EditorMonaco
+                  value={largeSession.pageText}
+                  onChange={() => { }}
+                  readOnly
+                  highlight={editorHighlight}
+                  onCursorOffsetChange={setCursorOffset}
+                />
+              ) : (
+                <EditorMonaco
+                  value={text}
+                  language={DOC_FORMATS[docFormat].language}
+                  schema={docFormat === 'json' ? schema.active?.schema ?? null : null}
+                  onChange={handleEditorChange}
+                  highlight={editorHighlight}
+                  onCursorOffsetChange={setCursorOffset}
+                  onUndo={undo}
+                  onRedo={redo}
+                />
+              )}
+            </div>
+          </div>
+        </Allotment.Pane>
+
+        <Allotment.Pane minSize={300}>
+          <div className="panel-container">
+            <div className="panel-header">
+              <span>GRID</span>
+              {(isParsing || text !== debouncedText) && (
+                <span style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12, fontWeight: 400, opacity: 0.8 }}>
+                  <Loader2 size={12} className="spin" /> parsing…
+                </span>
+              )}
+            </div>
+            <div className="toolbar">
+              <div className="toolbar-group">
+                <button
+                  className={`toolbar-btn${showFilterBuilder || isFilterActive(filterModel) ? ' active' : ''}`}
+                  onClick={() => setShowFilterBuilder((v) => !v)}
+                  disabled={!gridData}
+                >
+                  <Filter size={14} />
+                  Advanced Filter
+                </button>
+                <SearchBar
+                  options={searchOptions}
+                  onChange={setSearchOptions}
+                  hits={searchResult.hits}
+                  truncated={searchResult.truncated}
+                  error={searchResult.error}
+                  activeIndex={activeHit}
+                  onNavigate={navigateToHit}
+                  inputRef={searchInputRef}
+                />
+              </div>
+              <div className="toolbar-group">
+                <button
+                  className={`toolbar-btn${gridMode === 'pivot' ? ' active' : ''}`}
+                  onClick={() => setGridMode((m) => (m === 'pivot' ? 'grid' : 'pivot'))}
+                  disabled={!gridData}
+                  title="Cross-tab the rows by fields of your choice"
+                >
+                  <Table2 size={14} />
+                  Pivot
+                </button>
+                <button
+                  className={`toolbar-btn${gridMode === 'compare' ? ' active' : ''}`}
+                  onClick={() => setGridMode((m) => (m === 'compare' ? 'grid' : 'compare'))}
+                  disabled={!parsedDocument}
+                  title="Compare with another document"
+                >
+                  <GitCompare size={14} />
+                  Compare
+                </button>
+                <button className="toolbar-btn" onClick={triggerExpandAll} title={withKey('Expand all', 'grid.expandAll')}>
+                  <Maximize2 size={14} />
+                  Expand All
+                </button>
+                <button className="toolbar-btn" onClick={triggerCollapseAll} title={withKey('Collapse all', 'grid.collapseAll')}>
+                  <Minimize size={14} />
+                  Collapse All
+                </button>
+              </div>
+            </div>
+            {largeSession && (
+              <LargeFileBar
+                session={largeSession}
+                onPage={setLargePage}
+                onClose={() => {
+                  closeLargeFile()
+                  setFilePath(undefined)
+                  setOnDisk(false)
+                }}
+              />
+            )}
+            {showFilterBuilder && gridData && (
+              <FilterBuilder
+                columns={gridData.columns}
+                model={filterModel}
+                onChange={setFilterModel}
+                onClose={() => setShowFilterBuilder(false)}
+              />
+            )}
+            <div style={{ flex: 1, overflow: 'hidden', position: 'relative' }}>
+              {gridError ? (
+                <div style={{ padding: 20, color: '#dc2626' }}>
+                  <strong>Error Parsing Input</strong>
+                  <p>{gridError}</p>
+                  {!largeSession && looksLikeCsv(debouncedText) && (
+                    <button className="toolbar-btn" onClick={() => setCsvImport({ source: debouncedText })} style={{ marginBottom: 8 }}>
+                      <Sheet size={14} /> This looks like CSV. Convert to JSON…
+                    </button>
+                  )}
+                  {pinnedPath && (
+                    <button className="toolbar-btn" onClick={() => setPinnedPath(null)}>
+                      Back to automatic array selection
+                    </button>
+                  )}
+                </div>
+              ) : gridMode === 'compare' && parsedDocument ? (
+                <CompareView
+                  key={gridData?.path}
+                  document={parsedDocument.value}
+                  other={compareWith}
+                  onOtherChange={setCompareWith}
+                  arrayPath={gridData?.pathArray ?? null}
+                  onSelectPath={selectDocumentPath}
+                />
+              ) : gridMode === 'pivot' && gridData ? (
+                <PivotView
+                  rows={pivotRows}
+                  fields={gridData.columns.map((c) => c.key)}
+                  config={pivotConfig}
+                  onChange={setPivotConfig}
+                />
+              ) : (
+                <GridView
+                  ref={gridRef}
+                  data={gridData}
+                  key={`${gridData?.path}-${gridData?.columns.length}`}
+                  onSelectPath={setPinnedPath}
+                  filter={filterModel}
+                  onFilterChange={setFilterModel}
+                  searchRows={searchHitRows}
+                  flatten={flatten}
+                  onFlattenChange={setFlatten}
+                />
+              )}
+            </div>
+          </div>
+        </Allotment.Pane>
+      </Allotment>
+    </div>
+  )
+})
+
+export default DocumentView
@@ -1,22 +1,138 @@
-import React from 'react'
-import Editor, { OnChange } from '@monaco-editor/react'
+import { useEffect, useRef, useState } from 'react'
+import Editor, { OnChange, OnMount } from '@monaco-editor/react'
+
+type MonacoEditor = Parameters<OnMount>[0]
+type Monaco = Parameters<OnMount>[1]
+
+/**
+ * Schemas by model URI. Monaco's JSON language service is global; each editor (each tab) adds
+ * its own entry, matched to its model only, and the service gets all of them.
+ */
+const schemasByModel = new Map<string, object>()
+let nextEditorId = 0
+
+function applySchemas(monaco: Monaco) {
+    monaco.languages.json.jsonDefaults.setDiagnosticsOptions({
+        validate: true,
+        allowComments: true,
+        enableSchemaRequest: false,
+        schemas: [...schemasByModel].map(([modelUri, schema]) => ({
+            uri: modelUri.replace('/document-', '/schema-'),
+            fileMatch: [modelUri],
+            schema,
+        })),
+    })
+}
+
+/** A [start, end) range of character offsets in the editor text */
+export type OffsetRange = { start: number; end: number }
 
 type Props = {
     value: string
     onChange: (t: string) => void
+    /** Monaco language id for highlighting and validation */
+    language?: string
+    /** Show the text without allowing edits (large-file excerpts) */
+    readOnly?: boolean
+    /** Range to reveal and highlight, e.g. the source of the selected grid cell */
+    highlight?: OffsetRange | null
+    /** Called when the user moves the cursor with the mouse or keyboard */
+    onCursorOffsetChange?: (offset: number) => void
+    /** Replace Monaco's own undo stack with the shared history (Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y) */
+    onUndo?: () => void
+    onRedo?: () => void
+    /** JSON Schema for Monaco's JSON diagnostics; null checks syntax only */
+    schema?: object | null
 }
 
-export default function EditorMonaco({ value, onChange }: Props) {
+export default function EditorMonaco({ value, onChange, language = 'json', readOnly = false, highlight = null, onCursorOffsetChange, onUndo, onRedo, schema = null }: Props) {
+    const editorRef = useRef<MonacoEditor | null>(null)
+    const [monaco, setMonaco] = useState<Monaco | null>(null)
+    const decorationsRef = useRef<ReturnType<MonacoEditor['createDecorationsCollection']> | null>(null)
+    const cursorCallbackRef = useRef(onCursorOffsetChange)
+    cursorCallbackRef.current = onCursorOffsetChange
+    const historyRef = useRef({ onUndo, onRedo })
+    historyRef.current = { onUndo, onRedo }
+    /** This editor's own model, so its schema applies to it alone */
+    const [modelPath] = useState(() => `inmemory://jsongrid/document-${++nextEditorId}.json`)
+
     const handleChange: OnChange = (v /* string | undefined */) => {
         onChange(v ?? '')
     }
 
+    const handleMount: OnMount = (editor, monacoInstance) => {
+        editorRef.current = editor
+        setMonaco(monacoInstance)
+        decorationsRef.current = editor.createDecorationsCollection()
+        editor.onDidChangeCursorPosition((e) => {
+            // Ignore cursor moves caused by value updates; only react to the user
+            if (e.source !== 'mouse' && e.source !== 'keyboard') return
+            const model = editor.getModel()
+            if (model) cursorCallbackRef.current?.(model.getOffsetAt(e.position))
+        })
+        // Monaco's undo stack only knows about typing; grid edits replace the value wholesale.
+        // Route the shortcuts to the shared history instead, when one is provided.
+        const { KeyMod, KeyCode } = monacoInstance
+        editor.addAction({
+            id: 'jsongrid.undo',
+            label: 'Undo',
+            keybindings: [KeyMod.CtrlCmd | KeyCode.KeyZ],
+            run: () => {
+                if (historyRef.current.onUndo) historyRef.current.onUndo()
+                else editor.trigger('keyboard', 'undo', null)
+            },
+        })
+        editor.addAction({
+            id: 'jsongrid.redo',
+            label: 'Redo',
+            keybindings: [KeyMod.CtrlCmd | KeyMod.Shift | KeyCode.KeyZ, KeyMod.CtrlCmd | KeyCode.KeyY],
+            run: () => {
+                if (historyRef.current.onRedo) historyRef.current.onRedo()
+                else editor.trigger('keyboard', 'redo', null)
+            },
+        })
+    }
+
+    useEffect(() => {
+        if (!monaco) return
+        const modelUri = monaco.Uri.parse(modelPath).toString()
+        if (schema) schemasByModel.set(modelUri, schema)
+        else schemasByModel.delete(modelUri)
+        applySchemas(monaco)
+        return () => {
+            schemasByModel.delete(modelUri)
+            applySchemas(monaco)
+        }
+    }, [monaco, schema, modelPath])
+
+    useEffect(() => {
+        const editor = editorRef.current
+        const model = editor?.getModel()
+        if (!editor || !model || !decorationsRef.current) return
+        if (!highlight) {
+            decorationsRef.current.clear()
+            return
+        }
+        const start = model.getPositionAt(highlight.start)
+        const end = model.getPositionAt(highlight.end)
+        const range = {
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column,
+        }
+        decorationsRef.current.set([{ range, options: { className: 'editor-sync-highlight' } }])
+        editor.revealRangeInCenterIfOutsideViewport(range)
+    }, [highlight])
+
     return (
         <Editor
             height="100%"
-            defaultLanguage="json"
+            path={modelPath}
+            language={language}
             value={value}
             onChange={handleChange}
+            onMount={handleMount}
             options={{
                 wordWrap: 'on',
                 minimap: { enabled: false },
@@ -24,7 +140,8 @@ export default function EditorMonaco({ value, onChange }: Props) {
                 automaticLayout: true,
                 renderValidationDecorations: 'on',
                 tabSize: 2,
+                readOnly,
             }}
         />
     )
-}
\ No newline at end of file
+}
@@ -0,0 +1,118 @@
+import { useState } from 'react'
+import { Download, X } from 'lucide-react'
+import { EXPORT_FORMATS, ExportFormat, ExportOptions, NESTED_MODES, NestedMode } from '../utils/exporters'
+
+export type ExportSettings = ExportOptions & {
+  /** visible = after filter and sort; all = every row in document order */
+  rows: 'visible' | 'all'
+  /** visible = columns not hidden in the grid */
+  columns: 'visible' | 'all'
+}
+
+type Props = {
+  /** Row and column counts for the scope choices; without them the scope and nested-value choices are hidden */
+  counts?: { visibleRows: number; allRows: number; visibleColumns: number; allColumns: number }
+  /** Writes the export; resolves with the saved path, or null when the dialog was canceled */
+  onExport: (settings: ExportSettings) => Promise<string | null>
+  onClose: () => void
+  disabled?: boolean
+}
+
+const selectStyle = { fontSize: 12, padding: '2px 4px', border: '1px solid #d1d5db', borderRadius: 4, background: 'white' }
+
+/**
+ * @name ExportDialog
+ * @description Panel for exporting the grid: row/column scope, nested-value handling and format.
+ * Tables with nothing to scope or nest (such as the pivot) only get the format choices.
+ */
+export default function ExportDialog({ counts, onExport, onClose, disabled = false }: Props) {
+  const [settings, setSettings] = useState<ExportSettings>({
+    format: 'csv',
+    nested: 'json',
+    delimiter: ',',
+    rows: 'visible',
+    columns: 'visible',
+  })
+  const [status, setStatus] = useState<{ error: boolean; message: string } | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const update = (patch: Partial<ExportSettings>) => {
+    setSettings((s) => ({ ...s, ...patch }))
+    setStatus(null)
+  }
+
+  const run = async () => {
+    setBusy(true)
+    setStatus(null)
+    try {
+      const filePath = await onExport(settings)
+      if (filePath) setStatus({ error: false, message: `Saved to ${filePath}` })
+    } catch (e) {
+      setStatus({ error: true, message: e instanceof Error ? e.message : String(e) })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div style={{ padding: 8, borderBottom: '1px solid #e5e7eb', background: '#f9fafb', fontSize: 12, display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <strong>Export</strong>
+        <div style={{ flex: 1 }} />
+        <button className="toolbar-btn" onClick={onClose} title="Close">
+          <X size={14} />
+        </button>
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+        {counts && (
+          <>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+              Rows
+              <select value={settings.rows} onChange={(e) => update({ rows: e.target.value as ExportSettings['rows'] })} style={selectStyle}>
+                <option value="visible">Visible, in grid order ({counts.visibleRows})</option>
+                <option value="all">All ({counts.allRows})</option>
+              </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+              Columns
+              <select value={settings.columns} onChange={(e) => update({ columns: e.target.value as ExportSettings['columns'] })} style={selectStyle}>
+                <option value="visible">Visible ({counts.visibleColumns})</option>
+                <option value="all">All ({counts.allColumns})</option>
+              </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+              Nested values
+              <select value={settings.nested} onChange={(e) => update({ nested: e.target.value as NestedMode })} style={selectStyle}>
+                {Object.entries(NESTED_MODES).map(([mode, label]) => (
+                  <option key={mode} value={mode}>{label}</option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          Format
+          <select value={settings.format} onChange={(e) => update({ format: e.target.value as ExportFormat })} style={selectStyle}>
+            {Object.entries(EXPORT_FORMATS).map(([format, { label }]) => (
+              <option key={format} value={format}>{label}</option>
+            ))}
+          </select>
+        </label>
+        {settings.format === 'csv' && (
+          <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+            Delimiter
+            <select value={settings.delimiter} onChange={(e) => update({ delimiter: e.target.value })} style={selectStyle}>
+              <option value=",">Comma (,)</option>
+              <option value=";">Semicolon (;)</option>
+              <option value="|">Pipe (|)</option>
+            </select>
+          </label>
+        )}
+        <button className="toolbar-btn" onClick={run} disabled={disabled || busy}>
+          <Download size={14} /> Export…
+        </button>
+      </div>
+      {status && <span style={{ color: status.error ? '#dc2626' : '#059669' }}>{status.message}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { RefreshCw, X } from 'lucide-react'
+
+type Props = {
+  filePath: string
+  dirty: boolean
+  onReload: () => void
+  onKeep: () => void
+}
+
+/**
+ * @name FileChangedBar
+ * @description Notice that the open file was changed by another program, with reload or keep-mine.
+ */
+export default function FileChangedBar({ filePath, dirty, onReload, onKeep }: Props) {
+  const name = filePath.split(/[\\/]/).pop()
+
+  return (
+    <div style={{ padding: '4px 8px', borderBottom: '1px solid #e5e7eb', background: '#fffbeb', fontSize: 11, color: '#92400e', display: 'flex', alignItems: 'center', gap: 8 }}>
+      <span>
+        <strong>{name}</strong> was changed on disk.{dirty ? ' Reloading discards your unsaved changes.' : ''}
+      </span>
+      <div style={{ flex: 1 }} />
+      <button className="toolbar-btn" onClick={onReload} title="Replace the editor content with the file on disk">
+        <RefreshCw size={12} /> Reload
+      </button>
+      <button className="toolbar-btn" onClick={onKeep} title="Keep the editor content; saving overwrites the file">
+        <X size={12} /> Keep mine
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+import { Plus, Trash2, X } from 'lucide-react'
+import { GridColumn } from '../utils/deriveGridData'
+import {
+  Combinator,
+  FilterCondition,
+  FilterGroup,
+  FilterModel,
+  OPERATORS,
+  EMPTY_FILTER,
+  newFilterId,
+  operatorsFor,
+} from '../utils/filterModel'
+
+type Props = {
+  columns: GridColumn[]
+  model: FilterModel
+  onChange: (model: FilterModel) => void
+  onClose: () => void
+}
+
+const selectStyle = { fontSize: 12, padding: '2px 4px', border: '1px solid #d1d5db', borderRadius: 4, background: 'white' }
+const inputStyle = { ...selectStyle, width: 140 }
+
+function CombinatorToggle({ value, onChange }: { value: Combinator; onChange: (c: Combinator) => void }) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value as Combinator)} style={selectStyle}>
+      <option value="and">AND</option>
+      <option value="or">OR</option>
+    </select>
+  )
+}
+
+/**
+ * @name FilterBuilder
+ * @description Panel for composing typed per-column conditions into AND/OR groups.
+ * Operators and value widgets follow each column's inferred GridColumn.type.
+ */
+export default function FilterBuilder({ columns, model, onChange, onClose }: Props) {
+  const columnType = (key: string) => columns.find((c) => c.key === key)?.type ?? 'string'
+
+  const newCondition = (): FilterCondition => {
+    const column = columns[0]?.key ?? ''
+    return { id: newFilterId(), column, operator: operatorsFor(columnType(column))[0] }
+  }
+
+  const updateGroup = (groupId: string, patch: Partial<FilterGroup>) =>
+    onChange({ ...model, groups: model.groups.map((g) => (g.id === groupId ? { ...g, ...patch } : g)) })
+
+  const updateCondition = (group: FilterGroup, conditionId: string, patch: Partial<FilterCondition>) =>
+    updateGroup(group.id, {
+      conditions: group.conditions.map((c) => (c.id === conditionId ? { ...c, ...patch } : c)),
+    })
+
+  const removeConditionFrom = (group: FilterGroup, conditionId: string) => {
+    const conditions = group.conditions.filter((c) => c.id !== conditionId)
+    if (conditions.length === 0) {
+      onChange({ ...model, groups: model.groups.filter((g) => g.id !== group.id) })
+    } else {
+      updateGroup(group.id, { conditions })
+    }
+  }
+
+  const addGroup = () =>
+    onChange({ ...model, groups: [...model.groups, { id: newFilterId(), combinator: 'and', conditions: [newCondition()] }] })
+
+  const renderValueInput = (group: FilterGroup, c: FilterCondition, field: 'value' | 'value2') => {
+    const type = columnType(c.column)
+    const isDate = c.operator === 'before' || c.operator === 'after' || c.operator === 'dateBetween'
+    const inputType = isDate ? 'datetime-local' : type === 'number' || c.operator.startsWith('length') ? 'number' : 'text'
+    return (
+      <input
+        type={inputType}
+        value={c[field] ?? ''}
+        placeholder={c.operator === 'regex' ? 'pattern' : 'value'}
+        onChange={(e) => updateCondition(group, c.id, { [field]: e.target.value })}
+        style={inputStyle}
+      />
+    )
+  }
+
+  return (
+    <div style={{ padding: 8, borderBottom: '1px solid #e5e7eb', background: '#f9fafb', fontSize: 12, display: 'flex', flexDirection: 'column', gap: 8, maxHeight: 260, overflowY: 'auto' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <strong>Advanced Filter</strong>
+        {model.groups.length > 1 && (
+          <>
+            <span style={{ color: '#6b7280' }}>Match groups with</span>
+            <CombinatorToggle value={model.combinator} onChange={(combinator) => onChange({ ...model, combinator })} />
+          </>
+        )}
+        <div style={{ flex: 1 }} />
+        <button className="toolbar-btn" onClick={() => onChange(EMPTY_FILTER)} disabled={model.groups.length === 0}>
+          Clear all
+        </button>
+        <button className="toolbar-btn" onClick={onClose} title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      {model.groups.map((group, gi) => (
+        <div key={group.id} style={{ border: '1px solid #e5e7eb', borderRadius: 4, padding: 6, background: 'white', display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6, color: '#6b7280' }}>
+            <span>Group {gi + 1}: match conditions with</span>
+            <CombinatorToggle value={group.combinator} onChange={(combinator) => updateGroup(group.id, { combinator })} />
+          </div>
+          {group.conditions.map((c) => {
+            const ops = operatorsFor(columnType(c.column))
+            const arity = OPERATORS[c.operator].arity
+            return (
+              <div key={c.id} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <select
+                  value={c.column}
+                  onChange={(e) => {
+                    const column = e.target.value
+                    const nextOps = operatorsFor(columnType(column))
+                    updateCondition(group, c.id, {
+                      column,
+                      operator: nextOps.includes(c.operator) ? c.operator : nextOps[0],
+                      value: undefined,
+                      value2: undefined,
+                      upperExclusive: undefined,
+                    })
+                  }}
+                  style={selectStyle}
+                >
+                  {columns.map((col) => (
+                    <option key={col.key} value={col.key}>{col.key} ({col.type})</option>
+                  ))}
+                </select>
+                <select
+                  value={c.operator}
+                  onChange={(e) => updateCondition(group, c.id, { operator: e.target.value as FilterCondition['operator'] })}
+                  style={selectStyle}
+                >
+                  {ops.map((op) => (
+                    <option key={op} value={op}>{OPERATORS[op].label}</option>
+                  ))}
+                </select>
+                {arity >= 1 && renderValueInput(group, c, 'value')}
+                {arity === 2 && <span>and</span>}
+                {arity === 2 && renderValueInput(group, c, 'value2')}
+                <button className="toolbar-btn danger" onClick={() => removeConditionFrom(group, c.id)} title="Remove condition">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            )
+          })}
+          <div>
+            <button className="toolbar-btn" onClick={() => updateGroup(group.id, { conditions: [...group.conditions, newCondition()] })}>
+              <Plus size={12} /> Condition
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div>
+        <button className="toolbar-btn" onClick={addGroup} disabled={columns.length === 0}>
+          <Plus size={12} /> Group
+        </button>
+      </div>
+    </div>
+  )
+}
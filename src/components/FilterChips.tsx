@@ -0,0 +1,38 @@
+import { X } from 'lucide-react'
+import { FilterModel, describeCondition, removeCondition } from '../utils/filterModel'
+
+type Props = {
+  model: FilterModel
+  onChange: (model: FilterModel) => void
+}
+
+/**
+ * @name FilterChips
+ * @description Shows the active filter conditions as removable chips, grouped the same way
+ * they are combined.
+ */
+export default function FilterChips({ model, onChange }: Props) {
+  const groups = model.groups.filter((g) => g.conditions.length > 0)
+  if (groups.length === 0) return null
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 6, padding: '4px 8px', borderBottom: '1px solid #e5e7eb', background: 'white', fontSize: 11 }}>
+      {groups.map((g, gi) => (
+        <span key={g.id} style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+          {gi > 0 && <span className="filter-combinator">{model.combinator.toUpperCase()}</span>}
+          {groups.length > 1 && '('}
+          {g.conditions.map((c, ci) => (
+            <span key={c.id} style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+              {ci > 0 && <span className="filter-combinator">{g.combinator.toUpperCase()}</span>}
+              <span className="filter-chip">
+                {describeCondition(c)}
+                <X size={11} style={{ cursor: 'pointer' }} onClick={() => onChange(removeCondition(model, c.id))} />
+              </span>
+            </span>
+          ))}
+          {groups.length > 1 && ')'}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import React, { useMemo, useRef, useImperativeHandle, forwardRef } from 'react'
+import React, { useMemo, useRef, useImperativeHandle, forwardRef, useState, useCallback, useEffect } from 'react'
 import {
   ColumnDef,
   flexRender,
@@ -6,73 +6,112 @@ import {
   getSortedRowModel,
   getFilteredRowModel,
   getExpandedRowModel,
+  getGroupedRowModel,
   SortingState,
   ExpandedState,
+  GroupingState,
+  VisibilityState,
   useReactTable,
   Row,
 } from '@tanstack/react-table'
 import { useVirtualizer } from '@tanstack/react-virtual'
-import { DeriveResult, GridRow, isComplexCell, ComplexCell } from '../utils/deriveGridData'
-import { ChevronRight, ChevronDown, PlusSquare, MinusSquare } from 'lucide-react'
+import { DeriveResult, GridRow, isComplexCell, ComplexCell, cellValuePath, FlattenOptions, MAX_INDEXED_ITEMS, NO_FLATTEN } from '../utils/deriveGridData'
+import { ChevronRight, ChevronDown, PlusSquare, MinusSquare, EyeOff, Eye, ChartColumn, Group, Ungroup } from 'lucide-react'
 import NestedGrid from './NestedGrid'
+import ArrayPicker from './ArrayPicker'
+import FilterChips from './FilterChips'
+import ContextMenu, { ContextMenuItem, ContextMenuState } from './ContextMenu'
+import { keyMenuItems, rowMenuItems } from './gridMenuItems'
+import { useGridContext } from '../context/GridContext'
+import { newRecordLike } from '../utils/structuralEdits'
+import ExportDialog, { ExportSettings } from './ExportDialog'
+import { EXPORT_FORMATS, exportRecords, gridRowToRecord } from '../utils/exporters'
+import { EMPTY_FILTER, FilterModel, addCondition, evaluateFilter, isFilterActive } from '../utils/filterModel'
+import ColumnProfilePanel from './ColumnProfilePanel'
+import { profileColumn } from '../utils/columnProfile'
+import { AGGREGATES, AggregateKind, aggregateRows, defaultAggregate, formatAggregate, groupLabel, groupingValue } from '../utils/gridAggregates'
 
 type Props = {
   data: DeriveResult | null
   rowHeight?: number
+  /** Pin the grid to another array (JSONPath), or null for automatic selection */
+  onSelectPath?: (path: string | null) => void
+  /** Advanced filter conditions applied on top of the search box */
+  filter?: FilterModel
+  onFilterChange?: (model: FilterModel) => void
+  /** Indexes of rows with deep search hits; null when no search is active */
+  searchRows?: Set<number> | null
+  /** Dot-path column mode; the control is hidden without onFlattenChange */
+  flatten?: FlattenOptions
+  onFlattenChange?: (flatten: FlattenOptions) => void
 }
 
+/** Choices for the flatten control; Infinity flattens every level */
+const FLATTEN_DEPTHS: { depth: number; label: string }[] = [
+  { depth: 0, label: 'Off' },
+  { depth: 1, label: '1 level' },
+  { depth: 2, label: '2 levels' },
+  { depth: 3, label: '3 levels' },
+  { depth: Infinity, label: 'All levels' },
+]
+
+const infoSelectStyle = { fontSize: 11, padding: '0 2px', border: '1px solid #d1d5db', borderRadius: 4, background: 'white', color: '#374151' }
+
+/** TanStack only runs global filtering for a truthy state value, so search hits and
+ * advanced filter travel together as one object. */
+type GlobalFilterState = { hitRows: Set<number> | null; filter: FilterModel }
+
+/** Data rows under a group row; getLeafRows also returns the nested group rows */
+const leavesOf = (row: Row<GridRow>) => row.getLeafRows().filter((r) => !r.getIsGrouped())
+
 export type GridViewHandle = {
   expandAll: () => void
   collapseAll: () => void
-  setGlobalFilter: (value: string) => void
-}
-
-/**
- * @name exportCSV
- * @description A simple CSV export utility that does not require extra dependencies.
- */
-function exportCSV(rows: Row<GridRow>[], columns: string[], filename: string) {
-  const esc = (v: unknown) => {
-    if (v === null || v === undefined) return ''
-    const s = String(v)
-    if (/["\n]/.test(s)) return `"${s.replace(/"/g, '""')}"`
-    return s
-  }
-  const head = columns.join(',')
-  // Only export top-level rows
-  const body = rows
-    .filter((r) => r.depth === 0)
-    .map((r) => columns.map((c) => esc(r.original[c])).join(','))
-    .join('\n')
-
-  const csv = `${head}\n${body}`
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
-  const a = document.createElement('a')
-  a.href = URL.createObjectURL(blob)
-  a.download = filename
-  a.click()
-  URL.revokeObjectURL(a.href)
+  /** Scroll the row built from the given array index into view */
+  scrollToRow: (rowIndex: number) => void
+  /** Show the export options */
+  openExport: () => void
 }
 
 /**
  * @name GridView
  * @description A virtualized, sortable, and filterable data grid with resizable columns and expandable rows for nested data.
  */
-const GridView = forwardRef<GridViewHandle, Props>(({ data, rowHeight = 34 }, ref) => {
+const GridView = forwardRef<GridViewHandle, Props>(({ data, rowHeight = 34, onSelectPath, filter = EMPTY_FILTER, onFilterChange, searchRows = null, flatten = NO_FLATTEN, onFlattenChange }, ref) => {
   const tableContainerRef = useRef<HTMLDivElement>(null)
 
-  const rows = data?.rows ?? []
+  const rows = useMemo(() => data?.rows ?? [], [data?.rows])
   const columnKeys = useMemo(() => data?.columns.map((c) => c.key) ?? [], [data?.columns])
+  /** Record paths of flattened columns; other columns sit directly under their key */
+  const columnPaths = useMemo(() => {
+    const paths = new Map<string, (string | number)[]>()
+    for (const c of data?.columns ?? []) if (c.path) paths.set(c.key, c.path)
+    return paths
+  }, [data?.columns])
 
   const [sorting, setSorting] = React.useState<SortingState>([])
-  const [globalFilter, setGlobalFilter] = React.useState('')
   const [expanded, setExpanded] = React.useState<ExpandedState>({})
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
+  const [showExport, setShowExport] = useState(false)
+  /** Column whose profile panel is open */
+  const [profiledColumn, setProfiledColumn] = useState<string | null>(null)
+  /** Column ids grouped by, outermost first */
+  const [grouping, setGrouping] = useState<GroupingState>([])
+  /** Aggregates chosen in the footer; other columns use defaultAggregate */
+  const [aggregates, setAggregates] = useState<Record<string, AggregateKind>>({})
+  const [showTotals, setShowTotals] = useState(true)
+  /** Row to scroll to once its groups have been expanded */
+  const pendingScroll = useRef<number | null>(null)
+  const [menu, setMenu] = useState<ContextMenuState | null>(null)
+  const closeMenu = useCallback(() => setMenu(null), [])
+  const { onStructuralEdit, readOnly, validation } = useGridContext()
+  const primitiveRows = rows.length > 0 && rows.every((r) => r.isValueRow)
+  /** Top-level keys used to shape inserted rows; null when the array holds primitives */
+  const recordKeys = useMemo(
+    () => (primitiveRows ? null : [...new Set(columnKeys.map((k) => String(columnPaths.get(k)?.[0] ?? k)))]),
+    [primitiveRows, columnKeys, columnPaths],
+  )
 
-  useImperativeHandle(ref, () => ({
-    expandAll: () => { }, // No-op for now as we switched to inline expansion
-    collapseAll: () => { }, // No-op
-    setGlobalFilter: (value: string) => setGlobalFilter(value),
-  }))
 
 
 
@@ -88,6 +127,7 @@ const GridView = forwardRef<GridViewHandle, Props>(({ data, rowHeight = 34 }, re
       id: 'expander-and-content',
       header: () => firstKey || 'Data',
       size: 250,
+      getGroupingValue: firstKey ? (row) => groupingValue(row, firstKey) : undefined,
       cell: ({ row }) => {
         // For top-level rows, display the value of the first column
         const value = firstKey ? row.original[firstKey] : ''
@@ -95,46 +135,75 @@ const GridView = forwardRef<GridViewHandle, Props>(({ data, rowHeight = 34 }, re
         // Use NestedGrid for complex cells, but pass the value directly
         // If it's a complex cell, NestedGrid handles it.
         // If it's a primitive, NestedGrid handles it too (as an input box).
-        return <NestedGrid data={value} />
+        return <NestedGrid data={value} path={firstKey ? cellValuePath(row.original, row.index, firstKey, columnPaths.get(firstKey)) : []} />
       },
     }
 
     // The rest of the columns, which will be blank for sub-rows
+    // accessorFn rather than accessorKey: TanStack reads dotted keys (flattened columns) as nested paths
     const otherCols: ColumnDef<GridRow>[] = columnKeys.slice(1).map((key) => ({
-      accessorKey: key,
+      id: key,
+      accessorFn: (row) => row[key],
+      getGroupingValue: (row) => groupingValue(row, key),
       header: () => key,
       cell: (info) => {
         const value = info.getValue()
-        return <NestedGrid data={value} />
+        return <NestedGrid data={value} path={cellValuePath(info.row.original, info.row.index, key, columnPaths.get(key))} />
       },
       size: 150,
     }))
 
     return [firstCol, ...otherCols]
-  }, [columnKeys])
+  }, [columnKeys, columnPaths])
+
+  // Profiles cover every row, so filtering from the panel never hides the other values
+  const profile = useMemo(
+    () => (profiledColumn && columnKeys.includes(profiledColumn) ? profileColumn(rows, profiledColumn) : null),
+    [profiledColumn, columnKeys, rows],
+  )
+
+  const defaultAggregates = useMemo(() => new Map(columnKeys.map((k) => [k, defaultAggregate(rows, k)])), [columnKeys, rows])
+  const aggregateFor = useCallback((key: string) => aggregates[key] ?? defaultAggregates.get(key) ?? 'count', [aggregates, defaultAggregates])
+  // Group rows are rebuilt whenever the row model changes, so caching per row object never goes stale
+  const groupAggregates = useMemo(() => new WeakMap<Row<GridRow>, Map<string, number | null>>(), [])
+  const groupAggregate = (row: Row<GridRow>, key: string) => {
+    const kind = aggregateFor(key)
+    let cached = groupAggregates.get(row)
+    if (!cached) groupAggregates.set(row, (cached = new Map()))
+    if (!cached.has(`${kind}:${key}`)) cached.set(`${kind}:${key}`, aggregateRows(leavesOf(row).map((r) => r.original), key, kind))
+    return cached.get(`${kind}:${key}`) ?? null
+  }
+
+  const filterState = useMemo<GlobalFilterState>(() => ({ hitRows: searchRows, filter }), [searchRows, filter])
 
   const table = useReactTable({
     data: rows,
     columns,
-    state: { sorting, globalFilter },
+    state: { sorting, globalFilter: filterState, columnVisibility, grouping, expanded },
     onSortingChange: setSorting,
-    onGlobalFilterChange: setGlobalFilter,
+    onColumnVisibilityChange: setColumnVisibility,
+    onGroupingChange: setGrouping,
+    onExpandedChange: setExpanded,
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
+    getGroupedRowModel: getGroupedRowModel(),
+    getExpandedRowModel: getExpandedRowModel(),
+    // Edits rebuild the rows; keep open groups open
+    autoResetExpanded: false,
     columnResizeMode: 'onChange',
-    globalFilterFn: (row, _columnId, filterValue: string) => {
-      if (!filterValue) return true
-      const q = filterValue.toLowerCase()
-      for (const k of columnKeys) {
-        const v = row.original[k]
-        if (v != null && String(v).toLowerCase().includes(q)) return true
-      }
-      return false
+    // Evaluate the global filter once per row instead of once per column
+    getColumnCanGlobalFilter: (column) => column.id === 'expander-and-content',
+    globalFilterFn: (row, _columnId, { hitRows, filter: model }: GlobalFilterState) => {
+      if (isFilterActive(model) && !evaluateFilter(model, row.original)) return false
+      return !hitRows || hitRows.has(row.index)
     },
   })
 
   const { rows: tableRows } = table.getRowModel()
+  /** Data rows left by the search and filters, before grouping */
+  const filteredRows = table.getFilteredRowModel().rows
+  const grouped = grouping.length > 0
   const virtualizer = useVirtualizer({
     count: tableRows.length,
     getScrollElement: () => tableContainerRef.current,
@@ -142,6 +211,102 @@ const GridView = forwardRef<GridViewHandle, Props>(({ data, rowHeight = 34 }, re
     overscan: 5,
   })
 
+  // Drop grouping by columns the current array no longer has
+  useEffect(() => {
+    setGrouping((g) => {
+      const next = g.filter((id) => id === 'expander-and-content' || columnKeys.includes(id))
+      return next.length === g.length ? g : next
+    })
+  }, [columnKeys])
+
+  const totals = useMemo(() => {
+    if (!showTotals) return null
+    const originals = filteredRows.map((r) => r.original)
+    return new Map(columnKeys.map((k) => [k, aggregateRows(originals, k, aggregateFor(k))]))
+  }, [showTotals, filteredRows, columnKeys, aggregateFor])
+
+  // Nested data expands inline, so expandAll/collapseAll only concern group rows
+  useImperativeHandle(ref, () => ({
+    expandAll: () => table.toggleAllRowsExpanded(true),
+    collapseAll: () => setExpanded({}),
+    scrollToRow: (rowIndex: number) => {
+      const i = tableRows.findIndex((r) => !r.getIsGrouped() && r.index === rowIndex)
+      if (i >= 0) return virtualizer.scrollToIndex(i, { align: 'start' })
+      // Inside a collapsed group: open its groups and scroll once they render
+      const leaf = grouped ? table.getGroupedRowModel().flatRows.find((r) => !r.getIsGrouped() && r.index === rowIndex) : undefined
+      if (!leaf) return
+      pendingScroll.current = rowIndex
+      setExpanded((prev) => (prev === true ? prev : { ...prev, ...Object.fromEntries(leaf.getParentRows().map((p) => [p.id, true])) }))
+    },
+    openExport: () => setShowExport(true),
+  }))
+
+  useEffect(() => {
+    if (pendingScroll.current === null) return
+    const i = tableRows.findIndex((r) => !r.getIsGrouped() && r.index === pendingScroll.current)
+    pendingScroll.current = null
+    if (i >= 0) virtualizer.scrollToIndex(i, { align: 'start' })
+  }, [tableRows, virtualizer])
+
+  /** The first column renders the first key under a fixed id */
+  const columnKey = (id: string) => (id === 'expander-and-content' ? columnKeys[0] : id)
+  const visibleColumnIds = table.getVisibleLeafColumns().map((c) => c.id)
+  const hiddenCount = columns.length - visibleColumnIds.length
+
+  /** Header menu: column operations apply to every record of the selected array */
+  const openHeaderMenu = (e: React.MouseEvent, columnId: string) => {
+    e.preventDefault()
+    const shownKey = columnKey(columnId)
+    // Column operations work on top-level keys; a flattened column has no key of its own
+    const key = shownKey && !columnPaths.has(shownKey) ? shownKey : null
+    const column = table.getColumn(columnId)
+    const viewItems: ContextMenuItem[] = [
+      {
+        label: 'Hide column',
+        icon: EyeOff,
+        disabled: visibleColumnIds.length <= 1,
+        onSelect: () => setColumnVisibility((v) => ({ ...v, [columnId]: false })),
+      },
+      { label: 'Show all columns', icon: Eye, disabled: hiddenCount === 0, onSelect: () => setColumnVisibility({}) },
+      { label: 'Profile column', icon: ChartColumn, disabled: !shownKey, onSelect: () => setProfiledColumn(shownKey ?? null) },
+      column?.getIsGrouped()
+        ? { label: 'Ungroup column', icon: Ungroup, onSelect: () => column.toggleGrouping() }
+        : { label: 'Group by column', icon: Group, disabled: !column?.getCanGroup(), onSelect: () => column?.toggleGrouping() },
+    ]
+    setMenu({
+      x: e.clientX,
+      y: e.clientY,
+      items: readOnly ? viewItems : [
+        ...keyMenuItems(onStructuralEdit, [], recordKeys ? key : null, true),
+        'separator',
+        { label: 'Append row', onSelect: () => onStructuralEdit({ type: 'insertRow', path: [], index: rows.length, value: newRecordLike(recordKeys) }) },
+        'separator',
+        ...viewItems,
+      ],
+    })
+  }
+
+  const handleExport = async (settings: ExportSettings): Promise<string | null> => {
+    if (!window.api) throw new Error('Export needs the desktop app')
+    const keys = settings.columns === 'visible' ? visibleColumnIds.map(columnKey).filter((k): k is string => !!k) : columnKeys
+    // Visible rows in display order, including those inside collapsed groups
+    const sourceRows = settings.rows === 'visible'
+      ? table.getSortedRowModel().rows.flatMap((r) => (r.getIsGrouped() ? leavesOf(r) : [r])).map((r) => r.original)
+      : rows
+    const records = sourceRows.map((r) => gridRowToRecord(r, keys))
+    const text = exportRecords(records, keys, settings)
+    const { label, extension } = EXPORT_FORMATS[settings.format]
+    const res = await window.api.exportFile({ text, defaultName: `grid.${extension}`, extension, formatName: label })
+    return res?.filePath ?? null
+  }
+
+  const openRowMenu = (e: React.MouseEvent, row: Row<GridRow>) => {
+    if (readOnly || row.getIsGrouped()) return
+    e.preventDefault()
+    // Moving rows follows document order, which is ambiguous while rows are sorted or grouped
+    setMenu({ x: e.clientX, y: e.clientY, items: rowMenuItems(onStructuralEdit, [], row.index, rows.length, recordKeys, sorting.length === 0 && !grouped) })
+  }
+
   if (!data) {
     return (
       <div style={{ color: '#666', padding: 20, textAlign: 'center', marginTop: 40 }}>
@@ -163,16 +328,96 @@ const GridView = forwardRef<GridViewHandle, Props>(({ data, rowHeight = 34 }, re
         fontSize: 11,
         color: '#6b7280',
         display: 'flex',
+        alignItems: 'center',
         gap: 12
       }}>
         <span>Path: <strong>{data.path}</strong></span>
-        <span>Rows: <strong>{rows.length}</strong></span>
-        <span>Columns: <strong>{columnKeys.length}</strong></span>
-        <span style={{ marginLeft: 'auto', cursor: 'pointer', color: '#3b82f6' }} onClick={() => exportCSV(table.getCoreRowModel().rows, columnKeys, 'grid.csv')}>
-          Export CSV
+        {onSelectPath && (
+          <ArrayPicker
+            path={data.path}
+            candidates={data.candidates}
+            pinned={data.pinned}
+            onSelectPath={onSelectPath}
+          />
+        )}
+        <span>
+          Rows: <strong>{isFilterActive(filter) || searchRows ? `${filteredRows.length} of ${rows.length}` : rows.length}</strong>
+        </span>
+        <span>
+          Columns: <strong>{hiddenCount > 0 ? `${visibleColumnIds.length} of ${columns.length}` : columnKeys.length}</strong>
+          {hiddenCount > 0 && (
+            <span style={{ marginLeft: 6, cursor: 'pointer', color: '#3b82f6' }} onClick={() => setColumnVisibility({})}>
+              show all
+            </span>
+          )}
+        </span>
+        {onFlattenChange && (
+          <span title="Turn nested fields into dot-path columns">
+            Flatten:{' '}
+            <select
+              value={String(flatten.depth)}
+              onChange={(e) => onFlattenChange({ ...flatten, depth: Number(e.target.value) })}
+              style={infoSelectStyle}
+            >
+              {FLATTEN_DEPTHS.map(({ depth, label }) => (
+                <option key={depth} value={String(depth)}>{label}</option>
+              ))}
+            </select>
+            {flatten.depth > 0 && (
+              <select
+                value={flatten.arrays}
+                onChange={(e) => onFlattenChange({ ...flatten, arrays: e.target.value as FlattenOptions['arrays'] })}
+                style={{ ...infoSelectStyle, marginLeft: 4 }}
+                title={`Indexed arrays get a column per item (arrays up to ${MAX_INDEXED_ITEMS} items)`}
+              >
+                <option value="cell">Arrays as cells</option>
+                <option value="index">Index arrays</option>
+              </select>
+            )}
+          </span>
+        )}
+        {grouped && (
+          <span>
+            Grouped by: <strong>{grouping.map((id) => columnKey(id)).join(' › ')}</strong>
+            <span style={{ marginLeft: 6, cursor: 'pointer', color: '#3b82f6' }} onClick={() => table.toggleAllRowsExpanded(true)}>
+              expand all
+            </span>
+            <span style={{ marginLeft: 6, cursor: 'pointer', color: '#3b82f6' }} onClick={() => setExpanded({})}>
+              collapse all
+            </span>
+            <span style={{ marginLeft: 6, cursor: 'pointer', color: '#3b82f6' }} onClick={() => setGrouping([])}>
+              ungroup
+            </span>
+          </span>
+        )}
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4, cursor: 'pointer' }} title="Footer row with an aggregate per column">
+          <input type="checkbox" checked={showTotals} onChange={(e) => setShowTotals(e.target.checked)} style={{ margin: 0 }} />
+          Totals
+        </label>
+        <span style={{ marginLeft: 'auto', cursor: 'pointer', color: '#3b82f6' }} onClick={() => setShowExport((v) => !v)}>
+          Export…
         </span>
       </div>
 
+      {showExport && (
+        <ExportDialog
+          counts={{ visibleRows: filteredRows.length, allRows: rows.length, visibleColumns: visibleColumnIds.length, allColumns: columnKeys.length }}
+          onExport={handleExport}
+          onClose={() => setShowExport(false)}
+          disabled={!window.api}
+        />
+      )}
+
+      {profile && (
+        <ColumnProfilePanel
+          profile={profile}
+          onFilter={onFilterChange ? (condition) => onFilterChange(addCondition(filter, condition)) : undefined}
+          onClose={() => setProfiledColumn(null)}
+        />
+      )}
+
+      {onFilterChange && <FilterChips model={filter} onChange={onFilterChange} />}
+
       {/* Table container */}
       <div ref={tableContainerRef} style={{ overflow: 'auto', flex: 1, background: 'white' }}>
         <table style={{ width: table.getTotalSize(), borderSpacing: 0, tableLayout: 'fixed' }}>
@@ -183,6 +428,7 @@ const GridView = forwardRef<GridViewHandle, Props>(({ data, rowHeight = 34 }, re
                   <th
                     key={header.id}
                     colSpan={header.colSpan}
+                    onContextMenu={(e) => openHeaderMenu(e, header.column.id)}
                     style={{
                       width: header.getSize(),
                       textAlign: 'left',
@@ -205,6 +451,19 @@ const GridView = forwardRef<GridViewHandle, Props>(({ data, rowHeight = 34 }, re
                       >
                         {flexRender(header.column.columnDef.header, header.getContext())}
                         {{ asc: ' ▲', desc: ' ▼' }[header.column.getIsSorted() as string] ?? null}
+                        {header.column.getIsGrouped() && <Group size={12} style={{ flexShrink: 0, color: '#3b82f6' }} />}
+                        <ChartColumn
+                          size={12}
+                          className="header-profile-icon"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            const key = columnKey(header.column.id)
+                            setProfiledColumn((current) => (current === key ? null : key ?? null))
+                          }}
+                          style={{ marginLeft: 'auto', flexShrink: 0, color: profiledColumn === columnKey(header.column.id) ? '#3b82f6' : '#9ca3af' }}
+                        >
+                          <title>Profile column</title>
+                        </ChartColumn>
                       </div>
                     )}
                     <div
@@ -241,32 +500,92 @@ const GridView = forwardRef<GridViewHandle, Props>(({ data, rowHeight = 34 }, re
                     left: 0,
                     width: '100%',
                     transform: `translateY(${virtualRow.start}px)`,
-                    background: virtualRow.index % 2 === 0 ? 'white' : '#f9fafb',
+                    background: row.getIsGrouped() ? '#eef2ff' : virtualRow.index % 2 === 0 ? 'white' : '#f9fafb',
                   }}
-                  className="grid-row"
+                  className={!row.getIsGrouped() && validation.rows.has(row.index) ? 'grid-row grid-row-invalid' : 'grid-row'}
+                  onContextMenu={(e) => openRowMenu(e, row)}
                 >
-                  {row.getVisibleCells().map((cell) => (
-                    <td
-                      key={cell.id}
-                      style={{
-                        width: cell.column.getSize(),
-                        padding: '8px 12px',
-                        borderBottom: '1px solid #f3f4f6',
-                        borderRight: '1px solid #f9fafb',
-                        verticalAlign: 'top',
-                        fontSize: 13,
-                        wordBreak: 'break-word'
-                      }}
-                    >
-                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                    </td>
-                  ))}
+                  {row.getVisibleCells().map((cell) => {
+                    const key = columnKey(cell.column.id)
+                    let content: React.ReactNode
+                    if (cell.getIsGrouped()) {
+                      content = (
+                        <div
+                          onClick={row.getToggleExpandedHandler()}
+                          style={{ display: 'flex', alignItems: 'center', gap: 4, paddingLeft: row.depth * 16, cursor: 'pointer' }}
+                        >
+                          {row.getIsExpanded() ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                          <strong style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{groupLabel(row.groupingValue)}</strong>
+                          <span style={{ color: '#6b7280' }}>({leavesOf(row).length.toLocaleString()})</span>
+                        </div>
+                      )
+                    } else if (cell.getIsPlaceholder()) {
+                      // Grouped columns repeat the group's value; leave them blank
+                      content = null
+                    } else if (row.getIsGrouped()) {
+                      content = key ? (
+                        <span style={{ color: '#4b5563' }} title={`${AGGREGATES[aggregateFor(key)]} of ${key}`}>
+                          {formatAggregate(groupAggregate(row, key))}
+                        </span>
+                      ) : null
+                    } else {
+                      content = flexRender(cell.column.columnDef.cell, cell.getContext())
+                    }
+                    return (
+                      <td
+                        key={cell.id}
+                        style={{
+                          width: cell.column.getSize(),
+                          padding: '8px 12px',
+                          borderBottom: '1px solid #f3f4f6',
+                          borderRight: '1px solid #f9fafb',
+                          verticalAlign: 'top',
+                          fontSize: 13,
+                          wordBreak: 'break-word'
+                        }}
+                      >
+                        {content}
+                      </td>
+                    )
+                  })}
                 </tr>
               )
             })}
           </tbody>
+          {totals && (
+            <tfoot style={{ background: '#f3f4f6', position: 'sticky', bottom: 0, zIndex: 1 }}>
+              <tr>
+                {table.getVisibleLeafColumns().map((column) => {
+                  const key = columnKey(column.id)
+                  return (
+                    <td
+                      key={column.id}
+                      style={{ width: column.getSize(), padding: '6px 12px', borderTop: '1px solid #e5e7eb', fontSize: 12, color: '#374151' }}
+                    >
+                      {key && (
+                        <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                          <select
+                            value={aggregateFor(key)}
+                            onChange={(e) => setAggregates((a) => ({ ...a, [key]: e.target.value as AggregateKind }))}
+                            style={infoSelectStyle}
+                            title={`Aggregate for ${key} in the footer and group rows`}
+                          >
+                            {Object.entries(AGGREGATES).map(([value, label]) => (
+                              <option key={value} value={value}>{label}</option>
+                            ))}
+                          </select>
+                          <strong style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{formatAggregate(totals.get(key) ?? null)}</strong>
+                        </div>
+                      )}
+                    </td>
+                  )
+                })}
+              </tr>
+            </tfoot>
+          )}
         </table>
       </div>
+      <ContextMenu menu={menu} onClose={closeMenu} />
     </div>
   )
 })
@@ -0,0 +1,74 @@
+import { Keyboard, Table, Wand, X } from 'lucide-react'
+import { HistoryEntry, HistorySource, formatValue } from '../utils/history'
+
+type Props = {
+  entries: HistoryEntry[]
+  /** number of applied entries */
+  index: number
+  onJump: (index: number) => void
+  onClose: () => void
+}
+
+const SOURCE_ICONS: Record<HistorySource, typeof Table> = {
+  grid: Table,
+  editor: Keyboard,
+  command: Wand,
+}
+
+function formatTime(ts: number): string {
+  return new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+/**
+ * @name HistoryPanel
+ * @description Lists recorded edits, newest first. Clicking a row undoes or redoes up to it;
+ * entries past the current position (redoable) are dimmed.
+ */
+export default function HistoryPanel({ entries, index, onJump, onClose }: Props) {
+  const rowStyle = (applied: boolean, current: boolean) => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: 6,
+    padding: '2px 6px',
+    borderRadius: 4,
+    cursor: 'pointer',
+    opacity: applied ? 1 : 0.45,
+    background: current ? '#e0e7ff' : 'transparent',
+  })
+
+  return (
+    <div style={{ padding: 8, borderBottom: '1px solid #e5e7eb', background: '#f9fafb', fontSize: 12, display: 'flex', flexDirection: 'column', gap: 4, maxHeight: 220, overflowY: 'auto' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <strong>History</strong>
+        <span style={{ color: '#6b7280' }}>{entries.length} change{entries.length === 1 ? '' : 's'}</span>
+        <div style={{ flex: 1 }} />
+        <button className="toolbar-btn" onClick={onClose} title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      {[...entries].reverse().map((entry, i) => {
+        const position = entries.length - i
+        const Icon = SOURCE_ICONS[entry.source]
+        return (
+          <div key={entry.id} style={rowStyle(position <= index, position === index)} onClick={() => onJump(position)} title="Jump to this change">
+            <Icon size={12} style={{ flexShrink: 0, color: '#6b7280' }} />
+            <span style={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+              {entry.label}
+              {'newValue' in entry && (
+                <span style={{ color: '#6b7280', fontFamily: 'monospace', marginLeft: 6 }}>
+                  {formatValue(entry.oldValue)} → {formatValue(entry.newValue)}
+                </span>
+              )}
+            </span>
+            <div style={{ flex: 1 }} />
+            <span style={{ color: '#9ca3af', flexShrink: 0 }}>{formatTime(entry.timestamp)}</span>
+          </div>
+        )
+      })}
+      <div style={rowStyle(true, index === 0)} onClick={() => onJump(0)} title="Undo all changes">
+        <span style={{ color: '#6b7280', fontStyle: 'italic' }}>Opened document</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import { ChevronLeft, ChevronRight, X } from 'lucide-react'
+import { LargeFileSession } from '../hooks/useLargeFile'
+
+type Props = {
+  session: LargeFileSession
+  onPage: (page: number) => void
+  onClose: () => void
+}
+
+function formatBytes(n: number): string {
+  if (n >= 1024 * 1024 * 1024) return `${(n / 1024 / 1024 / 1024).toFixed(1)} GB`
+  if (n >= 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)} MB`
+  return `${Math.round(n / 1024)} KB`
+}
+
+/**
+ * @name LargeFileBar
+ * @description Pager and indexing progress for large-file mode.
+ */
+export default function LargeFileBar({ session, onPage, onClose }: Props) {
+  const { info, progress, page, pageSize } = session
+  const indexing = !progress?.done
+  const total = info.records
+  const from = total === 0 ? 0 : page * pageSize + 1
+  const to = Math.min(total, (page + 1) * pageSize)
+  const pct = progress ? Math.round((progress.bytesRead / Math.max(1, progress.totalBytes)) * 100) : 0
+
+  return (
+    <div style={{ padding: '4px 8px', borderBottom: '1px solid #e5e7eb', background: '#fffbeb', fontSize: 11, color: '#92400e', display: 'flex', alignItems: 'center', gap: 8 }}>
+      <span>
+        Large file ({formatBytes(info.size)}, {info.format === 'jsonl' ? 'JSONL' : 'JSON array'}), read-only
+      </span>
+      {progress?.error && (
+        <span style={{ color: '#b91c1c' }} title={progress.error}>
+          Indexing stopped: {progress.error}
+        </span>
+      )}
+      {indexing && (
+        <span style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          <span style={{ width: 120, height: 6, background: '#fde68a', borderRadius: 3, overflow: 'hidden', display: 'inline-block' }}>
+            <span style={{ width: `${pct}%`, height: '100%', background: '#d97706', display: 'block' }} />
+          </span>
+          indexing {pct}%
+        </span>
+      )}
+      <div style={{ flex: 1 }} />
+      <button className="toolbar-btn" onClick={() => onPage(page - 1)} disabled={page === 0} title="Previous page">
+        <ChevronLeft size={12} />
+      </button>
+      <span>
+        Records <strong>{from.toLocaleString()}–{to.toLocaleString()}</strong> of <strong>{total.toLocaleString()}{indexing ? '+' : ''}</strong>
+      </span>
+      <button className="toolbar-btn" onClick={() => onPage(page + 1)} disabled={to >= total} title="Next page">
+        <ChevronRight size={12} />
+      </button>
+      <button className="toolbar-btn" onClick={onClose} title="Close large file">
+        <X size={12} />
+      </button>
+    </div>
+  )
+}
@@ -1,7 +1,12 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { PlusSquare, MinusSquare, Pencil } from 'lucide-react'
 import { useGridContext } from '../context/GridContext'
 import { ComplexCell } from '../utils/deriveGridData'
+import { Matcher, displayText, pathKey } from '../utils/deepSearch'
+import CellEditor from './CellEditor'
+import ContextMenu, { ContextMenuItem, ContextMenuState } from './ContextMenu'
+import { keyMenuItems, rowMenuItems } from './gridMenuItems'
+import { newRecordLike } from '../utils/structuralEdits'
 
 type Props = {
     data: unknown
@@ -11,12 +16,56 @@ type Props = {
     path?: (string | number)[]
 }
 
+/**
+ * @name highlightMatches
+ * @description Wraps every search match in `text` with a <mark>.
+ */
+function highlightMatches(text: string, matcher: Matcher, active: boolean): React.ReactNode {
+    const ranges = matcher.ranges(text)
+    if (ranges.length === 0) return text
+    const parts: React.ReactNode[] = []
+    let last = 0
+    ranges.forEach(([start, end], i) => {
+        if (start > last) parts.push(text.slice(last, start))
+        parts.push(<mark key={i} className={active ? 'search-hit active' : 'search-hit'}>{text.slice(start, end)}</mark>)
+        last = end
+    })
+    if (last < text.length) parts.push(text.slice(last))
+    return parts
+}
+
 const NestedGrid: React.FC<Props> = ({ data, name, depth = 0, isRoot = false, path = [] }) => {
-    const { expandAllToken, collapseAllToken, onEditValue } = useGridContext()
+    const { expandAllToken, collapseAllToken, onEditValue, search, readOnly, selection, onSelectCell, onStructuralEdit, validation } = useGridContext()
     const [isExpanded, setIsExpanded] = useState(false)
     const [isHovered, setIsHovered] = useState(false)
     const [isEditing, setIsEditing] = useState(false)
-    const [editValue, setEditValue] = useState<string | null>(null)
+    const [menu, setMenu] = useState<ContextMenuState | null>(null)
+    const closeMenu = useCallback(() => setMenu(null), [])
+    const cellRef = useRef<HTMLDivElement>(null)
+
+    const key = pathKey(path)
+    const isHit = search.hitKeys.has(key)
+    const isActiveHit = search.activeKey === key
+    const isSelected = selection.key === key
+    /** Schema messages for this value, or for values inside it when collapsed */
+    const invalidMessage = validation.errorKeys.get(key)
+    const containsInvalid = validation.ancestorKeys.has(key)
+
+    // Auto-expand cells that contain search hits or the editor selection
+    useEffect(() => {
+        if (search.ancestorKeys.has(key)) setIsExpanded(true)
+    }, [search.ancestorKeys, key])
+
+    useEffect(() => {
+        if (selection.ancestorKeys.has(key)) setIsExpanded(true)
+    }, [selection.ancestorKeys, key])
+
+    // Bring the hit selected with next/previous (or the editor selection) into view
+    useEffect(() => {
+        if (isActiveHit || (isSelected && selection.reveal)) {
+            cellRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest' })
+        }
+    }, [isActiveHit, isSelected, selection.reveal])
 
     // Effect to handle global expand/collapse signals
     useEffect(() => {
@@ -54,63 +103,40 @@ const NestedGrid: React.FC<Props> = ({ data, name, depth = 0, isRoot = false, pa
         }
     }
 
-    // If it's a primitive value, render it in an input box with edit icon
+    // If it's a primitive value, render it with an edit icon; clicking opens the typed editor
     if (!isComplex) {
-        const strValue = String(actualData ?? '')
-        const displayValue = editValue !== null ? editValue : strValue
+        const strValue = displayText(actualData)
         const isString = typeof actualData === 'string'
         const color = isString ? '#059669' : (typeof actualData === 'number' || typeof actualData === 'boolean' ? '#d97706' : '#374151')
 
         if (isEditing) {
             return (
-                <div className="value-cell-edit" style={{ width: '100%', padding: '2px' }}>
-                    <input
-                        autoFocus
-                        value={displayValue}
-                        onChange={(e) => setEditValue(e.target.value)}
-                        onBlur={() => {
-                            if (editValue !== null && editValue !== strValue) {
-                                onEditValue(path, editValue)
-                            }
-                            setIsEditing(false)
-                            setEditValue(null)
-                        }}
-                        onKeyDown={(e) => {
-                            if (e.key === 'Enter') {
-                                e.currentTarget.blur()
-                            } else if (e.key === 'Escape') {
-                                setEditValue(null)
-                                setIsEditing(false)
-                            }
-                        }}
-                        style={{
-                            width: '100%',
-                            padding: '2px 4px',
-                            border: '1px solid #3b82f6',
-                            borderRadius: 4,
-                            outline: 'none',
-                            fontFamily: 'monospace',
-                            fontSize: 12,
-                            background: 'white',
-                            color: '#1f2937'
-                        }}
-                    />
-                </div>
+                <CellEditor
+                    value={actualData}
+                    onCommit={(next) => {
+                        setIsEditing(false)
+                        if (JSON.stringify(next) !== JSON.stringify(actualData)) onEditValue(path, next)
+                    }}
+                    onCancel={() => setIsEditing(false)}
+                />
             )
         }
 
         return (
             <div
-                className="value-cell-view"
+                ref={cellRef}
+                className={`value-cell-view${isSelected ? ' grid-cell-selected' : ''}${invalidMessage ? ' grid-cell-invalid' : ''}`}
+                title={invalidMessage}
                 onClick={() => {
-                    setEditValue(strValue)
+                    onSelectCell(path)
+                    if (readOnly) return
                     setIsEditing(true)
                 }}
                 style={{
                     display: 'flex',
                     alignItems: 'center',
                     gap: 6,
-                    cursor: 'pointer',
+                    cursor: readOnly ? 'default' : 'pointer',
                     padding: '4px 8px',
                     minHeight: 24,
                     width: 'fit-content',
@@ -123,9 +149,9 @@ const NestedGrid: React.FC<Props> = ({ data, name, depth = 0, isRoot = false, pa
                     fontSize: 12,
                     wordBreak: 'break-word'
                 }}>
-                    {strValue}
+                    {isHit && search.matcher ? highlightMatches(strValue, search.matcher, isActiveHit) : strValue}
                 </span>
-                <Pencil
+                {!readOnly && <Pencil
                     size={12}
                     className="edit-icon"
                     style={{
@@ -134,7 +160,7 @@ const NestedGrid: React.FC<Props> = ({ data, name, depth = 0, isRoot = false, pa
                         transition: 'opacity 0.2s',
                         flexShrink: 0
                     }}
-                />
+                />}
                 <style>{`
                     .value-cell-view:hover .edit-icon { opacity: 1 !important; }
                 `}</style>
@@ -157,8 +183,19 @@ const NestedGrid: React.FC<Props> = ({ data, name, depth = 0, isRoot = false, pa
         }
     }
 
+    /** Opens a menu for this nested container; stops the event so outer rows keep their own menu */
+    const openMenu = (e: React.MouseEvent, items: ContextMenuItem[]) => {
+        e.stopPropagation()
+        if (readOnly) return
+        e.preventDefault()
+        setMenu({ x: e.clientX, y: e.clientY, items })
+    }
+
+    const arrayLength = Array.isArray(actualData) ? actualData.length : 0
+
     const handleToggle = (e: React.MouseEvent) => {
         e.stopPropagation()
+        onSelectCell(path)
         setIsExpanded(!isExpanded)
     }
 
@@ -166,7 +203,13 @@ const NestedGrid: React.FC<Props> = ({ data, name, depth = 0, isRoot = false, pa
         <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-start', width: '100%' }}>
             {/* Header / Expander */}
             <div
+                ref={cellRef}
+                className={[isSelected && 'grid-cell-selected', invalidMessage && 'grid-cell-invalid'].filter(Boolean).join(' ') || undefined}
+                title={invalidMessage ?? (containsInvalid ? 'Contains values that fail the schema' : undefined)}
                 onClick={handleToggle}
+                onContextMenu={(e) => openMenu(e, Array.isArray(actualData)
+                    ? [{ label: 'Append row', onSelect: () => onStructuralEdit({ type: 'insertRow', path, index: arrayLength, value: newRecordLike(isArrayOfObjects ? allKeys : null) }) }]
+                    : keyMenuItems(onStructuralEdit, path, null, false))}
                 onMouseEnter={() => setIsHovered(true)}
                 onMouseLeave={() => setIsHovered(false)}
                 style={{
@@ -184,7 +227,7 @@ const NestedGrid: React.FC<Props> = ({ data, name, depth = 0, isRoot = false, pa
                 {isExpanded ? <MinusSquare size={14} /> : <PlusSquare size={14} />}
                 <span style={{ color: '#1f2937' }}>
                     {name && <span style={{ color: '#374151', marginRight: 4 }}>{name}</span>}
-                    <span style={{ color: '#6b7280', fontWeight: 400 }}>{typeLabel} {summary}</span>
+                    <span style={{ color: containsInvalid ? '#dc2626' : '#6b7280', fontWeight: 400 }}>{typeLabel} {summary}</span>
                 </span>
             </div>
 
@@ -202,12 +245,17 @@ const NestedGrid: React.FC<Props> = ({ data, name, depth = 0, isRoot = false, pa
                 }}>
                     {isArrayOfObjects ? (
                         // Smart Table View for Array of Objects
-                        <table style={{ width: 'max-content', minWidth: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+                        <table className="nested-table" style={{ width: 'max-content', minWidth: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
                             <thead>
                                 <tr style={{ background: '#f3f4f6', borderBottom: '1px solid #e5e7eb' }}>
-                                    <th style={{ padding: '6px 10px', textAlign: 'left', color: '#6b7280', width: 40, borderRight: '1px solid #e5e7eb', whiteSpace: 'nowrap' }}>#</th>
+                                    <th
+                                        onContextMenu={(e) => openMenu(e, keyMenuItems(onStructuralEdit, path, null, true))}
+                                        style={{ padding: '6px 10px', textAlign: 'left', color: '#6b7280', width: 40, borderRight: '1px solid #e5e7eb', whiteSpace: 'nowrap' }}
+                                    >
+                                        #
+                                    </th>
                                     {allKeys.map(key => (
-                                        <th key={key} style={{ padding: '6px 10px', textAlign: 'left', color: '#374151', fontWeight: 600, borderRight: '1px solid #e5e7eb', whiteSpace: 'nowrap' }}>
+                                        <th key={key} onContextMenu={(e) => openMenu(e, keyMenuItems(onStructuralEdit, path, key, true))} style={{ padding: '6px 10px', textAlign: 'left', color: '#374151', fontWeight: 600, borderRight: '1px solid #e5e7eb', whiteSpace: 'nowrap' }}>
                                             {key}
                                         </th>
                                     ))}
@@ -215,7 +263,11 @@ const NestedGrid: React.FC<Props> = ({ data, name, depth = 0, isRoot = false, pa
                             </thead>
                             <tbody>
                                 {(actualData as any[]).map((item, index) => (
-                                    <tr key={index} style={{ borderBottom: index < (actualData as any[]).length - 1 ? '1px solid #e5e7eb' : 'none' }}>
+                                    <tr
+                                        key={index}
+                                        onContextMenu={(e) => openMenu(e, rowMenuItems(onStructuralEdit, path, index, arrayLength, allKeys))}
+                                        style={{ borderBottom: index < (actualData as any[]).length - 1 ? '1px solid #e5e7eb' : 'none' }}
+                                    >
                                         <td style={{ padding: '6px 10px', color: '#9ca3af', borderRight: '1px solid #e5e7eb', fontFamily: 'monospace' }}>
                                             {index}
                                         </td>
@@ -232,12 +284,20 @@ const NestedGrid: React.FC<Props> = ({ data, name, depth = 0, isRoot = false, pa
                         </table>
                     ) : (
                         // Standard Key-Value View
-                        <table style={{ width: 'max-content', minWidth: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+                        <table className="nested-table" style={{ width: 'max-content', minWidth: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
                             <tbody>
                                 {Object.keys(actualData as object).map((key, index, arr) => {
                                     const value = (actualData as any)[key]
+                                    // Arrays of primitives list their items here; objects list their keys
+                                    const menuItems = Array.isArray(actualData)
+                                        ? rowMenuItems(onStructuralEdit, path, index, arrayLength, null)
+                                        : keyMenuItems(onStructuralEdit, path, key, false)
                                     return (
-                                        <tr key={key} style={{ borderBottom: index < arr.length - 1 ? '1px solid #e5e7eb' : 'none' }}>
+                                        <tr
+                                            key={key}
+                                            onContextMenu={(e) => openMenu(e, menuItems)}
+                                            style={{ borderBottom: index < arr.length - 1 ? '1px solid #e5e7eb' : 'none' }}
+                                        >
                                             <td style={{
                                                 width: '120px',
                                                 padding: '6px 10px',
@@ -264,6 +324,7 @@ const NestedGrid: React.FC<Props> = ({ data, name, depth = 0, isRoot = false, pa
                     )}
                 </div>
             )}
+            <ContextMenu menu={menu} onClose={closeMenu} />
         </div>
     )
 }
@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react'
+import { X } from 'lucide-react'
+import { GridRow } from '../utils/deriveGridData'
+import { AGGREGATES, AggregateKind, defaultAggregate, formatAggregate } from '../utils/gridAggregates'
+import { EXPORT_FORMATS, exportRecords } from '../utils/exporters'
+import { MAX_PIVOT_COLUMNS, PivotArea, PivotConfig, buildPivot, measureLabel, movePivotField, pivotToRecords } from '../utils/pivot'
+import ExportDialog, { ExportSettings } from './ExportDialog'
+
+type Props = {
+  /** Rows of the current view (search and filters applied) */
+  rows: GridRow[]
+  /** Fields that can be pivoted on: the grid's column keys */
+  fields: string[]
+  config: PivotConfig
+  onChange: (config: PivotConfig) => void
+}
+
+/** What is being dragged: a field from the list (from = null) or a chip from an area */
+type DragItem = { field: string; from: { area: PivotArea; index: number } | null }
+
+const AREAS: { area: PivotArea; label: string; hint: string }[] = [
+  { area: 'rows', label: 'Rows', hint: 'Drop fields to make rows' },
+  { area: 'columns', label: 'Columns', hint: 'Drop fields to make columns' },
+  { area: 'values', label: 'Values', hint: 'Drop fields to aggregate (rows are counted otherwise)' },
+]
+
+/** Rendering stops here; exports still include every row */
+const MAX_RENDERED_ROWS = 1000
+
+const chipStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: 4,
+  padding: '2px 6px',
+  border: '1px solid #d1d5db',
+  borderRadius: 4,
+  background: 'white',
+  cursor: 'grab',
+  fontSize: 12,
+  whiteSpace: 'nowrap',
+}
+
+const selectStyle = { fontSize: 11, padding: '0 2px', border: '1px solid #d1d5db', borderRadius: 4, background: 'white', color: '#374151' }
+
+const headerCellStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  borderBottom: '1px solid #e5e7eb',
+  borderRight: '1px solid #e5e7eb',
+  fontSize: 12,
+  fontWeight: 600,
+  color: '#374151',
+  textAlign: 'left',
+  whiteSpace: 'nowrap',
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  borderBottom: '1px solid #f3f4f6',
+  borderRight: '1px solid #f3f4f6',
+  fontSize: 13,
+  whiteSpace: 'nowrap',
+}
+
+/**
+ * @name PivotView
+ * @description Cross-tab of the grid's rows: fields are dragged into the row, column and value
+ * areas, values get an aggregate, and the result can be exported like the grid.
+ */
+export default function PivotView({ rows, fields, config, onChange }: Props) {
+  const [drag, setDrag] = useState<DragItem | null>(null)
+  const [dropArea, setDropArea] = useState<PivotArea | 'fields' | null>(null)
+  const [showExport, setShowExport] = useState(false)
+
+  const pivot = useMemo(() => buildPivot(rows, config), [rows, config])
+
+  const drop = (to: PivotArea | 'fields', index?: number) => {
+    setDropArea(null)
+    if (!drag) return
+    setDrag(null)
+    if (to === 'fields') {
+      // Dropping a chip back on the field list takes it out of its area
+      if (drag.from) onChange(removeFromArea(config, drag.from.area, drag.from.index))
+      return
+    }
+    const aggregate: AggregateKind = defaultAggregate(rows, drag.field) === 'sum' ? 'sum' : 'count'
+    onChange(movePivotField(config, drag.field, drag.from, to, index, aggregate))
+  }
+
+  const dropTarget = (to: PivotArea | 'fields') => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!drag) return
+      e.preventDefault()
+      setDropArea(to)
+    },
+    onDragLeave: () => setDropArea((a) => (a === to ? null : a)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault()
+      drop(to)
+    },
+  })
+
+  const dragSource = (item: DragItem) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      // Firefox only starts a drag with data set
+      e.dataTransfer.setData('text/plain', item.field)
+      e.dataTransfer.effectAllowed = 'move'
+      setDrag(item)
+    },
+    onDragEnd: () => {
+      setDrag(null)
+      setDropArea(null)
+    },
+  })
+
+  const setAggregate = (index: number, aggregate: AggregateKind) =>
+    onChange({ ...config, values: config.values.map((v, i) => (i === index ? { ...v, aggregate } : v)) })
+
+  const handleExport = async (settings: ExportSettings): Promise<string | null> => {
+    if (!window.api) throw new Error('Export needs the desktop app')
+    const { columns, records } = pivotToRecords(pivot)
+    const text = exportRecords(records, columns, settings)
+    const { label, extension } = EXPORT_FORMATS[settings.format]
+    const res = await window.api.exportFile({ text, defaultName: `pivot.${extension}`, extension, formatName: label })
+    return res?.filePath ?? null
+  }
+
+  // Header layout: one row per column field, plus a row naming the measures when there are
+  // several (or no column fields to head the cells)
+  const levels = pivot.columnFields.length
+  const measureRow = pivot.measures.length > 1 || levels === 0
+  const headerRows = Math.max(1, levels + (measureRow ? 1 : 0))
+  const shownRows = pivot.rows.slice(0, MAX_RENDERED_ROWS)
+
+  /** Column keys grouped by their labels up to `level`, for colSpans */
+  const spans = (level: number) => {
+    const out: { label: string; count: number }[] = []
+    let previous: string | null = null
+    for (const key of pivot.columnKeys) {
+      const prefix = JSON.stringify(key.slice(0, level + 1))
+      if (prefix === previous) out[out.length - 1].count++
+      else out.push({ label: key[level], count: 1 })
+      previous = prefix
+    }
+    return out
+  }
+
+  const rowFieldHeaders = (pivot.rowFields.length ? pivot.rowFields : ['']).map((f, i) => (
+    <th key={`row-${i}`} rowSpan={headerRows} style={{ ...headerCellStyle, background: '#e5e7eb' }}>{f}</th>
+  ))
+
+  return (
+    <div style={{ height: '100%', display: 'flex', flexDirection: 'column', boxSizing: 'border-box' }}>
+      <div style={{ padding: 8, borderBottom: '1px solid #e5e7eb', background: '#f9fafb', fontSize: 12, display: 'flex', flexDirection: 'column', gap: 6 }}>
+        <div
+          {...dropTarget('fields')}
+          style={{ display: 'flex', alignItems: 'center', gap: 4, flexWrap: 'wrap', borderRadius: 4, outline: dropArea === 'fields' ? '2px dashed #93c5fd' : 'none' }}
+        >
+          <span style={{ color: '#6b7280', width: 56, flexShrink: 0 }}>Fields</span>
+          {fields.map((field) => (
+            <span key={field} {...dragSource({ field, from: null })} style={chipStyle} title="Drag into Rows, Columns or Values">
+              {field}
+            </span>
+          ))}
+        </div>
+        {AREAS.map(({ area, label, hint }) => (
+          <div
+            key={area}
+            {...dropTarget(area)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 4,
+              flexWrap: 'wrap',
+              minHeight: 26,
+              padding: '2px 4px',
+              border: `1px dashed ${dropArea === area ? '#3b82f6' : '#d1d5db'}`,
+              borderRadius: 4,
+              background: dropArea === area ? '#eff6ff' : 'white',
+            }}
+          >
+            <span style={{ color: '#6b7280', width: 52, flexShrink: 0 }}>{label}</span>
+            {area === 'values'
+              ? config.values.map((v, i) => (
+                <span
+                  key={i}
+                  {...dragSource({ field: v.field, from: { area, index: i } })}
+                  onDrop={(e) => {
+                    e.preventDefault()
+                    e.stopPropagation()
+                    drop(area, i)
+                  }}
+                  style={chipStyle}
+                >
+                  <select value={v.aggregate} onChange={(e) => setAggregate(i, e.target.value as AggregateKind)} style={selectStyle}>
+                    {Object.entries(AGGREGATES).map(([value, name]) => (
+                      <option key={value} value={value}>{name}</option>
+                    ))}
+                  </select>
+                  {v.field}
+                  <X size={12} style={{ cursor: 'pointer' }} onClick={() => onChange(removeFromArea(config, area, i))} />
+                </span>
+              ))
+              : config[area].map((field, i) => (
+                <span
+                  key={field}
+                  {...dragSource({ field, from: { area, index: i } })}
+                  onDrop={(e) => {
+                    e.preventDefault()
+                    e.stopPropagation()
+                    drop(area, i)
+                  }}
+                  style={chipStyle}
+                >
+                  {field}
+                  <X size={12} style={{ cursor: 'pointer' }} onClick={() => onChange(removeFromArea(config, area, i))} />
+                </span>
+              ))}
+            {(area === 'values' ? config.values.length : config[area].length) === 0 && (
+              <span style={{ color: '#9ca3af' }}>{hint}</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Info bar */}
+      <div style={{
+        padding: '4px 8px',
+        background: '#f9fafb',
+        borderBottom: '1px solid #e5e7eb',
+        fontSize: 11,
+        color: '#6b7280',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 12
+      }}>
+        <span>Records: <strong>{rows.length}</strong></span>
+        <span>Pivot rows: <strong>{pivot.rows.length}</strong></span>
+        <span>Pivot columns: <strong>{pivot.columnKeys.length}</strong></span>
+        {pivot.truncatedColumns && <span style={{ color: '#b45309' }}>Only the first {MAX_PIVOT_COLUMNS} column values are shown</span>}
+        {pivot.rows.length > MAX_RENDERED_ROWS && <span style={{ color: '#b45309' }}>Showing {MAX_RENDERED_ROWS} rows; exports include all</span>}
+        <span style={{ marginLeft: 'auto', cursor: 'pointer', color: '#3b82f6' }} onClick={() => setShowExport((v) => !v)}>
+          Export…
+        </span>
+      </div>
+
+      {showExport && <ExportDialog onExport={handleExport} onClose={() => setShowExport(false)} disabled={!window.api} />}
+
+      <div style={{ overflow: 'auto', flex: 1, background: 'white' }}>
+        <table style={{ borderSpacing: 0 }}>
+          <thead style={{ background: '#f3f4f6', position: 'sticky', top: 0, zIndex: 1 }}>
+            {Array.from({ length: headerRows }, (_, level) => {
+              const isMeasureRow = measureRow && level === headerRows - 1
+              return (
+                <tr key={level}>
+                  {level === 0 && rowFieldHeaders}
+                  {isMeasureRow
+                    ? [...pivot.columnKeys, ...(levels ? [null] : [])].flatMap((key, k) =>
+                      pivot.measures.map((m, i) => (
+                        <th key={`${k}-${i}`} style={headerCellStyle}>{measureLabel(m)}</th>
+                      )))
+                    : spans(level).map((s, i) => (
+                      <th key={i} colSpan={s.count * pivot.measures.length} style={headerCellStyle}>
+                        <span style={{ color: '#9ca3af', fontWeight: 400 }}>{pivot.columnFields[level]}: </span>
+                        {s.label}
+                      </th>
+                    ))}
+                  {level === 0 && levels > 0 && (
+                    <th rowSpan={levels} colSpan={pivot.measures.length} style={{ ...headerCellStyle, background: '#e5e7eb' }}>Total</th>
+                  )}
+                </tr>
+              )
+            })}
+          </thead>
+          <tbody>
+            {shownRows.map((row, r) => {
+              // Repeated outer labels are left blank, as in a spreadsheet pivot
+              const previous = r > 0 ? shownRows[r - 1].labels : null
+              const firstNew = previous ? row.labels.findIndex((l, i) => l !== previous[i]) : 0
+              return (
+                <tr key={r} style={{ background: r % 2 === 0 ? 'white' : '#f9fafb' }}>
+                  {(row.labels.length ? row.labels : ['']).map((label, i) => (
+                    <td key={`label-${i}`} style={{ ...cellStyle, fontWeight: 500 }}>
+                      {firstNew >= 0 && i >= firstNew ? label : ''}
+                    </td>
+                  ))}
+                  {row.cells.map((value, i) => (
+                    <td key={i} style={{ ...cellStyle, textAlign: 'right' }}>{formatAggregate(value)}</td>
+                  ))}
+                </tr>
+              )
+            })}
+          </tbody>
+          {pivot.rowFields.length > 0 && (
+            <tfoot style={{ background: '#f3f4f6', position: 'sticky', bottom: 0 }}>
+              <tr>
+                {pivot.rowFields.map((_, i) => (
+                  <td key={`label-${i}`} style={{ ...cellStyle, fontWeight: 600, borderTop: '1px solid #e5e7eb' }}>{i === 0 ? 'Total' : ''}</td>
+                ))}
+                {pivot.totals.map((value, i) => (
+                  <td key={i} style={{ ...cellStyle, textAlign: 'right', fontWeight: 600, borderTop: '1px solid #e5e7eb' }}>{formatAggregate(value)}</td>
+                ))}
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  )
+}
+
+function removeFromArea(config: PivotConfig, area: PivotArea, index: number): PivotConfig {
+  return area === 'values'
+    ? { ...config, values: config.values.filter((_, i) => i !== index) }
+    : { ...config, [area]: config[area].filter((_, i) => i !== index) }
+}
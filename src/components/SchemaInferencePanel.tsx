@@ -0,0 +1,88 @@
+import { useMemo, useState } from 'react'
+import { Check, Copy, X } from 'lucide-react'
+import { SCHEMA_OUTPUTS, SchemaOutput, generateSchema } from '../utils/schemaInference'
+
+type Props = {
+  /** The whole parsed document; null when it does not parse */
+  document: { value: unknown } | null
+  /** The array shown in the grid, with its JSONPath */
+  selected: { value: unknown; path: string; name: string } | null
+  onClose: () => void
+}
+
+const selectStyle = { fontSize: 12, padding: '2px 4px', border: '1px solid #d1d5db', borderRadius: 4, background: 'white' }
+
+/**
+ * @name SchemaInferencePanel
+ * @description Infers a schema from the grid's array or the whole document and shows it as
+ * JSON Schema, TypeScript or Zod, ready to copy.
+ */
+export default function SchemaInferencePanel({ document, selected, onClose }: Props) {
+  const [scope, setScope] = useState<'selected' | 'document'>(selected ? 'selected' : 'document')
+  const [output, setOutput] = useState<SchemaOutput>('typescript')
+  const [name, setName] = useState('')
+  const [copied, setCopied] = useState(false)
+
+  const source = scope === 'selected' && selected ? selected.value : document?.value
+  const rootName = name.trim() || (scope === 'selected' && selected ? selected.name : 'Root')
+
+  const code = useMemo(() => {
+    if (source === undefined) return null
+    try {
+      return generateSchema(source, output, rootName)
+    } catch (e) {
+      console.error('Schema inference failed:', e)
+      return null
+    }
+  }, [source, output, rootName])
+
+  const copy = async () => {
+    if (!code) return
+    await navigator.clipboard.writeText(code)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 1500)
+  }
+
+  return (
+    <div style={{ padding: 8, borderBottom: '1px solid #e5e7eb', background: '#f9fafb', fontSize: 12, display: 'flex', flexDirection: 'column', gap: 8, maxHeight: 420 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <strong>Infer schema</strong>
+        <div style={{ flex: 1 }} />
+        <button className="toolbar-btn" onClick={onClose} title="Close">
+          <X size={14} />
+        </button>
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          From
+          <select value={scope} onChange={(e) => setScope(e.target.value as 'selected' | 'document')} style={selectStyle}>
+            <option value="selected" disabled={!selected}>Grid array{selected ? ` (${selected.path})` : ''}</option>
+            <option value="document">Whole document</option>
+          </select>
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          As
+          <select value={output} onChange={(e) => setOutput(e.target.value as SchemaOutput)} style={selectStyle}>
+            {Object.entries(SCHEMA_OUTPUTS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          Name
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder={rootName} style={{ ...selectStyle, width: 120 }} />
+        </label>
+        <button className="toolbar-btn" onClick={copy} disabled={!code}>
+          {copied ? <Check size={14} /> : <Copy size={14} />} {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      {code ? (
+        <pre style={{ margin: 0, padding: 6, background: 'white', border: '1px solid #e5e7eb', borderRadius: 4, overflow: 'auto', fontSize: 11, flex: 1, minHeight: 0 }}>
+          {code}
+        </pre>
+      ) : (
+        <span style={{ color: '#6b7280' }}>Nothing to infer: the document does not parse.</span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+import { Ref } from 'react'
+import { ChevronUp, ChevronDown, Search, CaseSensitive, Regex } from 'lucide-react'
+import { SearchHit, SearchOptions, summarizeHits } from '../utils/deepSearch'
+
+type Props = {
+  options: SearchOptions
+  onChange: (options: SearchOptions) => void
+  hits: SearchHit[]
+  truncated: boolean
+  error: string | null
+  activeIndex: number
+  /** Select a hit by its index in `hits` */
+  onNavigate: (index: number) => void
+  /** The query input, for the search command to focus */
+  inputRef?: Ref<HTMLInputElement>
+}
+
+/**
+ * @name SearchBar
+ * @description Deep search input with case/regex toggles, an "n of m" counter,
+ * next/previous navigation and a summary of the field paths that matched.
+ */
+export default function SearchBar({ options, onChange, hits, truncated, error, activeIndex, onNavigate, inputRef }: Props) {
+  const count = hits.length
+  const step = (delta: number) => {
+    if (count === 0) return
+    onNavigate((activeIndex + delta + count) % count)
+  }
+  const fields = summarizeHits(hits)
+
+  return (
+    <div className="search-container" style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+      <Search size={14} className="search-icon" />
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder="Search..."
+        className="search-input"
+        value={options.query}
+        onChange={(e) => onChange({ ...options, query: e.target.value })}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') step(e.shiftKey ? -1 : 1)
+        }}
+        style={error ? { borderColor: '#f87171' } : undefined}
+        title={error ?? undefined}
+      />
+      <button
+        className={`toolbar-btn${options.caseSensitive ? ' active' : ''}`}
+        onClick={() => onChange({ ...options, caseSensitive: !options.caseSensitive })}
+        title="Match case"
+      >
+        <CaseSensitive size={14} />
+      </button>
+      <button
+        className={`toolbar-btn${options.regex ? ' active' : ''}`}
+        onClick={() => onChange({ ...options, regex: !options.regex })}
+        title="Use regular expression"
+      >
+        <Regex size={14} />
+      </button>
+      {options.query && (
+        <>
+          <span style={{ fontSize: 11, color: error ? '#dc2626' : '#6b7280', whiteSpace: 'nowrap' }}>
+            {error ? 'Invalid regex' : count === 0 ? 'No results' : `${activeIndex + 1} of ${count}${truncated ? '+' : ''}`}
+          </span>
+          <button className="toolbar-btn" onClick={() => step(-1)} disabled={count === 0} title="Previous match (Shift+Enter)">
+            <ChevronUp size={14} />
+          </button>
+          <button className="toolbar-btn" onClick={() => step(1)} disabled={count === 0} title="Next match (Enter)">
+            <ChevronDown size={14} />
+          </button>
+          {fields.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => onNavigate(Number(e.target.value))}
+              title="Fields that matched"
+              style={{ fontSize: 11, maxWidth: 160, border: '1px solid #d1d5db', borderRadius: 4 }}
+            >
+              <option value="" disabled>
+                {fields.length} matched path{fields.length === 1 ? '' : 's'}
+              </option>
+              {fields.map((f) => (
+                <option key={f.fieldPath} value={f.first}>
+                  {f.fieldPath} ({f.count})
+                </option>
+              ))}
+            </select>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
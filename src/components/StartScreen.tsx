@@ -0,0 +1,77 @@
+import { FileJson, FilePlus, FolderOpen, History } from 'lucide-react'
+
+type Props = {
+  recentFiles: string[]
+  /** False without the desktop bridge: files cannot be opened */
+  canOpen: boolean
+  onNew: () => void
+  onOpen: () => void
+  onOpenRecent: (filePath: string) => void
+  onSample: () => void
+  onClearRecent: () => void
+}
+
+const splitPath = (filePath: string) => {
+  const at = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'))
+  return { name: filePath.slice(at + 1), folder: filePath.slice(0, Math.max(at, 0)) }
+}
+
+/**
+ * @name StartScreen
+ * @description Shown when no document is open: new, open, the sample and recent files.
+ */
+export default function StartScreen({ recentFiles, canOpen, onNew, onOpen, onOpenRecent, onSample, onClearRecent }: Props) {
+  return (
+    <div style={{ flex: 1, overflow: 'auto', display: 'flex', justifyContent: 'center', alignItems: 'flex-start', padding: '64px 16px' }}>
+      <div style={{ width: 520, maxWidth: '100%', display: 'flex', flexDirection: 'column', gap: 24 }}>
+        <div>
+          <div style={{ fontSize: 20, fontWeight: 600, color: '#1f2937' }}>Start</div>
+          <div style={{ display: 'flex', gap: 8, marginTop: 12 }}>
+            <button className="toolbar-btn" onClick={onNew} title="New document (⌘/Ctrl+N)">
+              <FilePlus size={14} /> New
+            </button>
+            <button className="toolbar-btn" onClick={onOpen} disabled={!canOpen} title="Open (⌘/Ctrl+O)">
+              <FolderOpen size={14} /> Open…
+            </button>
+            <button className="toolbar-btn" onClick={onSample}>
+              <FileJson size={14} /> Sample
+            </button>
+          </div>
+          <div style={{ marginTop: 8, fontSize: 12, color: '#6b7280' }}>You can also drop files onto the window.</div>
+        </div>
+
+        <div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 14, fontWeight: 600, color: '#1f2937' }}>
+            <History size={14} /> Recent
+            <div style={{ flex: 1 }} />
+            {recentFiles.length > 0 && (
+              <button
+                onClick={onClearRecent}
+                style={{ background: 'none', border: 'none', color: '#3b82f6', fontSize: 12, fontWeight: 400, cursor: 'pointer', padding: 0 }}
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          {recentFiles.length === 0 ? (
+            <div style={{ marginTop: 8, fontSize: 12, color: '#6b7280' }}>Files you open or save show up here.</div>
+          ) : (
+            <ul style={{ listStyle: 'none', margin: '8px 0 0', padding: 0, display: 'flex', flexDirection: 'column', gap: 2 }}>
+              {recentFiles.map((filePath) => {
+                const { name, folder } = splitPath(filePath)
+                return (
+                  <li key={filePath}>
+                    <button className="recent-file" onClick={() => onOpenRecent(filePath)} title={filePath}>
+                      <span style={{ color: '#2563eb', whiteSpace: 'nowrap' }}>{name}</span>
+                      <span style={{ color: '#6b7280', fontSize: 11, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{folder}</span>
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { DocumentTab, tabLabel } from '../hooks/useTabs'
+
+type Props = {
+  tabs: DocumentTab[]
+  activeId: string
+  onActivate: (id: string) => void
+  onClose: (id: string) => void
+  onMove: (from: number, to: number) => void
+  onNew: () => void
+}
+
+/**
+ * @name TabBar
+ * @description Open documents as tabs: click to switch, drag to reorder, middle-click or × to close.
+ */
+export default function TabBar({ tabs, activeId, onActivate, onClose, onMove, onNew }: Props) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+
+  return (
+    <div className="tab-bar">
+      {tabs.map((tab, index) => (
+        <div
+          key={tab.id}
+          className={`tab${tab.id === activeId ? ' active' : ''}`}
+          title={tab.status.filePath ?? tab.untitledName}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move'
+            setDragIndex(index)
+          }}
+          onDragOver={(e) => {
+            if (dragIndex === null) return
+            e.preventDefault()
+            e.dataTransfer.dropEffect = 'move'
+          }}
+          onDrop={(e) => {
+            e.preventDefault()
+            if (dragIndex !== null) onMove(dragIndex, index)
+            setDragIndex(null)
+          }}
+          onDragEnd={() => setDragIndex(null)}
+          onMouseDown={(e) => {
+            if (e.button === 1) e.preventDefault()
+          }}
+          onMouseUp={(e) => {
+            if (e.button === 1) onClose(tab.id)
+          }}
+          onClick={() => onActivate(tab.id)}
+        >
+          <span className="tab-label">{tabLabel(tab)}</span>
+          {tab.status.dirty && <span className="tab-dirty" title="Unsaved changes">●</span>}
+          <button
+            className="tab-close"
+            onClick={(e) => {
+              e.stopPropagation()
+              onClose(tab.id)
+            }}
+            title="Close"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+      <button className="tab-new" onClick={onNew} title="New document (⌘/Ctrl+N)">
+        <Plus size={14} />
+      </button>
+    </div>
+  )
+}
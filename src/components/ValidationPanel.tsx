@@ -0,0 +1,179 @@
+import { useState } from 'react'
+import { AlertCircle, CheckCircle, Download, FolderOpen, Plus, RefreshCw, Trash2, X } from 'lucide-react'
+import type { SchemaMapping } from '../../electron/typings/ipc'
+import type { ActiveSchema } from '../hooks/useSchema'
+import { MAX_SCHEMA_ERRORS, SchemaError } from '../utils/schemaValidation'
+
+type Props = {
+  active: ActiveSchema | null
+  /** Schema loading or compile error */
+  error: string | null
+  /** null when there is nothing to validate (no schema, or the document does not parse) */
+  errors: SchemaError[] | null
+  /** The document's remote `$schema`, not loaded until the user allows it */
+  pendingRemote: string | null
+  onAllowRemote: () => void
+  mappings: SchemaMapping[]
+  onMappingsChange: (mappings: SchemaMapping[]) => void
+  onChooseFile: () => void
+  onClearFile: () => void
+  onReload: () => void
+  onSelectError: (error: SchemaError) => void
+  onClose: () => void
+}
+
+const ORIGIN_LABELS: Record<ActiveSchema['origin'], string> = {
+  file: 'Chosen file',
+  document: 'From $schema',
+  settings: 'From filename mapping',
+}
+
+const inputStyle = { fontSize: 12, padding: '2px 4px', border: '1px solid #d1d5db', borderRadius: 4, background: 'white', minWidth: 0 }
+
+/**
+ * @name ValidationPanel
+ * @description JSON Schema status for the document: where the schema came from, the errors
+ * with their JSON pointers (click to locate), and the filename-glob mappings from settings.
+ */
+export default function ValidationPanel({
+  active,
+  error,
+  errors,
+  pendingRemote,
+  onAllowRemote,
+  mappings,
+  onMappingsChange,
+  onChooseFile,
+  onClearFile,
+  onReload,
+  onSelectError,
+  onClose,
+}: Props) {
+  const [showMappings, setShowMappings] = useState(false)
+  const [draft, setDraft] = useState<SchemaMapping>({ glob: '', schema: '' })
+
+  const browseDraftSchema = async () => {
+    const res = await window.api?.openSchema()
+    if (res) setDraft((d) => ({ ...d, schema: res.location }))
+  }
+
+  const addMapping = () => {
+    if (!draft.glob.trim() || !draft.schema.trim()) return
+    onMappingsChange([...mappings, { glob: draft.glob.trim(), schema: draft.schema.trim() }])
+    setDraft({ glob: '', schema: '' })
+  }
+
+  return (
+    <div style={{ padding: 8, borderBottom: '1px solid #e5e7eb', background: '#f9fafb', fontSize: 12, display: 'flex', flexDirection: 'column', gap: 6, maxHeight: 300, overflowY: 'auto' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <strong>Schema validation</strong>
+        <div style={{ flex: 1 }} />
+        <button className="toolbar-btn" onClick={onChooseFile} disabled={!window.api} title="Validate against a schema file">
+          <FolderOpen size={14} /> Choose schema…
+        </button>
+        {active?.origin === 'file' ? (
+          <button className="toolbar-btn" onClick={onClearFile} title="Use $schema or the filename mappings again">
+            Automatic
+          </button>
+        ) : (
+          <button className="toolbar-btn" onClick={onReload} disabled={!active && !error} title="Load the schema again">
+            <RefreshCw size={14} />
+          </button>
+        )}
+        <button className="toolbar-btn" onClick={onClose} title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div style={{ color: '#6b7280', wordBreak: 'break-all' }}>
+        {active ? (
+          <>
+            {ORIGIN_LABELS[active.origin]}: <code>{active.location}</code>
+          </>
+        ) : pendingRemote ? null : (
+          'No schema: choose a file, add a "$schema" key to the document, or map file names below.'
+        )}
+      </div>
+
+      {pendingRemote && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, wordBreak: 'break-all' }}>
+          <span style={{ flex: 1 }}>
+            The document's <code>$schema</code> is <code>{pendingRemote}</code>. Loading it contacts that server.
+          </span>
+          <button className="toolbar-btn" onClick={onAllowRemote} title="Fetch this schema now and for the rest of the session">
+            <Download size={14} /> Load remote schema
+          </button>
+        </div>
+      )}
+
+      {error && <div style={{ color: '#dc2626' }}>{error}</div>}
+
+      {active && errors && (
+        errors.length === 0 ? (
+          <div style={{ color: '#059669', display: 'flex', alignItems: 'center', gap: 4 }}>
+            <CheckCircle size={14} /> The document matches the schema
+          </div>
+        ) : (
+          <>
+            <div style={{ color: '#dc2626', display: 'flex', alignItems: 'center', gap: 4 }}>
+              <AlertCircle size={14} />
+              {errors.length >= MAX_SCHEMA_ERRORS ? `First ${MAX_SCHEMA_ERRORS} errors` : `${errors.length} error${errors.length === 1 ? '' : 's'}`}
+            </div>
+            {errors.map((e, i) => (
+              <div
+                key={i}
+                onClick={() => onSelectError(e)}
+                title="Show in the editor and grid"
+                style={{ display: 'flex', gap: 8, padding: '2px 6px', borderRadius: 4, cursor: 'pointer', background: 'white', border: '1px solid #fee2e2' }}
+              >
+                <code style={{ color: '#374151', flexShrink: 0 }}>{e.pointer || '/'}</code>
+                <span style={{ color: '#b91c1c' }}>{e.message}</span>
+              </div>
+            ))}
+          </>
+        )
+      )}
+
+      <div>
+        <span style={{ cursor: 'pointer', color: '#3b82f6' }} onClick={() => setShowMappings((v) => !v)}>
+          {showMappings ? 'Hide' : 'Show'} filename mappings ({mappings.length})
+        </span>
+      </div>
+      {showMappings && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          {mappings.map((m, i) => (
+            <div key={i} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+              <code>{m.glob}</code>
+              <span style={{ color: '#9ca3af' }}>→</span>
+              <code style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={m.schema}>{m.schema}</code>
+              <button className="toolbar-btn danger" onClick={() => onMappingsChange(mappings.filter((_, j) => j !== i))} title="Remove mapping">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <input
+              value={draft.glob}
+              onChange={(e) => setDraft((d) => ({ ...d, glob: e.target.value }))}
+              placeholder="*.config.json"
+              style={{ ...inputStyle, width: 120 }}
+            />
+            <input
+              value={draft.schema}
+              onChange={(e) => setDraft((d) => ({ ...d, schema: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && addMapping()}
+              placeholder="Schema path or URL"
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button className="toolbar-btn" onClick={browseDraftSchema} disabled={!window.api} title="Browse for a schema file">
+              <FolderOpen size={12} />
+            </button>
+            <button className="toolbar-btn" onClick={addMapping} disabled={!draft.glob.trim() || !draft.schema.trim()}>
+              <Plus size={12} /> Add
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import { ArrowDown, ArrowUp, Copy, Pencil, Plus, Trash2 } from 'lucide-react'
+import type { ContextMenuItem } from './ContextMenu'
+import { StructuralOp, newRecordLike } from '../utils/structuralEdits'
+
+type Dispatch = (op: StructuralOp) => void
+
+/**
+ * @name rowMenuItems
+ * @description Context menu for item `index` of the array at `path`. `keys` are the record keys
+ * used to shape inserted rows (null for arrays of primitives).
+ */
+export function rowMenuItems(
+  dispatch: Dispatch,
+  path: (string | number)[],
+  index: number,
+  length: number,
+  keys: string[] | null,
+  canMove = true,
+): ContextMenuItem[] {
+  const value = newRecordLike(keys)
+  return [
+    { label: 'Insert row above', icon: Plus, onSelect: () => dispatch({ type: 'insertRow', path, index, value }) },
+    { label: 'Insert row below', onSelect: () => dispatch({ type: 'insertRow', path, index: index + 1, value }) },
+    { label: 'Duplicate row', icon: Copy, onSelect: () => dispatch({ type: 'duplicateRow', path, index }) },
+    'separator',
+    { label: 'Move up', icon: ArrowUp, disabled: !canMove || index === 0, onSelect: () => dispatch({ type: 'moveRow', path, index, direction: -1 }) },
+    { label: 'Move down', icon: ArrowDown, disabled: !canMove || index >= length - 1, onSelect: () => dispatch({ type: 'moveRow', path, index, direction: 1 }) },
+    'separator',
+    { label: 'Delete row', icon: Trash2, danger: true, onSelect: () => dispatch({ type: 'deleteRows', path, indexes: [index] }) },
+  ]
+}
+
+/**
+ * @name keyMenuItems
+ * @description Context menu for a key. With `each`, `path` is an array and the operation applies
+ * to every record in it (a column); otherwise to the single object at `path`.
+ */
+export function keyMenuItems(dispatch: Dispatch, path: (string | number)[], key: string | null, each: boolean): ContextMenuItem[] {
+  const noun = each ? 'column' : 'key'
+  const items: ContextMenuItem[] = [
+    {
+      label: `Add ${noun}`,
+      icon: Plus,
+      prompt: { placeholder: 'key name', onSubmit: (name) => dispatch({ type: 'addKey', path, key: name, value: null, each }) },
+    },
+  ]
+  if (key !== null) {
+    items.push(
+      {
+        label: `Rename ${noun}`,
+        icon: Pencil,
+        prompt: { initial: key, onSubmit: (to) => dispatch({ type: 'renameKey', path, from: key, to, each }) },
+      },
+      'separator',
+      { label: `Remove ${noun}`, icon: Trash2, danger: true, onSelect: () => dispatch({ type: 'removeKey', path, key, each }) },
+    )
+  }
+  return items
+}
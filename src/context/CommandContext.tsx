@@ -0,0 +1,82 @@
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { Command, CommandContext } from '../hooks/useCommands'
+import { useKeybindings } from '../hooks/useKeybindings'
+import { DEFAULT_KEYBINDINGS, formatKey, keyOfEvent } from '../utils/keybindings'
+
+/** Keys without Ctrl or Alt type into text fields rather than run commands */
+const isTextField = (target: EventTarget | null) =>
+    !!(target as HTMLElement | null)?.closest?.('input, textarea, select, [contenteditable="true"]')
+
+/**
+ * @name CommandProvider
+ * @description Holds the commands registered by the app and its documents, and runs them on
+ * their keys. Keys Monaco handles never get here while the editor has focus: it stops them.
+ */
+export const CommandProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [owners, setOwners] = useState(new Map<string, Command[]>())
+    // Every command id seen so far: document commands leave with the last tab, but binding
+    // them is no typo. Keybindings to ids outside this set are reported.
+    const [commandIds, setCommandIds] = useState<ReadonlySet<string>>(() => new Set(DEFAULT_KEYBINDINGS.map((b) => b.command)))
+    const keybindings = useKeybindings(commandIds)
+
+    const register = useCallback((owner: string, commands: Command[]) => {
+        setCommandIds((prev) => (commands.every((c) => prev.has(c.id)) ? prev : new Set([...prev, ...commands.map((c) => c.id)])))
+        setOwners((prev) => {
+            if (commands.length === 0 && !prev.has(owner)) return prev
+            const next = new Map(prev)
+            if (commands.length > 0) next.set(owner, commands)
+            else next.delete(owner)
+            return next
+        })
+    }, [])
+
+    const commands = useMemo(() => {
+        const byId = new Map<string, Command>()
+        for (const list of owners.values()) for (const command of list) byId.set(command.id, command)
+        return [...byId.values()].sort((a, b) => a.category.localeCompare(b.category) || a.title.localeCompare(b.title))
+    }, [owners])
+    const commandsRef = useRef(commands)
+    commandsRef.current = commands
+
+    const run = useCallback((id: string) => {
+        const command = commandsRef.current.find((c) => c.id === id)
+        if (command && command.enabled !== false) command.run()
+    }, [])
+
+    const { commandByKey, keysByCommand } = keybindings
+    const keysOf = useCallback((id: string) => keysByCommand.get(id) ?? [], [keysByCommand])
+    const withKey = useCallback((title: string, id: string) => {
+        const key = keysByCommand.get(id)?.[0]
+        return key ? `${title} (${formatKey(key)})` : title
+    }, [keysByCommand])
+
+    useEffect(() => {
+        const onKey = (e: KeyboardEvent) => {
+            // Already handled, e.g. by the cell editor or a menu
+            if (e.defaultPrevented) return
+            const key = keyOfEvent(e)
+            const id = key ? commandByKey.get(key) : undefined
+            const command = id ? commandsRef.current.find((c) => c.id === id) : undefined
+            if (!key || !command || command.enabled === false) return
+            if (isTextField(e.target) && (command.textFieldsFirst || !/(^|\+)(ctrl|alt)\+/.test(key))) return
+            e.preventDefault()
+            command.run()
+        }
+        window.addEventListener('keydown', onKey)
+        return () => window.removeEventListener('keydown', onKey)
+    }, [commandByKey])
+
+    return (
+        <CommandContext.Provider value={{
+            commands,
+            register,
+            run,
+            keysOf,
+            withKey,
+            problems: keybindings.problems,
+            keybindingsError: keybindings.error,
+        }}>
+            {children}
+        </CommandContext.Provider>
+    )
+}
@@ -1,4 +1,8 @@
 import React, { createContext, useContext, useState, useCallback, useRef } from 'react'
+import type { GridSearchState } from '../utils/deepSearch'
+import { EMPTY_SELECTION, type GridSelectionState } from '../utils/gridSelection'
+import type { StructuralOp } from '../utils/structuralEdits'
+import { EMPTY_VALIDATION, type GridValidationState } from '../utils/schemaValidation'
 
 type GridContextType = {
     expandAllToken: number
@@ -7,8 +11,27 @@ type GridContextType = {
     triggerCollapseAll: () => void
     onEditValue: (path: (string | number)[], value: any) => void
     registerEditHandler: (handler: (path: (string | number)[], value: any) => void) => void
+    /** Deep search hits, used by NestedGrid for highlighting and auto-expansion */
+    search: GridSearchState
+    setSearch: (search: GridSearchState) => void
+    /** When true, cells are display-only (e.g. large-file mode) */
+    readOnly: boolean
+    setReadOnly: (readOnly: boolean) => void
+    /** Cell selected in the grid or mapped from the editor cursor */
+    selection: GridSelectionState
+    setSelection: (selection: GridSelectionState) => void
+    onSelectCell: (path: (string | number)[]) => void
+    registerSelectHandler: (handler: (path: (string | number)[]) => void) => void
+    /** Row/key operations from the grid context menus; paths are relative like onEditValue */
+    onStructuralEdit: (op: StructuralOp) => void
+    registerStructureHandler: (handler: (op: StructuralOp) => void) => void
+    /** Schema errors by cell path, used to mark failing cells and rows */
+    validation: GridValidationState
+    setValidation: (validation: GridValidationState) => void
 }
 
+const emptySearch: GridSearchState = { matcher: null, hitKeys: new Set(), ancestorKeys: new Set(), activeKey: null }
+
 const GridContext = createContext<GridContextType>({
     expandAllToken: 0,
     collapseAllToken: 0,
@@ -16,6 +39,18 @@ const GridContext = createContext<GridContextType>({
     triggerCollapseAll: () => { },
     onEditValue: () => { },
     registerEditHandler: () => { },
+    search: emptySearch,
+    setSearch: () => { },
+    readOnly: false,
+    setReadOnly: () => { },
+    selection: EMPTY_SELECTION,
+    setSelection: () => { },
+    onSelectCell: () => { },
+    registerSelectHandler: () => { },
+    onStructuralEdit: () => { },
+    registerStructureHandler: () => { },
+    validation: EMPTY_VALIDATION,
+    setValidation: () => { },
 })
 
 export const useGridContext = () => useContext(GridContext)
@@ -23,7 +58,13 @@ export const useGridContext = () => useContext(GridContext)
 export const GridProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const [expandAllToken, setExpandAllToken] = useState(0)
     const [collapseAllToken, setCollapseAllToken] = useState(0)
+    const [search, setSearch] = useState<GridSearchState>(emptySearch)
+    const [readOnly, setReadOnly] = useState(false)
+    const [selection, setSelection] = useState<GridSelectionState>(EMPTY_SELECTION)
+    const [validation, setValidation] = useState<GridValidationState>(EMPTY_VALIDATION)
     const editHandlerRef = useRef<((path: (string | number)[], value: any) => void) | null>(null)
+    const selectHandlerRef = useRef<((path: (string | number)[]) => void) | null>(null)
+    const structureHandlerRef = useRef<((op: StructuralOp) => void) | null>(null)
 
     const triggerExpandAll = useCallback(() => setExpandAllToken(prev => prev + 1), [])
     const triggerCollapseAll = useCallback(() => setCollapseAllToken(prev => prev + 1), [])
@@ -40,6 +81,26 @@ export const GridProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
     }, [])
 
+    const registerSelectHandler = useCallback((handler: (path: (string | number)[]) => void) => {
+        selectHandlerRef.current = handler
+    }, [])
+
+    const onSelectCell = useCallback((path: (string | number)[]) => {
+        selectHandlerRef.current?.(path)
+    }, [])
+
+    const registerStructureHandler = useCallback((handler: (op: StructuralOp) => void) => {
+        structureHandlerRef.current = handler
+    }, [])
+
+    const onStructuralEdit = useCallback((op: StructuralOp) => {
+        if (structureHandlerRef.current) {
+            structureHandlerRef.current(op)
+        } else {
+            console.warn('No structure handler registered')
+        }
+    }, [])
+
     return (
         <GridContext.Provider value={{
             expandAllToken,
@@ -47,7 +108,19 @@ export const GridProvider: React.FC<{ children: React.ReactNode }> = ({ children
             triggerExpandAll,
             triggerCollapseAll,
             onEditValue,
-            registerEditHandler
+            registerEditHandler,
+            search,
+            setSearch,
+            readOnly,
+            setReadOnly,
+            selection,
+            setSelection,
+            onSelectCell,
+            registerSelectHandler,
+            onStructuralEdit,
+            registerStructureHandler,
+            validation,
+            setValidation
         }}>
             {children}
         </GridContext.Provider>
@@ -0,0 +1,75 @@
+// src/hooks/useCommands.ts
+import { createContext, useContext, useEffect, useId, useRef } from 'react'
+import type { KeybindingProblem } from '../utils/keybindings'
+
+/** An action the palette lists and keybindings run */
+export type Command = {
+    /** Stable id used in the keybindings file, e.g. `editor.format` */
+    id: string
+    title: string
+    /** Group shown before the title in the palette: File, Editor, Grid, … */
+    category: string
+    run: () => void
+    /** Disabled commands are left out of the palette and ignore their keys */
+    enabled?: boolean
+    /** Leave the key to a focused text field, which has its own (undo, redo) */
+    textFieldsFirst?: boolean
+}
+
+export type CommandRegistry = {
+    /** Registered commands, by category and title */
+    commands: Command[]
+    /** Replaces the commands registered by `owner`; an empty list removes them */
+    register: (owner: string, commands: Command[]) => void
+    /** Runs a command by id, unless it is missing or disabled */
+    run: (id: string) => void
+    /** Normalized keys bound to a command */
+    keysOf: (id: string) => string[]
+    /** `title` with the command's first key, for button tooltips: "Format (Ctrl+Alt+F)" */
+    withKey: (title: string, id: string) => string
+    problems: KeybindingProblem[]
+    /** The keybindings file could not be read, or some entries were skipped */
+    keybindingsError: string | null
+}
+
+export const CommandContext = createContext<CommandRegistry>({
+    commands: [],
+    register: () => { },
+    run: () => { },
+    keysOf: () => [],
+    withKey: (title) => title,
+    problems: [],
+    keybindingsError: null,
+})
+
+export const useCommandRegistry = () => useContext(CommandContext)
+
+/**
+ * @name useCommands
+ * @description Registers `commands` while the component is mounted and `active` (only the
+ * active tab's commands should run). Commands are registered again only when what the palette
+ * shows changes; `run` always calls the handler from the latest render.
+ */
+export function useCommands(commands: Command[], active = true) {
+    const { register } = useCommandRegistry()
+    const owner = useId()
+    const latestRef = useRef(commands)
+    latestRef.current = commands
+
+    const signature = active
+        ? commands.map((c) => [c.id, c.title, c.category, c.enabled !== false, !!c.textFieldsFirst].join('\u0000')).join('\u0001')
+        : ''
+
+    useEffect(() => {
+        if (!signature) {
+            register(owner, [])
+            return
+        }
+        register(owner, latestRef.current.map((c) => ({
+            ...c,
+            run: () => latestRef.current.find((latest) => latest.id === c.id)?.run(),
+        })))
+    }, [register, owner, signature])
+
+    useEffect(() => () => register(owner, []), [register, owner])
+}
@@ -0,0 +1,80 @@
+// src/hooks/useGridDerivation.ts
+import { useEffect, useRef, useState } from 'react'
+import { deriveGridData, DeriveOptions, DerivationOutput } from '../utils/deriveGridData'
+import type { DeriveRequest, DeriveResponse } from '../workers/deriveGridData.worker'
+
+function createWorker(): Worker | null {
+    if (typeof Worker === 'undefined') return null
+    return new Worker(new URL('../workers/deriveGridData.worker.ts', import.meta.url), { type: 'module' })
+}
+
+/**
+ * @name useGridDerivation
+ * @description Derives grid data from text in a Web Worker. The previous result stays in place
+ * until the new one arrives, so the grid never blanks out while parsing.
+ *
+ * A job that is still running when new text arrives is cancelled by terminating the worker:
+ * deriveGridData is synchronous, so there is no other way to stop a 20 MB parse midway.
+ *
+ * @param {string} text The (already debounced) document text.
+ * @param {DeriveOptions} options Derivation options, e.g. a pinned array path, the document format or flattening.
+ * @returns The latest derivation output plus `isParsing` while a job is in flight.
+ */
+export function useGridDerivation(text: string, options: DeriveOptions): DerivationOutput & { isParsing: boolean } {
+    const [output, setOutput] = useState<DerivationOutput>({ data: null, error: null })
+    const [isParsing, setIsParsing] = useState(false)
+    const workerRef = useRef<Worker | null>(null)
+    const jobIdRef = useRef(0)
+    const busyRef = useRef(false)
+
+    // Tear the worker down with the component
+    useEffect(() => () => {
+        workerRef.current?.terminate()
+        workerRef.current = null
+    }, [])
+
+    const { path, format, flatten } = options
+    const flattenDepth = flatten?.depth ?? 0
+    const flattenArrays = flatten?.arrays ?? 'cell'
+
+    useEffect(() => {
+        const id = ++jobIdRef.current
+
+        // A stale job is still running: kill it instead of waiting for it to finish
+        if (busyRef.current && workerRef.current) {
+            workerRef.current.terminate()
+            workerRef.current = null
+        }
+
+        if (!workerRef.current) {
+            workerRef.current = createWorker()
+            if (workerRef.current) {
+                workerRef.current.onmessage = (e: MessageEvent<DeriveResponse>) => {
+                    if (e.data.id !== jobIdRef.current) return
+                    busyRef.current = false
+                    setOutput(e.data.output)
+                    setIsParsing(false)
+                }
+                workerRef.current.onerror = (e: ErrorEvent) => {
+                    busyRef.current = false
+                    setOutput({ data: null, error: e.message || 'Grid worker failed' })
+                    setIsParsing(false)
+                }
+            }
+        }
+
+        const worker = workerRef.current
+        if (!worker) {
+            // No Worker support (e.g. tests): derive inline
+            setOutput(deriveGridData(text, { path, format, flatten: { depth: flattenDepth, arrays: flattenArrays } }))
+            return
+        }
+
+        busyRef.current = true
+        setIsParsing(true)
+        const request: DeriveRequest = { id, text, options: { path, format, flatten: { depth: flattenDepth, arrays: flattenArrays } } }
+        worker.postMessage(request)
+    }, [text, path, format, flattenDepth, flattenArrays])
+
+    return { ...output, isParsing }
+}
@@ -0,0 +1,85 @@
+// src/hooks/useHistory.ts
+import { useCallback, useRef, useState } from 'react'
+import { TextEdit, applyTextEdits } from '../utils/textEdits'
+import { EMPTY_HISTORY, HistoryEntry, HistoryState, createEntry, diffText, pushEntry } from '../utils/history'
+
+type EntryMeta = Parameters<typeof createEntry>[2]
+
+/**
+ * @name useHistory
+ * @description Owns the shared undo/redo history for a document. Every change to the text,
+ * from the grid, the editor or a toolbar command, goes through `apply` or `replaceText` so it
+ * can be undone from anywhere.
+ *
+ * @param {string} text The current document text.
+ * @param {(text: string) => void} setText Setter for the document text.
+ */
+export function useHistory(text: string, setText: (text: string) => void) {
+    const [state, setState] = useState<HistoryState>(EMPTY_HISTORY)
+    const stateRef = useRef(state)
+    // Mirror of `text` that is updated synchronously, so back-to-back changes see each other
+    const textRef = useRef(text)
+    textRef.current = text
+
+    const commit = useCallback((next: HistoryState, nextText?: string) => {
+        stateRef.current = next
+        setState(next)
+        if (nextText !== undefined) {
+            textRef.current = nextText
+            setText(nextText)
+        }
+    }, [setText])
+
+    /** Applies edits to the current text and records them */
+    const apply = useCallback((forward: TextEdit[], meta: EntryMeta) => {
+        const before = textRef.current
+        const entry = createEntry(before, forward, meta)
+        commit(pushEntry(stateRef.current, entry, before), applyTextEdits(before, forward))
+    }, [commit])
+
+    /** Records a whole-text change (editor typing, format, minify…) as its minimal diff */
+    const replaceText = useCallback((after: string, meta: EntryMeta) => {
+        const edit = diffText(textRef.current, after)
+        if (edit) apply([edit], meta)
+    }, [apply])
+
+    const undo = useCallback(() => {
+        const s = stateRef.current
+        if (s.index === 0) return
+        const entry: HistoryEntry = s.entries[s.index - 1]
+        commit({ ...s, index: s.index - 1 }, applyTextEdits(textRef.current, entry.backward))
+    }, [commit])
+
+    const redo = useCallback(() => {
+        const s = stateRef.current
+        if (s.index >= s.entries.length) return
+        const entry: HistoryEntry = s.entries[s.index]
+        commit({ ...s, index: s.index + 1 }, applyTextEdits(textRef.current, entry.forward))
+    }, [commit])
+
+    /** Undoes or redoes until `index` entries are applied */
+    const jumpTo = useCallback((index: number) => {
+        const s = stateRef.current
+        let current = textRef.current
+        let i = s.index
+        while (i > index) current = applyTextEdits(current, s.entries[--i].backward)
+        while (i < index) current = applyTextEdits(current, s.entries[i++].forward)
+        commit({ ...s, index: i }, current)
+    }, [commit])
+
+    /** Forgets all entries, e.g. after opening another file */
+    const reset = useCallback(() => commit(EMPTY_HISTORY), [commit])
+
+    return {
+        entries: state.entries,
+        index: state.index,
+        canUndo: state.index > 0,
+        canRedo: state.index < state.entries.length,
+        apply,
+        replaceText,
+        undo,
+        redo,
+        jumpTo,
+        reset,
+    }
+}
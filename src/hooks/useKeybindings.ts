@@ -0,0 +1,26 @@
+// src/hooks/useKeybindings.ts
+import { useEffect, useMemo, useState } from 'react'
+import type { KeybindingsFile } from '../../electron/typings/ipc'
+import { resolveKeybindings } from '../utils/keybindings'
+
+/**
+ * @name useKeybindings
+ * @description The default keybindings with the user's keybindings file applied. The main
+ * process watches the file and sends it again whenever it is saved.
+ *
+ * @param commandIds - The commands there are; bindings to any other id are reported.
+ * @returns The resolved bindings, their problems and the file's read error, if any.
+ */
+export function useKeybindings(commandIds?: ReadonlySet<string>) {
+    const api = window.api
+    const [file, setFile] = useState<KeybindingsFile>({ bindings: [] })
+
+    useEffect(() => {
+        if (!api) return
+        api.getKeybindings().then(setFile).catch((e) => console.error('Failed to read keybindings:', e))
+        return api.onKeybindingsChanged(setFile)
+    }, [api])
+
+    const resolved = useMemo(() => resolveKeybindings(file.bindings, commandIds), [file.bindings, commandIds])
+    return { ...resolved, error: file.error ?? null }
+}
@@ -0,0 +1,81 @@
+// src/hooks/useLargeFile.ts
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { LargeFileInfo, LargeFileProgress } from '../../electron/typings/ipc'
+
+export type LargeFileSession = {
+    info: LargeFileInfo
+    progress: LargeFileProgress | null
+    /** zero-based page number */
+    page: number
+    pageSize: number
+    /** the current page's records as a JSON array, one record per line */
+    pageText: string
+}
+
+const PAGE_SIZE = 1000
+
+/**
+ * @name useLargeFile
+ * @description Drives large-file mode: starts indexing in the main process, tracks progress and
+ * fetches the current page of records. Records indexed so far can be paged while indexing runs.
+ *
+ * @returns The active session (or null) plus open/close/page controls.
+ */
+export function useLargeFile() {
+    const api = window.api
+    const [session, setSession] = useState<LargeFileSession | null>(null)
+    const sessionRef = useRef<LargeFileSession | null>(null)
+    sessionRef.current = session
+
+    const loadPage = useCallback(async (info: LargeFileInfo, page: number) => {
+        const records = await api.readLargeFileRecords({ id: info.id, start: page * PAGE_SIZE, count: PAGE_SIZE })
+        const pageText = `[\n${records.join(',\n')}\n]`
+        setSession((s) => (s && s.info.id === info.id ? { ...s, page, pageText } : s))
+        return records.length
+    }, [api])
+
+    // Progress events: update counters, and top up the current page while it is still short
+    useEffect(() => {
+        if (!api?.onLargeFileProgress) return
+        return api.onLargeFileProgress((progress) => {
+            const current = sessionRef.current
+            if (!current || current.info.id !== progress.id) return
+            const info = { ...current.info, records: progress.records }
+            setSession({ ...current, info, progress })
+            const pageEnd = (current.page + 1) * current.pageSize
+            if (current.info.records < pageEnd && progress.records > current.info.records) {
+                void loadPage(info, current.page)
+            }
+        })
+    }, [api, loadPage])
+
+    const close = useCallback(() => {
+        const current = sessionRef.current
+        if (current) api?.closeLargeFile(current.info.id)
+        setSession(null)
+    }, [api])
+
+    // A closed tab takes its session with it
+    useEffect(() => () => {
+        const current = sessionRef.current
+        if (current) api?.closeLargeFile(current.info.id)
+    }, [api])
+
+    const open = useCallback(async (filePath: string) => {
+        close()
+        const info = await api.indexLargeFile(filePath)
+        const next: LargeFileSession = { info, progress: null, page: 0, pageSize: PAGE_SIZE, pageText: '[]' }
+        sessionRef.current = next
+        setSession(next)
+        await loadPage(info, 0)
+    }, [api, close, loadPage])
+
+    const setPage = useCallback((page: number) => {
+        const current = sessionRef.current
+        if (!current) return
+        const lastPage = Math.max(0, Math.ceil(current.info.records / current.pageSize) - 1)
+        void loadPage(current.info, Math.min(Math.max(0, page), lastPage))
+    }, [loadPage])
+
+    return { session, open, close, setPage }
+}
@@ -0,0 +1,134 @@
+// src/hooks/useSchema.ts
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { SchemaMapping, SchemaText } from '../../electron/typings/ipc'
+import { findSchemaMapping } from '../utils/schemaValidation'
+
+/** Where the active schema came from, in order of precedence */
+export type SchemaOrigin = 'file' | 'document' | 'settings'
+
+export type ActiveSchema = {
+    origin: SchemaOrigin
+    /** Path or URL the schema was read from */
+    location: string
+    schema: object
+}
+
+type Options = {
+    /** The document's `$schema` value, if any */
+    documentRef: string | null
+    /** Path of the open document; resolves relative references and selects glob mappings */
+    filePath?: string
+    mappings: SchemaMapping[]
+}
+
+/**
+ * Remote `$schema` URLs the user agreed to load, for the rest of the session. A document is not
+ * trusted to make the app contact a server on its own; mappings from settings are.
+ */
+const allowedRemoteRefs = new Set<string>()
+
+const isRemote = (ref: string) => /^https?:\/\//i.test(ref)
+
+function parseSchema({ location, text }: SchemaText): object {
+    let schema: unknown
+    try {
+        schema = JSON.parse(text)
+    } catch (e) {
+        throw new Error(`${location} is not valid JSON: ${e instanceof Error ? e.message : String(e)}`)
+    }
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+        throw new Error(`${location} is not a JSON Schema object`)
+    }
+    return schema
+}
+
+/**
+ * @name useSchema
+ * @description Resolves the JSON Schema for the current document: a file the user chose, else
+ * the document's `$schema` reference, else the first matching filename mapping from settings.
+ * Referenced schemas are loaded through the main process and cached until `reload`. A remote
+ * `$schema` waits for `allowRemote`.
+ *
+ * @returns The active schema (or null), a loading error, the remote `$schema` waiting to be
+ * allowed (or null), and controls for choosing a file.
+ */
+export function useSchema({ documentRef, filePath, mappings }: Options) {
+    const api = window.api
+    const [chosen, setChosen] = useState<ActiveSchema | null>(null)
+    const [loaded, setLoaded] = useState<ActiveSchema | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [reloadToken, setReloadToken] = useState(0)
+    const cacheRef = useRef(new Map<string, Promise<SchemaText>>())
+
+    const mapping = findSchemaMapping(filePath, mappings)
+    const wanted: { origin: SchemaOrigin; ref: string } | null = documentRef
+        ? { origin: 'document', ref: documentRef }
+        : mapping ? { origin: 'settings', ref: mapping.schema } : null
+    const wantedOrigin = wanted?.origin
+    const wantedRef = wanted?.ref
+    const pendingRemote = !chosen && wantedOrigin === 'document' && wantedRef && isRemote(wantedRef) && !allowedRemoteRefs.has(wantedRef)
+        ? wantedRef
+        : null
+
+    useEffect(() => {
+        setError(null)
+        if (chosen || !wantedOrigin || !wantedRef || pendingRemote) {
+            setLoaded(null)
+            return
+        }
+        if (!api) {
+            setLoaded(null)
+            setError('Loading schemas needs the desktop app')
+            return
+        }
+        let cancelled = false
+        const key = `${wantedRef}\n${filePath ?? ''}`
+        let request = cacheRef.current.get(key)
+        if (!request) {
+            request = api.loadSchema({ ref: wantedRef, baseFile: filePath })
+            cacheRef.current.set(key, request)
+        }
+        request
+            .then((res) => {
+                if (cancelled) return
+                setLoaded({ origin: wantedOrigin, location: res.location, schema: parseSchema(res) })
+            })
+            .catch((e) => {
+                // Failed loads are retried on the next reload rather than cached
+                cacheRef.current.delete(key)
+                if (cancelled) return
+                setLoaded(null)
+                setError(e instanceof Error ? e.message : String(e))
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [api, chosen, wantedOrigin, wantedRef, pendingRemote, filePath, reloadToken])
+
+    const chooseFile = useCallback(async () => {
+        if (!api) return
+        try {
+            const res = await api.openSchema()
+            if (!res) return
+            setChosen({ origin: 'file', location: res.location, schema: parseSchema(res) })
+            setError(null)
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e))
+        }
+    }, [api])
+
+    const clearChosen = useCallback(() => setChosen(null), [])
+
+    const allowRemote = useCallback(() => {
+        if (!pendingRemote) return
+        allowedRemoteRefs.add(pendingRemote)
+        setReloadToken((t) => t + 1)
+    }, [pendingRemote])
+
+    const reload = useCallback(() => {
+        cacheRef.current.clear()
+        setReloadToken((t) => t + 1)
+    }, [])
+
+    return { active: chosen ?? loaded, error, pendingRemote, allowRemote, chooseFile, clearChosen, reload }
+}
@@ -0,0 +1,31 @@
+// src/hooks/useSettings.ts
+import { useCallback, useEffect, useState } from 'react'
+import type { AppSettings } from '../../electron/typings/ipc'
+
+const DEFAULT_SETTINGS: AppSettings = { schemaMappings: [], recentFiles: [] }
+
+/**
+ * @name useSettings
+ * @description App settings stored by the main process in the userData directory. Without the
+ * desktop bridge the settings live in memory only.
+ *
+ * @returns The current settings and an `update` function that merges a partial change.
+ */
+export function useSettings() {
+    const api = window.api
+    const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS)
+
+    useEffect(() => {
+        api?.getSettings().then(setSettings).catch((e) => console.error('Failed to read settings:', e))
+    }, [api])
+
+    const update = useCallback(async (patch: Partial<AppSettings>) => {
+        if (!api) {
+            setSettings((s) => ({ ...s, ...patch }))
+            return
+        }
+        setSettings(await api.updateSettings(patch))
+    }, [api])
+
+    return { settings, update }
+}
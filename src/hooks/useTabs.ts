@@ -0,0 +1,119 @@
+// src/hooks/useTabs.ts
+import { useCallback, useRef, useState } from 'react'
+
+/** What a tab opens: text, optionally read from `filePath`, or a large file to page through */
+export type DocumentSource = {
+    text: string
+    filePath?: string
+    large?: boolean
+}
+
+/** A tab's document as last reported by its DocumentView */
+export type DocumentStatus = {
+    filePath?: string
+    dirty: boolean
+    /** Whether filePath is the file the text came from, rather than a suggested name */
+    onDisk: boolean
+    large: boolean
+}
+
+export type DocumentTab = {
+    id: string
+    source: DocumentSource
+    status: DocumentStatus
+    /** Label while the document has no file: Untitled, Untitled 2, … */
+    untitledName: string
+}
+
+export const tabLabel = (tab: DocumentTab) => tab.status.filePath?.split(/[\\/]/).pop() ?? tab.untitledName
+
+const statusOf = (source: DocumentSource): DocumentStatus => ({ filePath: source.filePath, dirty: false, onDisk: false, large: !!source.large })
+
+const sameStatus = (a: DocumentStatus, b: DocumentStatus) =>
+    a.filePath === b.filePath && a.dirty === b.dirty && a.onDisk === b.onDisk && a.large === b.large
+
+/**
+ * @name useTabs
+ * @description The open documents and which one is shown. Every tab keeps its own DocumentView
+ * mounted, so the tab list only holds what a view was opened with and what it reported since.
+ * Without tabs the app shows its start screen.
+ *
+ * @returns The tabs, the active one (null without tabs), and controls to open, close, reorder
+ * and activate them.
+ */
+export function useTabs() {
+    const nextIdRef = useRef(1)
+    const untitledCountRef = useRef(0)
+
+    // Only called from event handlers: counting in render would count twice in strict mode
+    const createTab = useCallback((source: DocumentSource): DocumentTab => {
+        const count = source.filePath ? 1 : ++untitledCountRef.current
+        return {
+            id: `tab-${nextIdRef.current++}`,
+            source,
+            status: statusOf(source),
+            untitledName: count === 1 ? 'Untitled' : `Untitled ${count}`,
+        }
+    }, [])
+
+    const [tabs, setTabs] = useState<DocumentTab[]>([])
+    const [activeId, setActiveId] = useState<string | null>(null)
+    const active = tabs.find((t) => t.id === activeId) ?? tabs[0] ?? null
+    // Handlers can run after an awaited prompt, or several before the next render (restoring a
+    // session), so they read and keep these up to date instead of the rendered state
+    const tabsRef = useRef(tabs)
+    tabsRef.current = tabs
+    const activeIdRef = useRef(active?.id)
+    activeIdRef.current = active?.id
+
+    /** Opens `source` in a new tab after the active one, or in place of the tab `replaceId` */
+    const open = useCallback((source: DocumentSource, replaceId?: string): string => {
+        const tab = createTab(source)
+        const after = activeIdRef.current
+        setTabs((list) => {
+            const replaced = list.findIndex((t) => t.id === replaceId)
+            if (replaced >= 0) return list.map((t, i) => (i === replaced ? tab : t))
+            const at = list.findIndex((t) => t.id === after)
+            return at < 0 ? [...list, tab] : [...list.slice(0, at + 1), tab, ...list.slice(at + 1)]
+        })
+        activeIdRef.current = tab.id
+        setActiveId(tab.id)
+        return tab.id
+    }, [createTab])
+
+    /** Closes a tab without asking; the dirty check is the caller's */
+    const close = useCallback((id: string) => {
+        const index = tabsRef.current.findIndex((t) => t.id === id)
+        if (index < 0) return
+        const rest = tabsRef.current.filter((t) => t.id !== id)
+        setTabs((list) => list.filter((t) => t.id !== id))
+        // The neighbour on the right takes over, or the one on the left for the last tab
+        if (id === activeIdRef.current) setActiveId(rest[Math.min(index, rest.length - 1)]?.id ?? null)
+    }, [])
+
+    /** Moves the tab at `from` to `to` (indexes in the current order) */
+    const move = useCallback((from: number, to: number) => {
+        setTabs((list) => {
+            if (from === to || !list[from]) return list
+            const next = [...list]
+            const [tab] = next.splice(from, 1)
+            next.splice(Math.min(to, next.length), 0, tab)
+            return next
+        })
+    }, [])
+
+    const setStatus = useCallback((id: string, status: DocumentStatus) => {
+        setTabs((list) => {
+            const tab = list.find((t) => t.id === id)
+            if (!tab || sameStatus(tab.status, status)) return list
+            return list.map((t) => (t.id === id ? { ...t, status } : t))
+        })
+    }, [])
+
+    const activate = useCallback((id: string) => {
+        activeIdRef.current = id
+        setActiveId(id)
+    }, [])
+
+    return { tabs, active, open, close, move, activate, setStatus }
+}
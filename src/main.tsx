@@ -2,6 +2,7 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { CommandProvider } from './context/CommandContext'
 import './index.css' // ✅ CRITICAL: Import the global styles to apply the full-height fix.
 
 /**
@@ -14,13 +15,11 @@ if (!rootElement) {
     throw new Error("Failed to find the root element with ID 'root'")
 }
 
-import { GridProvider } from './context/GridContext'
-
 const root = ReactDOM.createRoot(rootElement)
 root.render(
     <React.StrictMode>
-        <GridProvider>
+        <CommandProvider>
             <App />
-        </GridProvider>
+        </CommandProvider>
     </React.StrictMode>,
 )
\ No newline at end of file
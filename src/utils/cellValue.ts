@@ -0,0 +1,118 @@
+// src/utils/cellValue.ts
+
+// Utility: typed values for the grid cell editor.
+// - The user picks the type explicitly; the draft text is validated against it instead of
+//   guessing from the previous value.
+// - Dates stay strings in the document. Editing one only replaces its date/time digits, so
+//   the separator, fraction and offset it was written with survive.
+
+import JSON5 from 'json5'
+
+export type CellValueType = 'string' | 'number' | 'boolean' | 'null' | 'date' | 'json'
+
+export const CELL_TYPES: { type: CellValueType; label: string }[] = [
+  { type: 'string', label: 'String' },
+  { type: 'number', label: 'Number' },
+  { type: 'boolean', label: 'Boolean' },
+  { type: 'null', label: 'Null' },
+  { type: 'date', label: 'Date' },
+  { type: 'json', label: 'Object / Array' },
+]
+
+/** Strings longer than this get a multiline editor */
+export const LONG_STRING = 60
+
+// date, separator, hh:mm[:ss], fraction, rest (offset or Z, possibly after a space)
+const DATE_RE = /^(\d{4}-\d{2}-\d{2})(?:([T\s])(\d{2}:\d{2}(?::\d{2})?)(\.\d+)?(.*))?$/
+
+/**
+ * @name detectCellType
+ * @description Initial editor type for an existing value.
+ */
+export function detectCellType(value: unknown): CellValueType {
+  if (value === null || value === undefined) return 'null'
+  if (typeof value === 'number') return 'number'
+  if (typeof value === 'boolean') return 'boolean'
+  if (typeof value === 'string') return DATE_RE.test(value) && !Number.isNaN(Date.parse(value.slice(0, 10))) ? 'date' : 'string'
+  return 'json'
+}
+
+/**
+ * @name toDraft
+ * @description Text shown in the editor when switching to `type`.
+ */
+export function toDraft(value: unknown, type: CellValueType): string {
+  switch (type) {
+    case 'null':
+      return ''
+    case 'boolean':
+      return String(value === true || value === 'true')
+    case 'json':
+      return value !== null && typeof value === 'object' ? JSON.stringify(value, null, 2) : typeof value === 'string' ? value : '{}'
+    case 'date':
+      return typeof value === 'string' ? dateToInput(value) : ''
+    default:
+      return value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  }
+}
+
+/**
+ * @name dateToInput
+ * @description Value for an <input type="date|datetime-local"> from a date string.
+ */
+export function dateToInput(value: string): string {
+  const m = DATE_RE.exec(value.trim())
+  if (!m) return ''
+  const [, date, , time] = m
+  return time ? `${date}T${time}` : date
+}
+
+/**
+ * @name inputToDate
+ * @description Writes a picker value back in the format of `original` (date-only, separator,
+ * seconds, fraction and offset are kept). Without a date original, an ISO local date-time.
+ */
+export function inputToDate(input: string, original: unknown): string {
+  const [date, time] = input.split('T')
+  const m = typeof original === 'string' ? DATE_RE.exec(original.trim()) : null
+  if (!m) return time ? `${date}T${time.length === 5 ? `${time}:00` : time}` : date
+  const [, , sep, oldTime, fraction = '', rest = ''] = m
+  if (!oldTime || !time) return date
+  const withSeconds = oldTime.length > 5 && time.length === 5 ? `${time}:00` : time
+  return `${date}${sep}${withSeconds}${fraction}${rest}`
+}
+
+/** Whether the date string has a time part (picks the picker widget) */
+export function hasTime(value: unknown): boolean {
+  return typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value.trim())
+}
+
+/**
+ * @name parseDraft
+ * @description Converts editor text into a value of `type`, or an error message.
+ */
+export function parseDraft(draft: string, type: CellValueType, original: unknown): { value: unknown } | { error: string } {
+  switch (type) {
+    case 'string':
+      return { value: draft }
+    case 'number': {
+      const n = Number(draft.trim())
+      if (!draft.trim() || !Number.isFinite(n)) return { error: 'Not a number' }
+      return { value: n }
+    }
+    case 'boolean':
+      return { value: draft === 'true' }
+    case 'null':
+      return { value: null }
+    case 'date': {
+      if (!draft) return { error: 'Pick a date' }
+      return { value: inputToDate(draft, original) }
+    }
+    case 'json':
+      try {
+        return { value: JSON5.parse(draft) }
+      } catch (e) {
+        return { error: e instanceof Error ? e.message : String(e) }
+      }
+  }
+}
@@ -0,0 +1,188 @@
+// src/utils/columnProfile.ts
+
+// Utility: summary statistics for one grid column.
+// - Counts present, null and missing values, distinct values and the most frequent ones.
+// - Numbers get min/max/mean/median and a histogram; dates get their range and a histogram;
+//   strings get their length range.
+// - Profile entries carry the filter condition that selects them, so the panel can filter the grid.
+
+import { GridRow, inferType, isComplexCell } from './deriveGridData'
+import { FilterCondition, parseDateValue } from './filterModel'
+
+type Condition = Omit<FilterCondition, 'id'>
+
+export type ProfileValue = {
+  label: string
+  count: number
+  /** Condition that keeps only rows with this value; null when the value cannot be filtered on */
+  filter: Condition | null
+}
+
+export type HistogramBin = {
+  /** Lower and upper bound; dates are epoch milliseconds */
+  from: number
+  to: number
+  count: number
+  filter: Condition
+}
+
+export type ColumnProfile = {
+  column: string
+  rows: number
+  present: number
+  nulls: number
+  missing: number
+  distinct: number
+  /** Most frequent values, most frequent first */
+  topValues: ProfileValue[]
+  /** Rows per value kind (string, number, date, object, …) */
+  kinds: Record<string, number>
+  numbers: { min: number; max: number; mean: number; median: number; histogram: HistogramBin[] } | null
+  dates: { min: string; max: string; histogram: HistogramBin[] } | null
+  strings: { minLength: number; maxLength: number } | null
+}
+
+export const TOP_VALUES = 10
+export const HISTOGRAM_BINS = 10
+
+function valueLabel(v: unknown): string {
+  if (typeof v === 'string') return v === '' ? '(empty string)' : v
+  const text = JSON.stringify(v)
+  return text.length > 80 ? `${text.slice(0, 79)}…` : text
+}
+
+function valueFilter(column: string, v: unknown): Condition | null {
+  if (v === null) return { column, operator: 'isNull' }
+  if (typeof v === 'boolean') return { column, operator: v ? 'isTrue' : 'isFalse' }
+  if (typeof v === 'number') return { column, operator: 'eq', value: String(v) }
+  // An empty value would make the condition incomplete, which passes every row
+  if (typeof v === 'string' && v !== '') return { column, operator: 'is', value: v }
+  return null
+}
+
+/** Bins are half-open, [from, to), except the last, which also holds `max`; so are their filters */
+function histogram(
+  values: number[],
+  min: number,
+  max: number,
+  toFilter: (from: number, to: number, upperExclusive: boolean) => Condition,
+): HistogramBin[] {
+  if (values.length === 0) return []
+  if (min === max) return [{ from: min, to: max, count: values.length, filter: toFilter(min, max, false) }]
+  const width = (max - min) / HISTOGRAM_BINS
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0)
+  for (const v of values) counts[Math.min(HISTOGRAM_BINS - 1, Math.floor((v - min) / width))]++
+  return counts.map((count, i) => {
+    // Inner bounds are rounded so filter chips read 3.4, not 3.4000000000000004
+    const from = i === 0 ? min : Number((min + i * width).toPrecision(12))
+    const last = i === HISTOGRAM_BINS - 1
+    const to = last ? max : Number((min + (i + 1) * width).toPrecision(12))
+    return { from, to, count, filter: toFilter(from, to, !last) }
+  })
+}
+
+/**
+ * @name profileColumn
+ * @description Profiles `column` across `rows` (top-level grid rows; ComplexCells are unwrapped).
+ */
+export function profileColumn(rows: GridRow[], column: string): ColumnProfile {
+  let present = 0
+  let nulls = 0
+  const counts = new Map<string, { value: unknown; count: number }>()
+  const kinds: Record<string, number> = {}
+  const numbers: number[] = []
+  const dates: number[] = []
+  const dateText = new Map<number, string>()
+  let minLength = Infinity
+  let maxLength = -Infinity
+
+  for (const row of rows) {
+    const raw = row[column]
+    if (raw === undefined) continue
+    present++
+    const v = isComplexCell(raw) ? raw.data : raw
+    if (v === null) nulls++
+
+    const kind = inferType(v)
+    kinds[kind] = (kinds[kind] ?? 0) + 1
+
+    const key = typeof v === 'string' ? `s${v}` : `j${JSON.stringify(v)}`
+    const entry = counts.get(key)
+    if (entry) entry.count++
+    else counts.set(key, { value: v, count: 1 })
+
+    if (typeof v === 'number' && Number.isFinite(v)) numbers.push(v)
+    if (typeof v === 'string') {
+      minLength = Math.min(minLength, v.length)
+      maxLength = Math.max(maxLength, v.length)
+      if (kind === 'date') {
+        const t = parseDateValue(v)
+        if (!isNaN(t)) {
+          dates.push(t)
+          if (!dateText.has(t)) dateText.set(t, v)
+        }
+      }
+    }
+  }
+
+  const topValues = [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_VALUES)
+    .map(({ value, count }) => ({ label: valueLabel(value), count, filter: valueFilter(column, value) }))
+
+  let numberStats: ColumnProfile['numbers'] = null
+  if (numbers.length > 0) {
+    const sorted = [...numbers].sort((a, b) => a - b)
+    const mid = Math.floor(sorted.length / 2)
+    const min = sorted[0]
+    const max = sorted[sorted.length - 1]
+    numberStats = {
+      min,
+      max,
+      mean: numbers.reduce((sum, n) => sum + n, 0) / numbers.length,
+      median: sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+      histogram: histogram(numbers, min, max, (from, to, upperExclusive) => ({
+        column,
+        operator: 'between',
+        value: String(from),
+        value2: String(to),
+        upperExclusive,
+      })),
+    }
+  }
+
+  let dateStats: ColumnProfile['dates'] = null
+  if (dates.length > 0) {
+    let min = dates[0]
+    let max = dates[0]
+    for (const t of dates) {
+      if (t < min) min = t
+      if (t > max) max = t
+    }
+    dateStats = {
+      min: dateText.get(min) ?? new Date(min).toISOString(),
+      max: dateText.get(max) ?? new Date(max).toISOString(),
+      histogram: histogram(dates, min, max, (from, to, upperExclusive) => ({
+        column,
+        operator: 'dateBetween',
+        value: new Date(from).toISOString(),
+        value2: new Date(to).toISOString(),
+        upperExclusive,
+      })),
+    }
+  }
+
+  return {
+    column,
+    rows: rows.length,
+    present,
+    nulls,
+    missing: rows.length - present,
+    distinct: counts.size,
+    topValues,
+    kinds,
+    numbers: numberStats,
+    dates: dateStats,
+    strings: maxLength >= 0 ? { minLength, maxLength } : null,
+  }
+}
@@ -0,0 +1,239 @@
+// src/utils/csv.ts
+
+// Utility: convert CSV/TSV text into JSON records.
+// - RFC 4180 parsing: quoted fields may contain delimiters, doubled quotes and newlines.
+// - The delimiter and header row are detected from a sample unless given.
+// - Columns are typed as a whole (number, boolean, date, string); empty cells become null.
+//   Values that would lose information as numbers (leading zeros, huge integers) stay strings.
+// - Dot-path headers (`address.city`) can rebuild nested objects.
+
+export type CsvColumnType = 'number' | 'boolean' | 'date' | 'string' | 'empty'
+
+export type CsvImportOptions = {
+  /** 'auto' picks the most consistent of , ; tab | */
+  delimiter: 'auto' | string
+  header: 'auto' | boolean
+  inferTypes: boolean
+  /** Turn `a.b` headers into nested objects */
+  nest: boolean
+}
+
+export type CsvImportResult = {
+  records: Record<string, unknown>[]
+  delimiter: string
+  hasHeader: boolean
+  columns: { name: string; type: CsvColumnType }[]
+}
+
+export const DEFAULT_CSV_OPTIONS: CsvImportOptions = { delimiter: 'auto', header: 'auto', inferTypes: true, nest: false }
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+]
+
+const NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/
+const BOOLEAN = /^(?:true|false)$/i
+const DATE = /^\d{4}-\d{2}-\d{2}(?:[T\s]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:\s?(?:Z|[+-]\d{2}:?\d{2}))?)?$/
+
+/**
+ * @name parseCsv
+ * @description Splits text into rows of fields. Handles quoted fields with embedded
+ * delimiters, newlines and doubled quotes, CRLF line ends and a leading BOM.
+ */
+export function parseCsv(text: string, delimiter: string, maxRows = Infinity): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endRow = () => {
+    row.push(field)
+    field = ''
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== '') rows.push(row)
+    row = []
+  }
+
+  while (i < text.length && rows.length < maxRows) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i += 2
+          continue
+        }
+        quoted = false
+      } else {
+        field += ch
+      }
+      i++
+    } else if (ch === '"' && field === '') {
+      quoted = true
+      i++
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(field)
+      field = ''
+      i += delimiter.length
+    } else if (ch === '\r' || ch === '\n') {
+      endRow()
+      i += ch === '\r' && text[i + 1] === '\n' ? 2 : 1
+    } else {
+      field += ch
+      i++
+    }
+  }
+  if (rows.length < maxRows && (field !== '' || row.length > 0)) endRow()
+  return rows
+}
+
+/**
+ * @name detectDelimiter
+ * @description Picks the delimiter that splits the first rows into the same number (> 1) of
+ * fields most consistently. Falls back to a comma.
+ */
+export function detectDelimiter(text: string): string {
+  const sample = text.slice(0, 64 * 1024)
+  let best = { delimiter: ',', score: 0, width: 0 }
+  for (const { value } of CSV_DELIMITERS) {
+    const rows = parseCsv(sample, value, 20)
+    if (rows.length === 0) continue
+    const counts = new Map<number, number>()
+    for (const r of rows) counts.set(r.length, (counts.get(r.length) ?? 0) + 1)
+    const [width, score] = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]
+    if (width < 2) continue
+    if (score > best.score || (score === best.score && width > best.width)) best = { delimiter: value, score, width }
+  }
+  return best.delimiter
+}
+
+function cellType(v: string): CsvColumnType {
+  const s = v.trim()
+  if (s === '') return 'empty'
+  if (NUMBER.test(s)) return 'number'
+  if (BOOLEAN.test(s)) return 'boolean'
+  if (DATE.test(s)) return 'date'
+  return 'string'
+}
+
+/**
+ * @name detectHeader
+ * @description A first row of distinct, non-empty labels is a header when none of them looks
+ * like data (numbers, booleans, dates), or when a column's type differs from its label's.
+ */
+export function detectHeader(rows: string[][]): boolean {
+  const [first, ...rest] = rows
+  if (!first || rest.length === 0) return false
+  const labels = first.map((c) => c.trim())
+  if (labels.some((l) => l === '') || new Set(labels).size !== labels.length) return false
+  if (labels.every((l) => cellType(l) === 'string')) return true
+  return labels.some((l, i) => {
+    const t = inferColumnType(rest.map((r) => r[i] ?? ''))
+    return t !== 'string' && t !== 'empty' && cellType(l) !== t
+  })
+}
+
+/**
+ * @name inferColumnType
+ * @description The type shared by every non-empty value of a column, or 'string'.
+ */
+export function inferColumnType(values: string[]): CsvColumnType {
+  let type: CsvColumnType = 'empty'
+  for (const v of values) {
+    const t = cellType(v)
+    if (t === 'empty') continue
+    if (type === 'empty') type = t
+    else if (type !== t) return 'string'
+  }
+  if (type === 'number' && values.some((v) => !isSafeNumber(v.trim()))) return 'string'
+  return type
+}
+
+/** Numbers that survive a round trip: no leading zeros ("007") and no precision loss */
+function isSafeNumber(s: string): boolean {
+  if (s === '') return true
+  if (/^-?0\d/.test(s)) return false
+  const n = Number(s)
+  return Number.isFinite(n) && (!/^-?\d+$/.test(s) || Number.isSafeInteger(n))
+}
+
+function convert(v: string, type: CsvColumnType, inferTypes: boolean): unknown {
+  if (!inferTypes) return v
+  const s = v.trim()
+  if (s === '') return null
+  if (type === 'number') return Number(s)
+  if (type === 'boolean') return s.toLowerCase() === 'true'
+  return v
+}
+
+/** Sets `value` at a dot path, leaving the key flat when a parent is already a value */
+function setNested(target: Record<string, unknown>, key: string, value: unknown) {
+  const parts = key.split('.')
+  if (parts.some((p) => p === '')) {
+    target[key] = value
+    return
+  }
+  let node = target
+  for (const part of parts.slice(0, -1)) {
+    const next = node[part]
+    if (next === undefined) node[part] = {}
+    else if (next === null || typeof next !== 'object') {
+      target[key] = value
+      return
+    }
+    node = node[part] as Record<string, unknown>
+  }
+  node[parts[parts.length - 1]] = value
+}
+
+/**
+ * @name csvToRecords
+ * @description Parses CSV/TSV text into records using the given (or detected) options.
+ * Without a header, columns are named column1, column2, …
+ */
+export function csvToRecords(text: string, options: CsvImportOptions = DEFAULT_CSV_OPTIONS): CsvImportResult {
+  const delimiter = options.delimiter === 'auto' ? detectDelimiter(text) : options.delimiter
+  const rows = parseCsv(text, delimiter)
+  const hasHeader = options.header === 'auto' ? detectHeader(rows.slice(0, 50)) : options.header
+  if (rows.length === 0) return { records: [], delimiter, hasHeader, columns: [] }
+  const body = hasHeader ? rows.slice(1) : rows
+  // Not Math.max(...rows): spreading a large file's rows overflows the stack
+  const width = body.reduce((max, r) => Math.max(max, r.length), hasHeader ? rows[0]?.length ?? 0 : 0)
+
+  const names: string[] = []
+  for (let i = 0; i < width; i++) {
+    const label = hasHeader ? rows[0][i]?.trim() : ''
+    let name = label || `column${i + 1}`
+    // Keep duplicate headers apart
+    for (let n = 2; names.includes(name); n++) name = `${label || `column${i + 1}`}_${n}`
+    names.push(name)
+  }
+
+  const columns = names.map((name, i) => ({ name, type: inferColumnType(body.map((r) => r[i] ?? '')) }))
+  const records = body.map((r) => {
+    const record: Record<string, unknown> = {}
+    columns.forEach(({ name, type }, i) => {
+      const value = convert(r[i] ?? '', type, options.inferTypes)
+      if (options.nest) setNested(record, name, value)
+      else record[name] = value
+    })
+    return record
+  })
+
+  return { records, delimiter, hasHeader, columns }
+}
+
+/**
+ * @name looksLikeCsv
+ * @description Cheap check used to offer CSV conversion for text that is not JSON.
+ */
+export function looksLikeCsv(text: string): boolean {
+  const head = text.trimStart()
+  if (!head || /^[[{"]/.test(head)) return false
+  const rows = parseCsv(text.slice(0, 16 * 1024), detectDelimiter(text), 10)
+  return rows.length >= 2 && rows[0].length >= 2 && rows.every((r) => r.length === rows[0].length)
+}
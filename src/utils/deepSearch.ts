@@ -0,0 +1,191 @@
+// src/utils/deepSearch.ts
+
+// Utility: full-depth text search over derived grid rows.
+// - Walks into ComplexCell data so nested values (e.g. friends[].name) can match.
+// - Hit paths use the same [rowIndex, key, ...] shape as NestedGrid edit paths.
+
+import { GridColumn, GridRow, cellValuePath, isComplexCell } from './deriveGridData'
+
+export type SearchOptions = {
+  query: string
+  regex: boolean
+  caseSensitive: boolean
+}
+
+export type SearchHit = {
+  rowIndex: number
+  /** path relative to the selected array, e.g. [3, 'friends', 1, 'name'] */
+  path: (string | number)[]
+  /** path with indexes below the row collapsed, e.g. `friends[].name`; used to summarize hits */
+  fieldPath: string
+}
+
+export type SearchResult = {
+  hits: SearchHit[]
+  /** true when the walk stopped at MAX_HITS */
+  truncated: boolean
+  error: string | null
+}
+
+export type Matcher = {
+  test: (text: string) => boolean
+  /** [start, end) character ranges of every match in `text` */
+  ranges: (text: string) => [number, number][]
+}
+
+export const EMPTY_SEARCH: SearchOptions = { query: '', regex: false, caseSensitive: false }
+
+/** Beyond this the counter would be meaningless and the walk too slow for typing */
+const MAX_HITS = 10000
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * @name createMatcher
+ * @description Builds a matcher for the search options. Returns null for an empty query.
+ * @throws {Error} When `regex` is set and the pattern does not compile.
+ */
+export function createMatcher(opts: SearchOptions): Matcher | null {
+  if (!opts.query) return null
+  const source = opts.regex ? opts.query : escapeRegExp(opts.query)
+  const flags = opts.caseSensitive ? 'g' : 'gi'
+  const re = new RegExp(source, flags)
+
+  return {
+    test: (text) => {
+      re.lastIndex = 0
+      return re.test(text)
+    },
+    ranges: (text) => {
+      const out: [number, number][] = []
+      re.lastIndex = 0
+      let m: RegExpExecArray | null
+      while ((m = re.exec(text)) !== null) {
+        if (m[0].length === 0) {
+          // Zero-width patterns (e.g. ^) would loop forever
+          re.lastIndex++
+          continue
+        }
+        out.push([m.index, m.index + m[0].length])
+      }
+      return out
+    },
+  }
+}
+
+/** Text a primitive cell shows in the grid; must match NestedGrid's rendering */
+export function displayText(v: unknown): string {
+  return String(v ?? '')
+}
+
+/**
+ * @name pathKey
+ * @description Stable string key for a path, used for Set/Map lookups.
+ */
+export function pathKey(path: (string | number)[]): string {
+  return JSON.stringify(path)
+}
+
+function formatFieldPath(path: (string | number)[]): string {
+  let out = ''
+  for (const seg of path) {
+    if (typeof seg === 'number') out += '[]'
+    else out += out ? `.${seg}` : seg
+  }
+  return out
+}
+
+/**
+ * @name searchRows
+ * @description Finds every primitive value (at any depth) whose text matches the search options.
+ */
+export function searchRows(rows: GridRow[], columns: GridColumn[], opts: SearchOptions): SearchResult {
+  let matcher: Matcher | null
+  try {
+    matcher = createMatcher(opts)
+  } catch (e) {
+    return { hits: [], truncated: false, error: e instanceof Error ? e.message : String(e) }
+  }
+  if (!matcher) return { hits: [], truncated: false, error: null }
+
+  const hits: SearchHit[] = []
+  let truncated = false
+
+  const walk = (value: unknown, rowIndex: number, path: (string | number)[], relPath: (string | number)[]) => {
+    if (truncated) return
+    if (value && typeof value === 'object') {
+      if (Array.isArray(value)) {
+        value.forEach((v, i) => walk(v, rowIndex, [...path, i], [...relPath, i]))
+      } else {
+        for (const [k, v] of Object.entries(value)) walk(v, rowIndex, [...path, k], [...relPath, k])
+      }
+      return
+    }
+    if (value === undefined) return
+    if (matcher.test(displayText(value))) {
+      if (hits.length >= MAX_HITS) {
+        truncated = true
+        return
+      }
+      hits.push({ rowIndex, path, fieldPath: formatFieldPath(relPath) })
+    }
+  }
+
+  rows.forEach((row, rowIndex) => {
+    for (const { key, path } of columns) {
+      const v = row[key]
+      const base = cellValuePath(row, rowIndex, key, path)
+      walk(isComplexCell(v) ? v.data : v, rowIndex, base, base.slice(1))
+    }
+  })
+
+  return { hits, truncated, error: null }
+}
+
+/**
+ * @name summarizeHits
+ * @description Groups hits by field path (indexes collapsed) with counts, most hits first.
+ */
+export function summarizeHits(hits: SearchHit[]): { fieldPath: string; count: number; first: number }[] {
+  const byField = new Map<string, { fieldPath: string; count: number; first: number }>()
+  hits.forEach((h, i) => {
+    const entry = byField.get(h.fieldPath)
+    if (entry) entry.count++
+    else byField.set(h.fieldPath, { fieldPath: h.fieldPath || '(value)', count: 1, first: i })
+  })
+  return Array.from(byField.values()).sort((a, b) => b.count - a.count)
+}
+
+/** What NestedGrid needs to highlight hits and auto-expand the cells that contain them */
+export type GridSearchState = {
+  matcher: Matcher | null
+  /** pathKey of every hit */
+  hitKeys: Set<string>
+  /** pathKey of every strict ancestor of a hit */
+  ancestorKeys: Set<string>
+  /** pathKey of the hit selected with next/previous */
+  activeKey: string | null
+}
+
+/**
+ * @name buildSearchState
+ * @description Indexes hits by path so cells can look themselves up in O(1).
+ */
+export function buildSearchState(result: SearchResult, opts: SearchOptions, activeIndex: number): GridSearchState {
+  let matcher: Matcher | null = null
+  try {
+    matcher = createMatcher(opts)
+  } catch {
+    // invalid regex: result.error already reports it
+  }
+  const hitKeys = new Set<string>()
+  const ancestorKeys = new Set<string>()
+  for (const h of result.hits) {
+    hitKeys.add(pathKey(h.path))
+    for (let i = 1; i < h.path.length; i++) ancestorKeys.add(pathKey(h.path.slice(0, i)))
+  }
+  const active = result.hits[activeIndex]
+  return { matcher, hitKeys, ancestorKeys, activeKey: active ? pathKey(active.path) : null }
+}
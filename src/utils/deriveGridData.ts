@@ -2,23 +2,39 @@
 
 // Utility: derive a tabular grid (rows + columns) from arbitrary JSON text.
 // - Picks the "best" array of records anywhere in the JSON (root or nested).
-// - Tolerant parsing (JSON5 + JSONL detection).
+// - Tolerant parsing (JSON5 + JSONL detection), plus YAML and TOML via formats.ts.
 // - Returns column metadata and a JSONPath-like path to the chosen array.
+// - Exposes the ranked candidate arrays so the UI can override the pick.
+// - Optionally flattens nested fields into dot-path columns (`tags.value.company`).
 
-import JSON5 from 'json5'
+import { formatJsonPath, parseJsonPath, resolvePath } from './jsonPath'
+import { DocFormat, parseDocument } from './formats'
 
 export type GridColumn = {
   key: string
   type: 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array' | 'null' | 'undefined'
+  /** Location of the value inside a record for flattened columns, e.g. ['friends', 0, 'name'] */
+  path?: (string | number)[]
 }
 
 // ✅ FIX: GridRow can now have sub-rows for hierarchical data.
 export type GridRow = {
   subRows?: GridRow[]
   isSubRow?: boolean
+  /** the source element was not an object; its value lives in the `value` column */
+  isValueRow?: boolean
   [key: string]: unknown
 }
 
+/** A scored array found while walking the document, best first */
+export type ArrayCandidate = {
+  path: string
+  pathArray: string[]
+  score: number
+  reason: string
+  length: number
+}
+
 export type DeriveResult = {
   rows: GridRow[]
   columns: GridColumn[]
@@ -27,48 +43,37 @@ export type DeriveResult = {
   pathArray: string[]
   /** free-form notes (why this array was selected) */
   note?: string
+  /** ranked arrays the heuristic considered (capped at MAX_CANDIDATES) */
+  candidates: ArrayCandidate[]
+  /** true when `path` came from DeriveOptions.path rather than the heuristic */
+  pinned: boolean
 }
 
-export type DerivationOutput = {
-  data: DeriveResult | null
-  error: string | null
+export type DeriveOptions = {
+  /** JSONPath-like path that overrides the automatic array selection */
+  path?: string | null
+  /** Syntax of the text; JSON-family when omitted */
+  format?: DocFormat
+  /** Turn nested fields into their own columns; off when omitted */
+  flatten?: FlattenOptions
 }
 
-/**
- * @name parseTolerant
- * @description Tries to parse a string using JSON5, then falls back to JSON, then to JSONL.
- * @returns {[unknown, null] | [null, Error]} A tuple of [data, error].
- */
-function parseTolerant(text: string): [unknown, null] | [null, Error] {
-  try {
-    return [JSON5.parse(text), null]
-  } catch (e1) {
-    try {
-      return [JSON.parse(text), null]
-    } catch (e2) {
-      const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean)
-      if (lines.length > 1) {
-        const objs: unknown[] = []
-        let lastError: Error | null = null
-        for (const l of lines) {
-          try {
-            objs.push(JSON5.parse(l))
-          } catch (e) {
-            lastError = e instanceof Error ? e : new Error(String(e))
-          }
-        }
-        if (objs.length > 0) {
-          return [objs, null]
-        }
-        if (lastError) {
-          return [null, new Error(`Failed to parse as JSON or JSONL. Last line error: ${lastError.message}`)]
-        }
-      }
-      return [null, e1 instanceof Error ? e1 : new Error(String(e1))]
-    }
-  }
+export type FlattenOptions = {
+  /** Nesting levels turned into columns; 0 is off, Infinity flattens every level */
+  depth: number
+  /** 'cell' keeps arrays as complex cells; 'index' adds a column per item (`friends[0].name`) */
+  arrays: 'cell' | 'index'
 }
 
+export const NO_FLATTEN: FlattenOptions = { depth: 0, arrays: 'cell' }
+
+/** Longer arrays stay complex cells even when indexing, or a column would be added per item */
+export const MAX_INDEXED_ITEMS = 20
+
+export type DerivationOutput = {
+  data: DeriveResult | null
+  error: string | null
+}
 
 /** Walk object graph and collect candidate arrays of records */
 function* walkForArrays(node: unknown, path: string[]): Generator<{ path: string[]; arr: unknown[] }> {
@@ -117,7 +122,7 @@ function scoreArray(arr: unknown[]): { score: number; reason: string; keys: stri
   return { score, reason, keys: keys.length ? keys : Array.from(keyFreq.keys()) }
 }
 
-function buildColumns(rows: GridRow[]): GridColumn[] {
+function buildColumns(rows: GridRow[], paths: Map<string, (string | number)[]>): GridColumn[] {
   const keys = new Set<string>()
   for (const r of rows) {
     if (r.isSubRow) continue // Don't use sub-rows to determine columns
@@ -125,18 +130,25 @@ function buildColumns(rows: GridRow[]): GridColumn[] {
   }
   keys.delete('subRows')
   keys.delete('isSubRow')
+  keys.delete('isValueRow')
 
-  return Array.from(keys).map((k) => {
+  // Keep a field's flattened columns next to each other, in the order the fields first appear
+  const rootOf = (k: string) => String(paths.get(k)?.[0] ?? k)
+  const roots = [...new Set(Array.from(keys, rootOf))]
+  const ordered = Array.from(keys).sort((a, b) => roots.indexOf(rootOf(a)) - roots.indexOf(rootOf(b)))
+
+  return ordered.map((k) => {
     let t: GridColumn['type'] = 'undefined'
     for (const r of rows) {
       if (r[k] !== undefined) { t = inferType(r[k]); break }
     }
-    return { key: k, type: t }
+    const path = paths.get(k)
+    return path ? { key: k, type: t, path } : { key: k, type: t }
   })
 }
 
 /** Heuristic: determine scalar-ish type for grid presentation */
-function inferType(v: unknown): GridColumn['type'] {
+export function inferType(v: unknown): GridColumn['type'] {
   if (v === null) return 'null'
   if (v === undefined) return 'undefined'
   const t = typeof v
@@ -193,16 +205,51 @@ function generateSubRows(data: object): GridRow[] {
   })
 }
 
+/**
+ * @name flattenField
+ * @description Writes `value` into `row` under `name`, or, while levels remain, one column per
+ * nested field. Flattened column names are recorded in `paths` with their record path.
+ */
+function flattenField(
+  row: GridRow,
+  paths: Map<string, (string | number)[]>,
+  name: string,
+  path: (string | number)[],
+  value: unknown,
+  levels: number,
+  arrays: FlattenOptions['arrays'],
+) {
+  const isArray = Array.isArray(value)
+  const expand = levels > 0 && !!value && typeof value === 'object' && (isArray
+    ? arrays === 'index' && value.length > 0 && value.length <= MAX_INDEXED_ITEMS
+    : Object.keys(value).length > 0)
+
+  if (!expand) {
+    row[name] = toCell(value)
+    if (path.length > 1 && !paths.has(name)) paths.set(name, path)
+    return
+  }
+  if (isArray) {
+    value.forEach((v, i) => flattenField(row, paths, `${name}[${i}]`, [...path, i], v, levels - 1, arrays))
+  } else {
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+      flattenField(row, paths, `${name}.${k}`, [...path, k], v, levels - 1, arrays)
+    }
+  }
+}
+
 /**
  * @name normalizeRows
  * @description Converts the best-candidate array into a hierarchical structure for the grid.
  * @param arr The array of records to process.
  * @param keys The primary keys to use for the main table columns.
+ * @param flatten Nested fields to turn into columns.
+ * @param paths Receives the record path of every flattened column.
  * @returns An array of GridRow objects with potential `subRows`.
  */
-function normalizeRows(arr: unknown[], keys: string[]): GridRow[] {
+function normalizeRows(arr: unknown[], keys: string[], flatten: FlattenOptions, paths: Map<string, (string | number)[]>): GridRow[] {
   if (keys.length === 1 && keys[0] === 'value') {
-    return arr.map((v) => ({ value: toCell(v) }))
+    return arr.map((v) => ({ value: toCell(v), isValueRow: true }))
   }
 
   return arr.map((v) => {
@@ -216,7 +263,7 @@ function normalizeRows(arr: unknown[], keys: string[]): GridRow[] {
       for (const k of allObjKeys) {
         const val = obj[k]
         if (val && typeof val === 'object') {
-          row[k] = toCell(val)
+          flattenField(row, paths, k, [k], val, flatten.depth, flatten.arrays)
           subRows.push(...generateSubRows({ [k]: val }))
         } else {
           row[k] = val
@@ -228,24 +275,41 @@ function normalizeRows(arr: unknown[], keys: string[]): GridRow[] {
       }
       return row
     }
-    return { value: toCell(v) }
+    return { value: toCell(v), isValueRow: true }
   })
 }
 
+/**
+ * @name cellValuePath
+ * @description Path of a top-level cell relative to the selected array: `[rowIndex, key]`,
+ * `[rowIndex, ...columnPath]` for flattened columns, or just `[rowIndex]` for rows built from
+ * non-object elements.
+ */
+export function cellValuePath(row: GridRow, rowIndex: number, key: string, columnPath?: (string | number)[]): (string | number)[] {
+  if (row.isValueRow && key === 'value') return [rowIndex]
+  return [rowIndex, ...(columnPath ?? [key])]
+}
+
+/** Nested arrays repeat per record (e.g. $[0].friends, $[1].friends), so keep the list short */
+const MAX_CANDIDATES = 50
+
 /**
  * @name deriveGridData
  * @description The main function to process JSON text into grid data.
- * @param {string} text The raw JSON/JSON5/JSONL string.
+ * @param {string} text The raw JSON/JSON5/JSONL, YAML or TOML string.
+ * @param {DeriveOptions} options Optional overrides, e.g. a pinned array path or flattening.
  * @returns {DerivationOutput} An object containing either the derived grid data or an error message.
  */
-export function deriveGridData(text: string): DerivationOutput {
+export function deriveGridData(text: string, options: DeriveOptions = {}): DerivationOutput {
   if (!text.trim()) {
     return { data: null, error: null }
   }
 
-  const [root, err] = parseTolerant(text)
-  if (err) {
-    return { data: null, error: err.message }
+  let root: unknown
+  try {
+    root = parseDocument(text, options.format ?? 'json')
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err.message : String(err) }
   }
 
   const candidates: { path: string[]; arr: unknown[]; score: number; reason: string; keys: string[] }[] = []
@@ -253,22 +317,50 @@ export function deriveGridData(text: string): DerivationOutput {
     const { score, reason, keys } = scoreArray(arr)
     if (score > 0) candidates.push({ path, arr, score, reason, keys })
   }
-  if (candidates.length === 0) {
-    return { data: null, error: null }
+  candidates.sort((a, b) => b.score - a.score)
+
+  const ranked: ArrayCandidate[] = candidates.slice(0, MAX_CANDIDATES).map((c) => ({
+    path: formatJsonPath(c.path),
+    pathArray: c.path,
+    score: Math.round(c.score * 10) / 10,
+    reason: c.reason,
+    length: c.arr.length,
+  }))
+
+  let selected: { path: string[]; arr: unknown[]; reason: string; keys: string[] }
+  if (options.path) {
+    let pathArray: string[]
+    try {
+      pathArray = parseJsonPath(options.path)
+    } catch (e) {
+      return { data: null, error: `Invalid path "${options.path}": ${e instanceof Error ? e.message : String(e)}` }
+    }
+    const node = resolvePath(root, pathArray)
+    if (!Array.isArray(node)) {
+      return { data: null, error: `No array found at ${formatJsonPath(pathArray)}` }
+    }
+    const { reason, keys } = scoreArray(node)
+    selected = { path: pathArray, arr: node, reason: `pinned; ${reason}`, keys }
+  } else {
+    if (candidates.length === 0) {
+      return { data: null, error: null }
+    }
+    selected = candidates[0]
   }
 
-  candidates.sort((a, b) => b.score - a.score)
-  const best = candidates[0]
-  const rows = normalizeRows(best.arr, best.keys)
-  const columns = buildColumns(rows)
-  const pathStr = best.path.join('.').replace(/\.\[/g, '[')
+  const paths = new Map<string, (string | number)[]>()
+  const rows = normalizeRows(selected.arr, selected.keys, options.flatten ?? NO_FLATTEN, paths)
+  const columns = buildColumns(rows, paths)
+  const pathStr = formatJsonPath(selected.path)
 
   const data: DeriveResult = {
     rows,
     columns,
     path: pathStr,
-    pathArray: best.path,
-    note: `Selected array at ${pathStr}; ${best.reason}`,
+    pathArray: selected.path,
+    note: `Selected array at ${pathStr}; ${selected.reason}`,
+    candidates: ranked,
+    pinned: !!options.path,
   }
 
   return { data, error: null }
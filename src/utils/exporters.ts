@@ -0,0 +1,167 @@
+// src/utils/exporters.ts
+
+// Utility: serialize grid records to CSV/TSV, JSON, JSONL, Markdown and HTML.
+// - Records are shaped first (nested values kept as JSON, flattened to dot paths, or
+//   exploded into one output row per array item), then written by a format writer.
+// - Column order follows the grid; flattened columns are inserted where their parent was.
+
+import { GridRow, isComplexCell } from './deriveGridData'
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'jsonl' | 'markdown' | 'html'
+
+/** How objects and arrays inside a cell are written */
+export type NestedMode = 'json' | 'flatten' | 'explode'
+
+export type ExportOptions = {
+  format: ExportFormat
+  nested: NestedMode
+  /** CSV only; TSV always uses a tab */
+  delimiter: string
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string }> = {
+  csv: { label: 'CSV', extension: 'csv' },
+  tsv: { label: 'TSV', extension: 'tsv' },
+  json: { label: 'JSON', extension: 'json' },
+  jsonl: { label: 'JSON Lines', extension: 'jsonl' },
+  markdown: { label: 'Markdown table', extension: 'md' },
+  html: { label: 'HTML table', extension: 'html' },
+}
+
+export const NESTED_MODES: Record<NestedMode, string> = {
+  json: 'As JSON text',
+  flatten: 'Flatten to dot paths',
+  explode: 'Explode arrays into rows',
+}
+
+export type ExportRecord = Record<string, unknown>
+type Table = { columns: string[]; rows: ExportRecord[] }
+
+const isContainer = (v: unknown): v is object => v !== null && typeof v === 'object'
+
+/**
+ * @name gridRowToRecord
+ * @description Plain record for a grid row: ComplexCells are unwrapped to their data and
+ * bookkeeping fields are dropped.
+ */
+export function gridRowToRecord(row: GridRow, columns: string[]): ExportRecord {
+  const out: ExportRecord = {}
+  for (const key of columns) {
+    const v = row[key]
+    out[key] = isComplexCell(v) ? v.data : v
+  }
+  return out
+}
+
+/** Dot-path leaves of a value: `{a: {b: 1}, c: [2]}` → `a.b`, `c.0`; each path is also added to `keys` */
+function flattenValue(value: unknown, prefix: string, out: ExportRecord, keys: Set<string>) {
+  if (isContainer(value)) {
+    const entries = Array.isArray(value) ? value.map((v, i) => [String(i), v] as const) : Object.entries(value)
+    // Empty containers have no leaves; keep them so the column still shows up
+    if (entries.length === 0) {
+      out[prefix] = value
+      keys.add(prefix)
+      return
+    }
+    for (const [k, v] of entries) flattenValue(v, `${prefix}.${k}`, out, keys)
+  } else {
+    out[prefix] = value
+    keys.add(prefix)
+  }
+}
+
+/**
+ * @name shapeRecords
+ * @description Applies the nested-value mode, returning the output columns and rows.
+ */
+export function shapeRecords(records: ExportRecord[], columns: string[], nested: NestedMode): Table {
+  if (nested === 'json') return { columns, rows: records }
+
+  const rows: ExportRecord[] = []
+  // Output columns by the source column they came from, in first-seen order, so each source
+  // column's children stay together (a literal "a.b" column is not one of a's children)
+  const keysBySource = columns.map(() => new Set<string>())
+  for (const record of records) {
+    if (nested === 'flatten') {
+      const flat: ExportRecord = {}
+      columns.forEach((c, i) => flattenValue(record[c], c, flat, keysBySource[i]))
+      rows.push(flat)
+      continue
+    }
+    // explode: zip array cells by index; other cells repeat on every child row
+    const arrays = columns.filter((c) => Array.isArray(record[c]))
+    const count = Math.max(1, ...arrays.map((c) => (record[c] as unknown[]).length))
+    for (let i = 0; i < count; i++) {
+      const flat: ExportRecord = {}
+      columns.forEach((c, j) => {
+        const v = record[c]
+        flattenValue(Array.isArray(v) ? v[i] : v, c, flat, keysBySource[j])
+      })
+      rows.push(flat)
+    }
+  }
+  return { columns: [...new Set(keysBySource.flatMap((keys) => [...keys]))], rows }
+}
+
+/** Text for a cell in the text formats */
+function cellText(v: unknown): string {
+  if (v === null || v === undefined) return ''
+  if (isContainer(v)) return JSON.stringify(v)
+  return String(v)
+}
+
+function writeDelimited({ columns, rows }: Table, delimiter: string): string {
+  const esc = (v: unknown) => {
+    const s = cellText(v)
+    return s.includes(delimiter) || /["\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+  }
+  const lines = [columns.map(esc).join(delimiter), ...rows.map((r) => columns.map((c) => esc(r[c])).join(delimiter))]
+  return `${lines.join('\r\n')}\r\n`
+}
+
+function writeMarkdown({ columns, rows }: Table): string {
+  const esc = (v: unknown) => cellText(v).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+  const lines = [
+    `| ${columns.map(esc).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map((r) => `| ${columns.map((c) => esc(r[c])).join(' | ')} |`),
+  ]
+  return `${lines.join('\n')}\n`
+}
+
+function writeHtml({ columns, rows }: Table): string {
+  const esc = (v: unknown) =>
+    cellText(v).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+  const head = columns.map((c) => `<th>${esc(c)}</th>`).join('')
+  const body = rows.map((r) => `    <tr>${columns.map((c) => `<td>${esc(r[c])}</td>`).join('')}</tr>`).join('\n')
+  return `<table>\n  <thead>\n    <tr>${head}</tr>\n  </thead>\n  <tbody>\n${body}\n  </tbody>\n</table>\n`
+}
+
+/** Record with keys in column order; missing keys are left out rather than written as null */
+function pick(row: ExportRecord, columns: string[]): ExportRecord {
+  const out: ExportRecord = {}
+  for (const c of columns) if (row[c] !== undefined) out[c] = row[c]
+  return out
+}
+
+/**
+ * @name exportRecords
+ * @description Serializes records in the chosen format.
+ */
+export function exportRecords(records: ExportRecord[], columns: string[], options: ExportOptions): string {
+  const table = shapeRecords(records, columns, options.nested)
+  switch (options.format) {
+    case 'csv':
+      return writeDelimited(table, options.delimiter || ',')
+    case 'tsv':
+      return writeDelimited(table, '\t')
+    case 'json':
+      return `${JSON.stringify(table.rows.map((r) => pick(r, table.columns)), null, 2)}\n`
+    case 'jsonl':
+      return table.rows.map((r) => `${JSON.stringify(pick(r, table.columns))}\n`).join('')
+    case 'markdown':
+      return writeMarkdown(table)
+    case 'html':
+      return writeHtml(table)
+  }
+}
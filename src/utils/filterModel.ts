@@ -0,0 +1,277 @@
+// src/utils/filterModel.ts
+
+// Utility: typed, per-column filter conditions for the grid.
+// - Conditions are grouped; each group combines its conditions with AND/OR,
+//   and the groups themselves are combined with the model's combinator.
+// - Operators offered for a column depend on its GridColumn.type.
+
+import { GridColumn, GridRow, isComplexCell } from './deriveGridData'
+
+export type FilterOperator =
+  | 'equals' | 'is' | 'notEquals' | 'contains' | 'notContains' | 'startsWith' | 'endsWith' | 'regex'
+  | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'between'
+  | 'before' | 'after' | 'dateBetween'
+  | 'isTrue' | 'isFalse'
+  | 'isNull' | 'isNotNull' | 'isMissing' | 'isPresent'
+  | 'lengthEq' | 'lengthGt' | 'lengthLt' | 'isEmpty' | 'isNotEmpty'
+
+export type Combinator = 'and' | 'or'
+
+export type FilterCondition = {
+  id: string
+  column: string
+  operator: FilterOperator
+  value?: string
+  /** upper bound for the range operators */
+  value2?: string
+  /** range operators: leave out the upper bound itself, as histogram bins do */
+  upperExclusive?: boolean
+}
+
+export type FilterGroup = {
+  id: string
+  combinator: Combinator
+  conditions: FilterCondition[]
+}
+
+export type FilterModel = {
+  combinator: Combinator
+  groups: FilterGroup[]
+}
+
+export const EMPTY_FILTER: FilterModel = { combinator: 'and', groups: [] }
+
+type OperatorInfo = { label: string; arity: 0 | 1 | 2 }
+
+export const OPERATORS: Record<FilterOperator, OperatorInfo> = {
+  equals: { label: 'equals', arity: 1 },
+  is: { label: 'is exactly', arity: 1 },
+  notEquals: { label: 'does not equal', arity: 1 },
+  contains: { label: 'contains', arity: 1 },
+  notContains: { label: 'does not contain', arity: 1 },
+  startsWith: { label: 'starts with', arity: 1 },
+  endsWith: { label: 'ends with', arity: 1 },
+  regex: { label: 'matches regex', arity: 1 },
+  eq: { label: '=', arity: 1 },
+  neq: { label: '≠', arity: 1 },
+  gt: { label: '>', arity: 1 },
+  gte: { label: '≥', arity: 1 },
+  lt: { label: '<', arity: 1 },
+  lte: { label: '≤', arity: 1 },
+  between: { label: 'between', arity: 2 },
+  before: { label: 'before', arity: 1 },
+  after: { label: 'after', arity: 1 },
+  dateBetween: { label: 'between', arity: 2 },
+  isTrue: { label: 'is true', arity: 0 },
+  isFalse: { label: 'is false', arity: 0 },
+  isNull: { label: 'is null', arity: 0 },
+  isNotNull: { label: 'is not null', arity: 0 },
+  isMissing: { label: 'is missing', arity: 0 },
+  isPresent: { label: 'is present', arity: 0 },
+  lengthEq: { label: 'length =', arity: 1 },
+  lengthGt: { label: 'length >', arity: 1 },
+  lengthLt: { label: 'length <', arity: 1 },
+  isEmpty: { label: 'is empty', arity: 0 },
+  isNotEmpty: { label: 'is not empty', arity: 0 },
+}
+
+const PRESENCE: FilterOperator[] = ['isNull', 'isNotNull', 'isMissing', 'isPresent']
+
+/**
+ * @name operatorsFor
+ * @description Lists the operators that make sense for a column type. Null/missing checks are always offered.
+ */
+export function operatorsFor(type: GridColumn['type']): FilterOperator[] {
+  switch (type) {
+    case 'number':
+      return ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', ...PRESENCE]
+    case 'date':
+      return ['before', 'after', 'dateBetween', 'equals', 'is', 'contains', ...PRESENCE]
+    case 'boolean':
+      return ['isTrue', 'isFalse', ...PRESENCE]
+    case 'array':
+    case 'object':
+      return ['lengthEq', 'lengthGt', 'lengthLt', 'isEmpty', 'isNotEmpty', ...PRESENCE]
+    default:
+      return ['equals', 'is', 'notEquals', 'contains', 'notContains', 'startsWith', 'endsWith', 'regex', ...PRESENCE]
+  }
+}
+
+/**
+ * @name parseDateValue
+ * @description Parses ISO-like dates, including the "2018-07-22T10:00:39 +04:00" form with a
+ * space before the offset. Returns NaN when the value is not a date.
+ */
+export function parseDateValue(v: unknown): number {
+  if (typeof v !== 'string' || !v.trim()) return NaN
+  return Date.parse(v.trim().replace(/\s+([+-]\d{2}:?\d{2})$/, '$1'))
+}
+
+const regexCache = new Map<string, RegExp | null>()
+function toRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'))
+    } catch {
+      regexCache.set(pattern, null)
+    }
+  }
+  return regexCache.get(pattern) ?? null
+}
+
+/** Plain text of a cell for string comparisons */
+function cellText(v: unknown): string {
+  if (v === null || v === undefined) return ''
+  if (isComplexCell(v)) return JSON.stringify(v.data)
+  return String(v)
+}
+
+function cellLength(v: unknown): number | null {
+  if (isComplexCell(v)) return v.itemCount ?? 0
+  if (typeof v === 'string') return v.length
+  return null
+}
+
+/**
+ * @name evaluateCondition
+ * @description Tests one condition against a top-level grid row. Incomplete conditions (missing operand) pass.
+ */
+export function evaluateCondition(c: FilterCondition, row: GridRow): boolean {
+  const present = Object.prototype.hasOwnProperty.call(row, c.column) && row[c.column] !== undefined
+  const v = present ? row[c.column] : undefined
+  const { arity } = OPERATORS[c.operator]
+  if (arity >= 1 && (c.value === undefined || c.value === '')) return true
+  if (arity === 2 && (c.value2 === undefined || c.value2 === '')) return true
+
+  const text = cellText(v)
+  const q = c.value ?? ''
+
+  switch (c.operator) {
+    case 'isNull': return present && v === null
+    case 'isNotNull': return present && v !== null
+    case 'isMissing': return !present
+    case 'isPresent': return present
+    case 'isTrue': return v === true
+    case 'isFalse': return v === false
+
+    case 'equals': return text.toLowerCase() === q.toLowerCase()
+    // Case-sensitive, like the counts of a column's values
+    case 'is': return text === q
+    case 'notEquals': return text.toLowerCase() !== q.toLowerCase()
+    case 'contains': return text.toLowerCase().includes(q.toLowerCase())
+    case 'notContains': return !text.toLowerCase().includes(q.toLowerCase())
+    case 'startsWith': return text.toLowerCase().startsWith(q.toLowerCase())
+    case 'endsWith': return text.toLowerCase().endsWith(q.toLowerCase())
+    case 'regex': {
+      const re = toRegex(q)
+      return re ? re.test(text) : true
+    }
+
+    case 'eq': case 'neq': case 'gt': case 'gte': case 'lt': case 'lte': case 'between': {
+      if (typeof v !== 'number') return false
+      const a = Number(q)
+      if (c.operator === 'eq') return v === a
+      if (c.operator === 'neq') return v !== a
+      if (c.operator === 'gt') return v > a
+      if (c.operator === 'gte') return v >= a
+      if (c.operator === 'lt') return v < a
+      if (c.operator === 'lte') return v <= a
+      return v >= a && (c.upperExclusive ? v < Number(c.value2) : v <= Number(c.value2))
+    }
+
+    case 'before': case 'after': case 'dateBetween': {
+      const t = parseDateValue(v)
+      if (isNaN(t)) return false
+      const a = parseDateValue(q)
+      if (c.operator === 'before') return t < a
+      if (c.operator === 'after') return t > a
+      const b = parseDateValue(c.value2)
+      return t >= a && (c.upperExclusive ? t < b : t <= b)
+    }
+
+    case 'lengthEq': case 'lengthGt': case 'lengthLt': case 'isEmpty': case 'isNotEmpty': {
+      const len = cellLength(v)
+      if (len === null) return false
+      if (c.operator === 'isEmpty') return len === 0
+      if (c.operator === 'isNotEmpty') return len > 0
+      const n = Number(q)
+      if (c.operator === 'lengthEq') return len === n
+      if (c.operator === 'lengthGt') return len > n
+      return len < n
+    }
+  }
+}
+
+/**
+ * @name isFilterActive
+ * @description True when the model has at least one condition.
+ */
+export function isFilterActive(model: FilterModel): boolean {
+  return model.groups.some((g) => g.conditions.length > 0)
+}
+
+/**
+ * @name evaluateFilter
+ * @description Tests a row against the whole model. Empty groups are ignored.
+ */
+export function evaluateFilter(model: FilterModel, row: GridRow): boolean {
+  const groups = model.groups.filter((g) => g.conditions.length > 0)
+  if (groups.length === 0) return true
+  const testGroup = (g: FilterGroup) =>
+    g.combinator === 'and'
+      ? g.conditions.every((c) => evaluateCondition(c, row))
+      : g.conditions.some((c) => evaluateCondition(c, row))
+  return model.combinator === 'and' ? groups.every(testGroup) : groups.some(testGroup)
+}
+
+/**
+ * @name describeCondition
+ * @description Short human-readable text for a condition chip, e.g. `age between 20 and 40`.
+ */
+export function describeCondition(c: FilterCondition): string {
+  const { label, arity } = OPERATORS[c.operator]
+  if (arity === 0) return `${c.column} ${label}`
+  if (arity === 2) return `${c.column} ${label} ${c.value ?? '…'} and ${c.upperExclusive ? 'below ' : ''}${c.value2 ?? '…'}`
+  return `${c.column} ${label} ${c.value ?? '…'}`
+}
+
+let nextId = 0
+/** Unique id for groups and conditions (only needs to be unique within a session) */
+export function newFilterId(): string {
+  nextId += 1
+  return `f${nextId}`
+}
+
+/**
+ * @name removeCondition
+ * @description Returns a copy of the model without the given condition; groups left empty are dropped.
+ */
+export function removeCondition(model: FilterModel, conditionId: string): FilterModel {
+  return {
+    ...model,
+    groups: model.groups
+      .map((g) => ({ ...g, conditions: g.conditions.filter((c) => c.id !== conditionId) }))
+      .filter((g) => g.conditions.length > 0),
+  }
+}
+
+/**
+ * @name addCondition
+ * @description Returns a copy of the model that also requires `condition`. Under an OR model the
+ * condition is distributed into every alternative: (A or B) and c = (A and c) or (B and c).
+ */
+export function addCondition(model: FilterModel, condition: Omit<FilterCondition, 'id'>): FilterModel {
+  const withId = () => ({ ...condition, id: newFilterId() })
+  const groups = model.groups.filter((g) => g.conditions.length > 0)
+  if (model.combinator === 'and' || groups.length <= 1) {
+    return { combinator: 'and', groups: [...groups, { id: newFilterId(), combinator: 'and', conditions: [withId()] }] }
+  }
+  return {
+    combinator: 'or',
+    groups: groups.flatMap((g) =>
+      g.combinator === 'and'
+        ? [{ ...g, conditions: [...g.conditions, withId()] }]
+        : g.conditions.map((c) => ({ id: newFilterId(), combinator: 'and' as const, conditions: [c, withId()] })),
+    ),
+  }
+}
@@ -0,0 +1,198 @@
+// src/utils/formats.ts
+
+// Utility: the document formats the app reads and writes (JSON family, YAML, TOML).
+// - JSON text is parsed tolerantly (JSON5, then JSONL); YAML may hold several documents,
+//   which become one array.
+// - Formats are picked from the file extension, or sniffed from the text.
+// - YAML value edits go through the yaml Document API so comments elsewhere survive;
+//   TOML and whole-document rewrites re-serialize the value.
+
+import JSON5 from 'json5'
+import { parseAllDocuments, stringify as stringifyYaml, type Document } from 'yaml'
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml'
+
+export type DocFormat = 'json' | 'yaml' | 'toml'
+
+export const DOC_FORMATS: Record<DocFormat, { label: string; language: string; extensions: string[] }> = {
+  json: { label: 'JSON', language: 'json', extensions: ['json', 'jsonl', 'ndjson', 'json5'] },
+  yaml: { label: 'YAML', language: 'yaml', extensions: ['yaml', 'yml'] },
+  // Monaco has no TOML grammar; INI highlighting is the closest
+  toml: { label: 'TOML', language: 'ini', extensions: ['toml'] },
+}
+
+type Path = (string | number)[]
+
+/**
+ * @name parseTolerant
+ * @description Tries to parse a string using JSON5, then falls back to JSON, then to JSONL.
+ * @returns {[unknown, null] | [null, Error]} A tuple of [data, error].
+ */
+export function parseTolerant(text: string): [unknown, null] | [null, Error] {
+  try {
+    return [JSON5.parse(text), null]
+  } catch (e1) {
+    try {
+      return [JSON.parse(text), null]
+    } catch (e2) {
+      const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean)
+      if (lines.length > 1) {
+        const objs: unknown[] = []
+        let lastError: Error | null = null
+        for (const l of lines) {
+          try {
+            objs.push(JSON5.parse(l))
+          } catch (e) {
+            lastError = e instanceof Error ? e : new Error(String(e))
+          }
+        }
+        if (objs.length > 0) {
+          return [objs, null]
+        }
+        if (lastError) {
+          return [null, new Error(`Failed to parse as JSON or JSONL. Last line error: ${lastError.message}`)]
+        }
+      }
+      return [null, e1 instanceof Error ? e1 : new Error(String(e1))]
+    }
+  }
+}
+
+/**
+ * @name formatFromPath
+ * @description Format implied by a file extension, or null when it says nothing.
+ */
+export function formatFromPath(filePath?: string): DocFormat | null {
+  const ext = filePath?.split('.').pop()?.toLowerCase()
+  if (!ext) return null
+  for (const [format, info] of Object.entries(DOC_FORMATS) as [DocFormat, (typeof DOC_FORMATS)[DocFormat]][]) {
+    if (info.extensions.includes(ext)) return format
+  }
+  return null
+}
+
+/**
+ * @name sniffFormat
+ * @description Guesses the format of untitled text: TOML table headers or `key = value` lines,
+ * YAML `key: value`/`- item` lines or a `---` marker, and JSON otherwise.
+ */
+export function sniffFormat(text: string): DocFormat {
+  const lines = text.slice(0, 16 * 1024).split(/\r?\n/).map((l) => l.trim()).filter((l) => l && !l.startsWith('#'))
+  const first = lines[0] ?? ''
+  const tomlHeader = /^\[\[?[\w."' -]+\]\]?$/.test(first)
+  let assignments = 0
+  let mappings = 0
+  for (const line of lines.slice(0, 50)) {
+    if (/^[\w."'-]+\s*=\s*\S/.test(line)) assignments++
+    else if (/^(?:- |[\w"'][^:{}[\]]*:(?:\s|$))/.test(line)) mappings++
+  }
+  if (tomlHeader && assignments > 0) return 'toml'
+  if (/^[[{]/.test(first)) return 'json'
+  if (first === '---' || first.startsWith('%YAML')) return 'yaml'
+  if (assignments > mappings) return 'toml'
+  if (mappings > 0) return 'yaml'
+  return 'json'
+}
+
+/** Dates and other non-JSON values (TomlDate, null-prototype tables) become plain JSON */
+function toPlain(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value))
+}
+
+function parseYamlDocuments(text: string): Document.Parsed[] {
+  const docs = parseAllDocuments(text)
+  if (!Array.isArray(docs)) return []
+  for (const doc of docs) {
+    if (doc.errors.length > 0) throw new Error(doc.errors[0].message)
+  }
+  return docs
+}
+
+/**
+ * @name parseDocument
+ * @description Parses text in the given format. A YAML stream with several documents
+ * becomes an array with one item per document.
+ * @throws {Error} On syntax errors.
+ */
+export function parseDocument(text: string, format: DocFormat): unknown {
+  if (format === 'yaml') {
+    const docs = parseYamlDocuments(text)
+    if (docs.length === 1) return toPlain(docs[0].toJS())
+    return docs.map((d) => toPlain(d.toJS()))
+  }
+  if (format === 'toml') return toPlain(parseToml(text))
+  const [value, err] = parseTolerant(text)
+  if (err) throw err
+  return value
+}
+
+/**
+ * @name serializeDocument
+ * @description Writes a value in the given format. With `multiDocument`, an array is written
+ * as a YAML stream (one document per item).
+ * @throws {Error} When TOML is asked to write something other than a table.
+ */
+export function serializeDocument(value: unknown, format: DocFormat, options: { multiDocument?: boolean } = {}): string {
+  if (format === 'yaml') {
+    if (options.multiDocument && Array.isArray(value)) return value.map((v) => stringifyYaml(v)).join('---\n')
+    return stringifyYaml(value)
+  }
+  if (format === 'toml') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('TOML documents must be a table (an object at the top level)')
+    }
+    return stringifyToml(value as Record<string, unknown>)
+  }
+  return JSON.stringify(value, null, 2)
+}
+
+/** YAML stream with more than one document */
+function isYamlStream(text: string): boolean {
+  return parseYamlDocuments(text).length > 1
+}
+
+/**
+ * @name convertDocument
+ * @description Converts text from one format to another. Comments do not survive.
+ */
+export function convertDocument(text: string, from: DocFormat, to: DocFormat): string {
+  if (from === to) return text
+  return serializeDocument(parseDocument(text, from), to)
+}
+
+/**
+ * @name transformDocument
+ * @description Rewrites a YAML/TOML document after `fn` changes its value (structural edits,
+ * reformatting). YAML streams stay streams.
+ */
+export function transformDocument(text: string, format: DocFormat, fn: (value: unknown) => unknown): string {
+  const multiDocument = format === 'yaml' && isYamlStream(text)
+  return serializeDocument(fn(parseDocument(text, format)), format, { multiDocument })
+}
+
+/**
+ * @name setDocumentValue
+ * @description Sets the value at `path` in a YAML or TOML document. YAML is edited in place,
+ * keeping comments and styles; in a stream the first path segment is the document index.
+ */
+export function setDocumentValue(text: string, format: DocFormat, path: Path, value: unknown): string {
+  if (format !== 'yaml') {
+    return transformDocument(text, format, (root) => {
+      if (path.length === 0) return value
+      let node = root as Record<string | number, unknown>
+      for (const seg of path.slice(0, -1)) {
+        if (node[seg] === null || typeof node[seg] !== 'object') node[seg] = typeof seg === 'number' ? [] : {}
+        node = node[seg] as Record<string | number, unknown>
+      }
+      node[path[path.length - 1]] = value
+      return root
+    })
+  }
+  const docs = parseYamlDocuments(text)
+  const stream = docs.length > 1
+  const doc = stream ? docs[path[0] as number] : docs[0]
+  const inner = stream ? path.slice(1) : path
+  if (!doc) throw new Error(`No YAML document ${path[0]}`)
+  if (inner.length === 0) doc.contents = doc.createNode(value) as typeof doc.contents
+  else doc.setIn(inner, value)
+  return docs.map((d) => d.toString()).join('')
+}
@@ -0,0 +1,59 @@
+// src/utils/fuzzyMatch.ts
+
+// Utility: fuzzy matching for the command palette.
+// - The query's characters must appear in order, ignoring case ("fmt" matches "Format").
+// - Matches at word starts and runs of consecutive characters score higher, gaps lower, so
+//   "ea" ranks "Expand All" above "Clear".
+
+export type FuzzyMatch = {
+  score: number
+  /** Indexes of the matched characters in the text, for highlighting */
+  positions: number[]
+}
+
+const isWordStart = (text: string, i: number) =>
+  i === 0 || /[\s\-_.:/]/.test(text[i - 1]) || (/[a-z]/.test(text[i - 1]) && /[A-Z]/.test(text[i]))
+
+/**
+ * @name fuzzyMatch
+ * @description Matches `query` against `text`; null when the characters do not appear in order.
+ * Each query character prefers the next word start it can reach, falling back to the next
+ * occurrence, as long as the rest of the query still fits after it.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const q = query.replace(/\s+/g, '').toLowerCase()
+  const t = text.toLowerCase()
+  if (!q) return { score: 0, positions: [] }
+
+  // fits[i] is the earliest index from which q.slice(i) still matches, for the look-ahead
+  const fits = new Array<number>(q.length + 1).fill(-1)
+  fits[q.length] = t.length
+  for (let i = q.length - 1, j = t.length - 1; i >= 0; i--) {
+    while (j >= 0 && t[j] !== q[i]) j--
+    if (j < 0) return null
+    fits[i] = j--
+  }
+
+  const positions: number[] = []
+  let score = 0
+  let from = 0
+  for (let i = 0; i < q.length; i++) {
+    let at = t.indexOf(q[i], from)
+    // A word start further on is better, if the rest of the query still fits behind it
+    for (let j = at; j !== -1 && j <= fits[i]; j = t.indexOf(q[i], j + 1)) {
+      if (isWordStart(text, j)) {
+        at = j
+        break
+      }
+    }
+    const previous = positions[positions.length - 1]
+    score += 1
+    if (isWordStart(text, at)) score += 8
+    if (previous !== undefined && at === previous + 1) score += 5
+    score -= Math.min(at - from, 10) * 0.2
+    positions.push(at)
+    from = at + 1
+  }
+  // Shorter texts win ties: the query covers more of them
+  return { score: score - text.length * 0.01, positions }
+}
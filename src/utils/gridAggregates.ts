@@ -0,0 +1,104 @@
+// src/utils/gridAggregates.ts
+
+// Utility: group keys and per-column aggregates for grouped grids and the totals footer.
+// - Cells are unwrapped from ComplexCells; objects and arrays group by their JSON text.
+// - sum/avg/min/max only look at numbers; count skips missing and null values, distinct skips
+//   missing ones.
+
+import { GridRow, isComplexCell } from './deriveGridData'
+
+export type AggregateKind = 'count' | 'distinct' | 'sum' | 'avg' | 'min' | 'max'
+
+export const AGGREGATES: Record<AggregateKind, string> = {
+  count: 'Count',
+  distinct: 'Distinct',
+  sum: 'Sum',
+  avg: 'Average',
+  min: 'Min',
+  max: 'Max',
+}
+
+const cellData = (row: GridRow, key: string) => {
+  const v = row[key]
+  return isComplexCell(v) ? v.data : v
+}
+
+/**
+ * @name groupingValue
+ * @description Value a row is grouped under for `key`: primitives as-is, containers as JSON text.
+ */
+export function groupingValue(row: GridRow, key: string): string | number | boolean | null | undefined {
+  const v = cellData(row, key)
+  if (v === null || v === undefined) return v
+  return typeof v === 'object' ? JSON.stringify(v) : (v as string | number | boolean)
+}
+
+/** Label for a group header */
+export function groupLabel(value: unknown): string {
+  if (value === undefined) return '(missing)'
+  if (value === '') return '(empty string)'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+/**
+ * @name defaultAggregate
+ * @description Sum for columns holding only numbers (nulls aside), distinct count otherwise.
+ */
+export function defaultAggregate(rows: GridRow[], key: string): AggregateKind {
+  let numbers = 0
+  for (const row of rows) {
+    const v = cellData(row, key)
+    if (v === null || v === undefined) continue
+    if (typeof v !== 'number') return 'distinct'
+    numbers++
+  }
+  return numbers > 0 ? 'sum' : 'distinct'
+}
+
+/**
+ * @name aggregateRows
+ * @description Aggregate of `key` over `rows`; null when a numeric aggregate has no numbers.
+ */
+export function aggregateRows(rows: GridRow[], key: string, kind: AggregateKind): number | null {
+  if (kind === 'count' || kind === 'distinct') {
+    let count = 0
+    const seen = new Set<unknown>()
+    for (const row of rows) {
+      const v = groupingValue(row, key)
+      if (kind === 'distinct') {
+        if (v !== undefined) seen.add(v)
+      } else if (v !== null && v !== undefined) count++
+    }
+    return kind === 'distinct' ? seen.size : count
+  }
+
+  let n = 0
+  let sum = 0
+  let min = Infinity
+  let max = -Infinity
+  for (const row of rows) {
+    const v = cellData(row, key)
+    if (typeof v !== 'number' || !Number.isFinite(v)) continue
+    n++
+    sum += v
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  if (n === 0) return null
+  switch (kind) {
+    case 'sum':
+      return sum
+    case 'avg':
+      return sum / n
+    case 'min':
+      return min
+    case 'max':
+      return max
+  }
+}
+
+/** Aggregate for display; null reads as an em dash */
+export function formatAggregate(value: number | null): string {
+  if (value === null) return '—'
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 4 })
+}
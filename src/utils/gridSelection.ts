@@ -0,0 +1,34 @@
+// src/utils/gridSelection.ts
+
+// Utility: the grid-side half of editor/grid selection sync. Paths are relative to the
+// selected array ([rowIndex, key, ...]), like NestedGrid edit paths.
+
+import { pathKey } from './deepSearch'
+
+export type GridSelectionState = {
+  /** pathKey of the selected cell, or null */
+  key: string | null
+  /** pathKey of every strict ancestor; NestedGrid expands these */
+  ancestorKeys: Set<string>
+  rowIndex: number | null
+  /** true when the selection came from the editor and the cell should scroll into view */
+  reveal: boolean
+}
+
+export const EMPTY_SELECTION: GridSelectionState = { key: null, ancestorKeys: new Set(), rowIndex: null, reveal: false }
+
+/**
+ * @name buildSelectionState
+ * @description Indexes a selected path for O(1) lookups from NestedGrid cells.
+ */
+export function buildSelectionState(path: (string | number)[] | null, reveal: boolean): GridSelectionState {
+  if (!path || path.length === 0) return EMPTY_SELECTION
+  const ancestorKeys = new Set<string>()
+  for (let i = 1; i < path.length; i++) ancestorKeys.add(pathKey(path.slice(0, i)))
+  return {
+    key: pathKey(path),
+    ancestorKeys,
+    rowIndex: typeof path[0] === 'number' ? path[0] : null,
+    reveal,
+  }
+}
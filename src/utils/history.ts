@@ -0,0 +1,124 @@
+// src/utils/history.ts
+
+// Utility: a single undo/redo history for grid and editor edits.
+// - Every change is stored as text edits plus their inverse, never as full snapshots,
+//   so a long session on a large document stays cheap.
+// - Grid edits also record the path and old/new values for the history panel.
+// - Consecutive editor keystrokes are coalesced into one entry.
+
+import { TextEdit, applyTextEdits } from './textEdits'
+
+export type HistorySource = 'grid' | 'editor' | 'command'
+
+export type HistoryEntry = {
+  id: number
+  label: string
+  source: HistorySource
+  /** document path of a grid edit */
+  path?: (string | number)[]
+  oldValue?: unknown
+  newValue?: unknown
+  /** edits that turn the text before this entry into the text after it */
+  forward: TextEdit[]
+  /** edits that undo `forward` */
+  backward: TextEdit[]
+  timestamp: number
+}
+
+export type HistoryState = {
+  entries: HistoryEntry[]
+  /** number of entries currently applied; entries[index..] can be redone */
+  index: number
+}
+
+export const EMPTY_HISTORY: HistoryState = { entries: [], index: 0 }
+
+/** Older entries are dropped beyond this */
+const MAX_ENTRIES = 500
+
+/** Editor changes closer together than this merge into one entry */
+const COALESCE_MS = 1000
+
+let nextEntryId = 0
+
+/**
+ * @name invertEdits
+ * @description Computes the edits that restore `before` after `edits` were applied to it.
+ */
+export function invertEdits(before: string, edits: TextEdit[]): TextEdit[] {
+  const sorted = [...edits].sort((a, b) => a.offset - b.offset)
+  let delta = 0
+  return sorted.map((e) => {
+    const inverse = { offset: e.offset + delta, length: e.text.length, text: before.slice(e.offset, e.offset + e.length) }
+    delta += e.text.length - e.length
+    return inverse
+  })
+}
+
+/**
+ * @name diffText
+ * @description Single edit covering the changed middle of two texts (common prefix/suffix trimmed).
+ * Returns null when the texts are equal.
+ */
+export function diffText(before: string, after: string): TextEdit | null {
+  if (before === after) return null
+  let start = 0
+  const max = Math.min(before.length, after.length)
+  while (start < max && before.charCodeAt(start) === after.charCodeAt(start)) start++
+  let endBefore = before.length
+  let endAfter = after.length
+  while (endBefore > start && endAfter > start && before.charCodeAt(endBefore - 1) === after.charCodeAt(endAfter - 1)) {
+    endBefore--
+    endAfter--
+  }
+  return { offset: start, length: endBefore - start, text: after.slice(start, endAfter) }
+}
+
+/**
+ * @name createEntry
+ * @description Builds a history entry for edits about to be applied to `before`.
+ */
+export function createEntry(
+  before: string,
+  forward: TextEdit[],
+  meta: Pick<HistoryEntry, 'label' | 'source'> & Partial<Pick<HistoryEntry, 'path' | 'oldValue' | 'newValue'>>,
+): HistoryEntry {
+  return { id: ++nextEntryId, ...meta, forward, backward: invertEdits(before, forward), timestamp: Date.now() }
+}
+
+/**
+ * @name pushEntry
+ * @description Records an entry, discarding anything that could have been redone. Editor
+ * entries merge into the previous editor entry when typed in quick succession.
+ */
+export function pushEntry(state: HistoryState, entry: HistoryEntry, before: string): HistoryState {
+  const entries = state.entries.slice(0, state.index)
+  const last = entries[entries.length - 1]
+  if (
+    entry.source === 'editor' &&
+    last?.source === 'editor' &&
+    entry.timestamp - last.timestamp < COALESCE_MS
+  ) {
+    // Merge: diff the text before `last` against the text after `entry`
+    const original = applyTextEdits(before, last.backward)
+    const after = applyTextEdits(before, entry.forward)
+    const merged = diffText(original, after)
+    entries[entries.length - 1] = merged
+      ? { ...last, forward: [merged], backward: invertEdits(original, [merged]), timestamp: entry.timestamp }
+      : { ...last, forward: [], backward: [], timestamp: entry.timestamp }
+    return { entries, index: entries.length }
+  }
+  entries.push(entry)
+  const overflow = Math.max(0, entries.length - MAX_ENTRIES)
+  return { entries: entries.slice(overflow), index: entries.length - overflow }
+}
+
+/**
+ * @name formatValue
+ * @description Short display text for an old/new value in the history panel.
+ */
+export function formatValue(v: unknown): string {
+  if (v === undefined) return '∅'
+  const s = JSON.stringify(v) ?? String(v)
+  return s.length > 40 ? `${s.slice(0, 37)}…` : s
+}
@@ -0,0 +1,317 @@
+// src/utils/jsonAst.ts
+
+// Utility: a JSON5-tolerant parser that keeps source offsets for every node.
+// - Accepts the same inputs as parseTolerant: JSON, JSON5 (comments, single quotes,
+//   unquoted keys, trailing commas, hex/Infinity/NaN) and JSONL.
+// - JSONL documents become a synthetic root array with one item per parsed line.
+// - Offsets are UTF-16 indexes into the text, as used by Monaco's getPositionAt.
+
+export type JsonValueNode = {
+  type: 'string' | 'number' | 'boolean' | 'null'
+  start: number
+  end: number
+  value: string | number | boolean | null
+}
+
+export type JsonProperty = {
+  key: string
+  keyStart: number
+  keyEnd: number
+  value: JsonNode
+}
+
+export type JsonObjectNode = {
+  type: 'object'
+  start: number
+  end: number
+  properties: JsonProperty[]
+}
+
+export type JsonArrayNode = {
+  type: 'array'
+  start: number
+  end: number
+  items: JsonNode[]
+  /** true for the synthetic root of a JSONL document (no brackets in the source) */
+  lines?: boolean
+}
+
+export type JsonNode = JsonValueNode | JsonObjectNode | JsonArrayNode
+
+const ID_START = /[A-Za-z_$\u0080-\uffff]/
+const ID_PART = /[\w$\u0080-\uffff]/
+const NUMBER = /[+-]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/y
+const WHITESPACE = /[\s\ufeff\u00a0\u2028\u2029]/
+
+const ESCAPES: Record<string, string> = {
+  b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v', '0': '\0',
+}
+
+/**
+ * Parses a single value from text[start, limit). Returns the node and the offset just
+ * after it (trailing trivia skipped).
+ */
+function parseRange(text: string, start: number, limit: number): { node: JsonNode; end: number } {
+  let pos = start
+
+  const fail = (msg: string): never => {
+    const line = text.slice(0, pos).split('\n').length
+    throw new Error(`${msg} at line ${line} (offset ${pos})`)
+  }
+  const peek = () => (pos < limit ? text[pos] : '')
+
+  const skipTrivia = () => {
+    while (pos < limit) {
+      const ch = text[pos]
+      if (WHITESPACE.test(ch)) {
+        pos++
+      } else if (ch === '/' && text[pos + 1] === '/') {
+        while (pos < limit && text[pos] !== '\n') pos++
+      } else if (ch === '/' && text[pos + 1] === '*') {
+        const close = text.indexOf('*/', pos + 2)
+        if (close < 0 || close + 2 > limit) fail('Unterminated comment')
+        pos = close + 2
+      } else {
+        break
+      }
+    }
+  }
+
+  const parseString = (): string => {
+    const quote = text[pos]
+    pos++
+    let out = ''
+    while (true) {
+      if (pos >= limit) fail('Unterminated string')
+      const ch = text[pos]
+      if (ch === quote) {
+        pos++
+        return out
+      }
+      if (ch === '\n') fail('Unterminated string')
+      if (ch !== '\\') {
+        out += ch
+        pos++
+        continue
+      }
+      const esc = text[pos + 1]
+      pos += 2
+      if (esc === 'u') {
+        const hex = text.slice(pos, pos + 4)
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('Invalid unicode escape')
+        out += String.fromCharCode(parseInt(hex, 16))
+        pos += 4
+      } else if (esc === 'x') {
+        const hex = text.slice(pos, pos + 2)
+        if (!/^[0-9a-fA-F]{2}$/.test(hex)) fail('Invalid hex escape')
+        out += String.fromCharCode(parseInt(hex, 16))
+        pos += 2
+      } else if (esc === '\r') {
+        // Line continuation; swallow an optional \n of a CRLF
+        if (text[pos] === '\n') pos++
+      } else if (esc === '\n' || esc === '\u2028' || esc === '\u2029') {
+        // Line continuation
+      } else {
+        out += ESCAPES[esc] ?? esc
+      }
+    }
+  }
+
+  const parseKey = (): { key: string; keyStart: number; keyEnd: number } => {
+    const keyStart = pos
+    const ch = peek()
+    if (ch === '"' || ch === "'") {
+      const key = parseString()
+      return { key, keyStart, keyEnd: pos }
+    }
+    if (!ID_START.test(ch)) fail(`Unexpected '${ch || 'end of input'}' where a key was expected`)
+    pos++
+    while (pos < limit && ID_PART.test(text[pos])) pos++
+    return { key: text.slice(keyStart, pos), keyStart, keyEnd: pos }
+  }
+
+  const parseValue = (): JsonNode => {
+    skipTrivia()
+    const start = pos
+    const ch = peek()
+
+    if (ch === '{') {
+      pos++
+      const properties: JsonProperty[] = []
+      skipTrivia()
+      while (peek() !== '}') {
+        const { key, keyStart, keyEnd } = parseKey()
+        skipTrivia()
+        if (peek() !== ':') fail(`Expected ':' after key "${key}"`)
+        pos++
+        const value = parseValue()
+        properties.push({ key, keyStart, keyEnd, value })
+        skipTrivia()
+        if (peek() === ',') {
+          pos++
+          skipTrivia()
+        } else if (peek() !== '}') {
+          fail(`Expected ',' or '}'`)
+        }
+      }
+      pos++
+      return { type: 'object', start, end: pos, properties }
+    }
+
+    if (ch === '[') {
+      pos++
+      const items: JsonNode[] = []
+      skipTrivia()
+      while (peek() !== ']') {
+        items.push(parseValue())
+        skipTrivia()
+        if (peek() === ',') {
+          pos++
+          skipTrivia()
+        } else if (peek() !== ']') {
+          fail(`Expected ',' or ']'`)
+        }
+      }
+      pos++
+      return { type: 'array', start, end: pos, items }
+    }
+
+    if (ch === '"' || ch === "'") {
+      const value = parseString()
+      return { type: 'string', start, end: pos, value }
+    }
+
+    for (const [word, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (text.startsWith(word, pos) && !ID_PART.test(text[pos + word.length] ?? '')) {
+        pos += word.length
+        return { type: value === null ? 'null' : 'boolean', start, end: pos, value }
+      }
+    }
+
+    NUMBER.lastIndex = pos
+    const m = NUMBER.exec(text)
+    if (m && pos + m[0].length <= limit) {
+      pos += m[0].length
+      const raw = m[0]
+      const sign = raw[0] === '-' ? -1 : 1
+      const body = raw.replace(/^[+-]/, '')
+      const value = /^0[xX]/.test(body) ? sign * parseInt(body.slice(2), 16) : Number(raw)
+      return { type: 'number', start, end: pos, value }
+    }
+
+    return fail(`Unexpected '${ch || 'end of input'}'`)
+  }
+
+  const node = parseValue()
+  skipTrivia()
+  return { node, end: pos }
+}
+
+/**
+ * @name parseJsonAst
+ * @description Parses text into a positioned syntax tree. Falls back to one value per line
+ * (JSONL) when a single value does not consume the whole text, mirroring parseTolerant:
+ * lines that fail to parse are skipped so item indexes match the parsed rows.
+ * @throws {Error} When the text is neither a single value nor JSONL.
+ */
+export function parseJsonAst(text: string): JsonNode {
+  let firstError: Error | null = null
+  try {
+    const { node, end } = parseRange(text, 0, text.length)
+    if (end >= text.length) return node
+  } catch (e) {
+    firstError = e instanceof Error ? e : new Error(String(e))
+  }
+
+  const items: JsonNode[] = []
+  let lineStart = 0
+  let lineCount = 0
+  while (lineStart <= text.length) {
+    let lineEnd = text.indexOf('\n', lineStart)
+    if (lineEnd < 0) lineEnd = text.length
+    if (text.slice(lineStart, lineEnd).trim()) {
+      lineCount++
+      try {
+        const { node, end } = parseRange(text, lineStart, lineEnd)
+        if (end >= lineEnd || !text.slice(end, lineEnd).trim()) items.push(node)
+      } catch {
+        // Skipped, like parseTolerant does
+      }
+    }
+    lineStart = lineEnd + 1
+  }
+
+  if (lineCount > 1 && items.length > 0) {
+    return { type: 'array', start: 0, end: text.length, items, lines: true }
+  }
+  throw firstError ?? new Error('Unexpected content after the end of the document')
+}
+
+/**
+ * @name findNodeAtPath
+ * @description Follows a key/index path from the root. For duplicate keys the last one wins,
+ * as in JSON.parse.
+ */
+export function findNodeAtPath(root: JsonNode, path: (string | number)[]): JsonNode | undefined {
+  let node: JsonNode | undefined = root
+  for (const seg of path) {
+    if (!node) return undefined
+    if (node.type === 'array') {
+      node = typeof seg === 'number' ? node.items[seg] : undefined
+    } else if (node.type === 'object') {
+      const key = String(seg)
+      let found: JsonNode | undefined
+      for (const p of node.properties) if (p.key === key) found = p.value
+      node = found
+    } else {
+      return undefined
+    }
+  }
+  return node
+}
+
+/**
+ * @name findPropertyAtPath
+ * @description Like findNodeAtPath, but returns the property (with key offsets) that holds the
+ * value at `path`. Undefined for array items and the root.
+ */
+export function findPropertyAtPath(root: JsonNode, path: (string | number)[]): JsonProperty | undefined {
+  if (path.length === 0) return undefined
+  const parent = findNodeAtPath(root, path.slice(0, -1))
+  if (!parent || parent.type !== 'object') return undefined
+  const key = String(path[path.length - 1])
+  let found: JsonProperty | undefined
+  for (const p of parent.properties) if (p.key === key) found = p
+  return found
+}
+
+/**
+ * @name findPathAtOffset
+ * @description Returns the path of the innermost node that contains `offset`. An offset on a
+ * property key resolves to that property's value.
+ */
+export function findPathAtOffset(root: JsonNode, offset: number): { path: (string | number)[]; node: JsonNode } {
+  const path: (string | number)[] = []
+  let node = root
+  descend: while (true) {
+    if (node.type === 'object') {
+      for (const p of node.properties) {
+        if (offset >= p.keyStart && offset <= p.value.end) {
+          path.push(p.key)
+          node = p.value
+          continue descend
+        }
+      }
+    } else if (node.type === 'array') {
+      for (let i = 0; i < node.items.length; i++) {
+        const item = node.items[i]
+        if (offset >= item.start && offset <= item.end) {
+          path.push(i)
+          node = item
+          continue descend
+        }
+      }
+    }
+    return { path, node }
+  }
+}
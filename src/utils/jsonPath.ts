@@ -0,0 +1,108 @@
+// src/utils/jsonPath.ts
+
+// Utility: convert between JSONPath-like strings ($.data.items[0]) and the
+// segment arrays used by deriveGridData (['$', 'data', 'items', '[0]']).
+// Only the subset needed to address a single node is supported: dot keys,
+// bracketed quoted keys and numeric indexes. No wildcards or filters.
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+
+/**
+ * @name formatJsonPath
+ * @description Renders a segment array as a JSONPath-like string. Keys that are not plain
+ * identifiers (spaces, dots, quotes) are written in bracket notation so the result round-trips.
+ */
+export function formatJsonPath(pathArray: string[]): string {
+  let out = ''
+  for (const seg of pathArray) {
+    if (seg === '$' && out === '') out = '$'
+    else if (/^\[\d+\]$/.test(seg)) out += seg
+    else if (IDENTIFIER.test(seg)) out += `.${seg}`
+    else out += `['${seg.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`
+  }
+  return out || '$'
+}
+
+/**
+ * @name parseJsonPath
+ * @description Parses a JSONPath-like string into a segment array. The leading `$` is optional.
+ * @throws {Error} When the string contains unsupported syntax.
+ */
+export function parseJsonPath(input: string): string[] {
+  const s = input.trim()
+  const out: string[] = ['$']
+  let i = s.startsWith('$') ? 1 : 0
+
+  while (i < s.length) {
+    const ch = s[i]
+    if (ch === '.') {
+      const m = /^[^.[\]]+/.exec(s.slice(i + 1))
+      if (!m) throw new Error(`Expected a key after '.' at position ${i}`)
+      out.push(m[0])
+      i += 1 + m[0].length
+    } else if (ch === '[') {
+      const rest = s.slice(i)
+      const idx = /^\[\s*(\d+)\s*\]/.exec(rest)
+      if (idx) {
+        out.push(`[${idx[1]}]`)
+        i += idx[0].length
+        continue
+      }
+      const quoted = /^\[\s*(['"])((?:\\.|(?!\1).)*)\1\s*\]/.exec(rest)
+      if (!quoted) throw new Error(`Invalid bracket segment at position ${i}`)
+      out.push(quoted[2].replace(/\\(.)/g, '$1'))
+      i += quoted[0].length
+    } else if (i === 0) {
+      // Allow "data.items" without the leading "$."
+      const m = /^[^.[\]]+/.exec(s)
+      if (!m) throw new Error(`Unexpected '${ch}' at position ${i}`)
+      out.push(m[0])
+      i += m[0].length
+    } else {
+      throw new Error(`Unexpected '${ch}' at position ${i}`)
+    }
+  }
+  return out
+}
+
+/**
+ * @name resolvePath
+ * @description Walks `root` along a segment array. Returns `undefined` when any segment is missing.
+ */
+export function resolvePath(root: unknown, pathArray: string[]): unknown {
+  let node = root
+  for (const seg of pathArray) {
+    if (seg === '$') continue
+    const idx = /^\[(\d+)\]$/.exec(seg)
+    if (idx && Array.isArray(node)) {
+      node = node[Number(idx[1])]
+    } else if (node && typeof node === 'object' && !Array.isArray(node)) {
+      node = (node as Record<string, unknown>)[seg]
+    } else {
+      return undefined
+    }
+  }
+  return node
+}
+
+/**
+ * @name toValuePath
+ * @description Converts a segment array into the key/index path used by edit handlers
+ * (drops `$`, turns `[3]` into the number 3).
+ */
+export function toValuePath(pathArray: string[]): (string | number)[] {
+  return pathArray
+    .filter((seg, i) => !(i === 0 && seg === '$'))
+    .map((seg) => {
+      const idx = /^\[(\d+)\]$/.exec(seg)
+      return idx ? Number(idx[1]) : seg
+    })
+}
+
+/**
+ * @name fromValuePath
+ * @description Inverse of toValuePath: `[3, 'name']` becomes `['$', '[3]', 'name']`.
+ */
+export function fromValuePath(path: (string | number)[]): string[] {
+  return ['$', ...path.map((seg) => (typeof seg === 'number' ? `[${seg}]` : seg))]
+}
@@ -0,0 +1,258 @@
+// src/utils/keybindings.ts
+
+// Utility: keyboard shortcuts for registered commands.
+// - Keys are written as modifiers and one key joined with "+", e.g. `ctrl+shift+p`. `ctrl` also
+//   matches ⌘ on macOS, like the app's other shortcuts.
+// - The user's keybindings file applies on top of the defaults, VS Code style: an entry adds a
+//   binding (and takes the key from whatever had it), a `-command` entry removes one.
+// - Bindings are checked against the keys Monaco handles itself: those never reach the app
+//   while the editor has focus.
+
+export type Keybinding = {
+  key: string
+  /** Command id; with a leading "-" the entry removes `key` from that command */
+  command: string
+}
+
+export type KeybindingProblem = {
+  key: string
+  command: string
+  message: string
+}
+
+export type ResolvedKeybindings = {
+  /** Command id by normalized key */
+  commandByKey: Map<string, string>
+  /** Normalized keys by command id */
+  keysByCommand: Map<string, string[]>
+  problems: KeybindingProblem[]
+}
+
+export const DEFAULT_KEYBINDINGS: Keybinding[] = [
+  { key: 'ctrl+shift+p', command: 'commandPalette' },
+  { key: 'ctrl+n', command: 'file.new' },
+  { key: 'ctrl+o', command: 'file.open' },
+  { key: 'ctrl+s', command: 'file.save' },
+  { key: 'ctrl+shift+s', command: 'file.saveAs' },
+  { key: 'ctrl+w', command: 'tab.close' },
+  { key: 'ctrl+tab', command: 'tab.next' },
+  { key: 'ctrl+shift+tab', command: 'tab.previous' },
+  { key: 'ctrl+z', command: 'history.undo' },
+  { key: 'ctrl+shift+z', command: 'history.redo' },
+  { key: 'ctrl+y', command: 'history.redo' },
+  { key: 'ctrl+alt+f', command: 'editor.format' },
+  { key: 'ctrl+alt+m', command: 'editor.minify' },
+  { key: 'ctrl+shift+delete', command: 'editor.clear' },
+  { key: 'ctrl+shift+f', command: 'grid.search' },
+  { key: 'ctrl+alt+e', command: 'grid.expandAll' },
+  { key: 'ctrl+alt+c', command: 'grid.collapseAll' },
+]
+
+/**
+ * Keys of Monaco's default keybindings (Windows/Linux layout), named after their action.
+ * Undo and redo are left out: the editor routes them to the app's history.
+ */
+const MONACO_KEYBINDINGS: Record<string, string> = {
+  'ctrl+f': 'Find',
+  'ctrl+h': 'Replace',
+  f3: 'Find Next',
+  'shift+f3': 'Find Previous',
+  'ctrl+g': 'Go to Line',
+  'ctrl+d': 'Add Selection to Next Find Match',
+  'ctrl+shift+l': 'Select All Occurrences',
+  'ctrl+/': 'Toggle Line Comment',
+  'shift+alt+a': 'Toggle Block Comment',
+  'ctrl+shift+k': 'Delete Line',
+  'ctrl+enter': 'Insert Line Below',
+  'ctrl+shift+enter': 'Insert Line Above',
+  'alt+up': 'Move Line Up',
+  'alt+down': 'Move Line Down',
+  'shift+alt+up': 'Copy Line Up',
+  'shift+alt+down': 'Copy Line Down',
+  'ctrl+alt+up': 'Add Cursor Above',
+  'ctrl+alt+down': 'Add Cursor Below',
+  'shift+alt+i': 'Add Cursors to Line Ends',
+  'shift+alt+right': 'Expand Selection',
+  'shift+alt+left': 'Shrink Selection',
+  'ctrl+]': 'Indent Line',
+  'ctrl+[': 'Outdent Line',
+  'ctrl+shift+[': 'Fold',
+  'ctrl+shift+]': 'Unfold',
+  'ctrl+shift+\\': 'Go to Bracket',
+  'shift+alt+f': 'Format Document',
+  'ctrl+space': 'Trigger Suggest',
+  'ctrl+shift+space': 'Trigger Parameter Hints',
+  'ctrl+.': 'Quick Fix',
+  'ctrl+l': 'Expand Line Selection',
+  'ctrl+u': 'Cursor Undo',
+  'ctrl+a': 'Select All',
+  'ctrl+c': 'Copy',
+  'ctrl+x': 'Cut',
+  'ctrl+v': 'Paste',
+  'ctrl+m': 'Toggle Tab Key Moves Focus',
+  'ctrl+backspace': 'Delete Word',
+  'ctrl+delete': 'Delete Word Right',
+  'ctrl+up': 'Scroll Line Up',
+  'ctrl+down': 'Scroll Line Down',
+  f1: 'Command Palette',
+  f2: 'Rename Symbol',
+  f8: 'Go to Next Problem',
+  'shift+f8': 'Go to Previous Problem',
+  f12: 'Go to Definition',
+  'alt+f1': 'Accessibility Help',
+}
+
+const MODIFIERS = ['ctrl', 'shift', 'alt'] as const
+type Modifier = (typeof MODIFIERS)[number]
+
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+  ctrl: 'ctrl',
+  control: 'ctrl',
+  cmd: 'ctrl',
+  command: 'ctrl',
+  meta: 'ctrl',
+  mod: 'ctrl',
+  cmdorctrl: 'ctrl',
+  commandorcontrol: 'ctrl',
+  shift: 'shift',
+  alt: 'alt',
+  option: 'alt',
+}
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'escape',
+  return: 'enter',
+  del: 'delete',
+  ins: 'insert',
+  pgup: 'pageup',
+  pgdown: 'pagedown',
+  arrowup: 'up',
+  arrowdown: 'down',
+  arrowleft: 'left',
+  arrowright: 'right',
+  ' ': 'space',
+}
+
+const NAMED_KEYS = new Set(['space', 'tab', 'enter', 'escape', 'backspace', 'delete', 'insert', 'home', 'end', 'pageup', 'pagedown', 'up', 'down', 'left', 'right'])
+const PUNCTUATION = new Set(['-', '=', '[', ']', '\\', ';', "'", ',', '.', '/', '`'])
+
+/** Punctuation by physical key, so Shift does not turn `[` into `{` */
+const CODE_KEYS: Record<string, string> = {
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backquote: '`',
+  Space: 'space',
+  NumpadEnter: 'enter',
+}
+
+const isKeyName = (key: string) =>
+  /^[a-z0-9]$/.test(key) || /^f([1-9]|1[0-9]|2[0-4])$/.test(key) || NAMED_KEYS.has(key) || PUNCTUATION.has(key)
+
+/**
+ * @name normalizeKey
+ * @description Canonical form of a key as written by the user (`Shift+Ctrl+P` → `ctrl+shift+p`),
+ * or null when it is not one modifier-and-key combination.
+ */
+export function normalizeKey(input: string): string | null {
+  const modifiers = new Set<Modifier>()
+  let key: string | null = null
+  for (const part of input.toLowerCase().split('+').map((p) => p.trim())) {
+    const modifier = MODIFIER_ALIASES[part]
+    if (modifier) {
+      modifiers.add(modifier)
+      continue
+    }
+    if (key !== null || !part) return null
+    key = KEY_ALIASES[part] ?? part
+  }
+  if (!key || !isKeyName(key)) return null
+  return [...MODIFIERS.filter((m) => modifiers.has(m)), key].join('+')
+}
+
+/**
+ * @name keyOfEvent
+ * @description Normalized key of a keydown event, or null for modifiers on their own and keys
+ * that cannot be bound. Letters and digits are read from the physical key, so combinations that
+ * change the typed character (Option on macOS) still match.
+ */
+export function keyOfEvent(e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>): string | null {
+  let key: string
+  if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3).toLowerCase()
+  else if (/^Digit[0-9]$/.test(e.code)) key = e.code.slice(5)
+  else if (CODE_KEYS[e.code]) key = CODE_KEYS[e.code]
+  else key = KEY_ALIASES[e.key.toLowerCase()] ?? e.key.toLowerCase()
+  if (!isKeyName(key)) return null
+  const modifiers: Modifier[] = []
+  if (e.ctrlKey || e.metaKey) modifiers.push('ctrl')
+  if (e.shiftKey) modifiers.push('shift')
+  if (e.altKey) modifiers.push('alt')
+  return [...modifiers, key].join('+')
+}
+
+/**
+ * @name formatKey
+ * @description Display form of a normalized key: `ctrl+shift+p` → `Ctrl+Shift+P`. The names are
+ * also valid Electron accelerator names.
+ */
+export function formatKey(key: string): string {
+  return key
+    .split('+')
+    .map((part) => {
+      if (part === 'pageup') return 'PageUp'
+      if (part === 'pagedown') return 'PageDown'
+      return part.charAt(0).toUpperCase() + part.slice(1)
+    })
+    .join('+')
+}
+
+/**
+ * @name resolveKeybindings
+ * @description Applies the user's keybindings over the defaults and lists what needs attention:
+ * keys that cannot be read, commands missing from `commandIds` (typos), one key bound twice in
+ * the user's file (the later entry wins), and keys Monaco takes while the editor has focus.
+ */
+export function resolveKeybindings(user: Keybinding[], commandIds?: ReadonlySet<string>): ResolvedKeybindings {
+  const commandByKey = new Map<string, string>()
+  const problems: KeybindingProblem[] = []
+  for (const { key, command } of DEFAULT_KEYBINDINGS) commandByKey.set(key, command)
+
+  const userCommandByKey = new Map<string, string>()
+  for (const binding of user) {
+    const key = normalizeKey(binding.key)
+    if (!key) {
+      problems.push({ key: binding.key, command: binding.command, message: `"${binding.key}" is not a key combination` })
+      continue
+    }
+    const id = binding.command.replace(/^-/, '')
+    if (commandIds && !commandIds.has(id)) {
+      problems.push({ key, command: binding.command, message: `There is no command "${id}"; the command palette shows each command's id` })
+      continue
+    }
+    if (binding.command.startsWith('-')) {
+      if (commandByKey.get(key) === binding.command.slice(1)) commandByKey.delete(key)
+      continue
+    }
+    const earlier = userCommandByKey.get(key)
+    if (earlier && earlier !== binding.command) {
+      problems.push({ key, command: binding.command, message: `Also bound to ${earlier} earlier in the file; this entry wins` })
+    }
+    userCommandByKey.set(key, binding.command)
+    commandByKey.set(key, binding.command)
+  }
+
+  const keysByCommand = new Map<string, string[]>()
+  for (const [key, command] of commandByKey) {
+    keysByCommand.set(command, [...(keysByCommand.get(command) ?? []), key])
+    const monaco = MONACO_KEYBINDINGS[key]
+    if (monaco) problems.push({ key, command, message: `Monaco's ${monaco} takes this key while the editor has focus` })
+  }
+  return { commandByKey, keysByCommand, problems }
+}
@@ -0,0 +1,179 @@
+// src/utils/pivot.ts
+
+// Utility: cross-tab grid rows into a pivot table.
+// - Rows are bucketed by the values of the row fields and of the column fields; every value
+//   (measure) is aggregated per bucket with the grid's aggregates.
+// - Without measures the cells count rows.
+// - Row and column keys sort naturally ("item 2" before "item 10"); totals close both axes.
+
+import { GridRow } from './deriveGridData'
+import { AGGREGATES, AggregateKind, aggregateRows, groupLabel, groupingValue } from './gridAggregates'
+import { ExportRecord } from './exporters'
+
+export type PivotArea = 'rows' | 'columns' | 'values'
+
+export type PivotValue = { field: string; aggregate: AggregateKind }
+
+export type PivotConfig = {
+  rows: string[]
+  columns: string[]
+  values: PivotValue[]
+}
+
+export const EMPTY_PIVOT: PivotConfig = { rows: [], columns: [], values: [] }
+
+/** More column combinations than this are cut off; the table would be unreadable anyway */
+export const MAX_PIVOT_COLUMNS = 200
+
+export type PivotResult = {
+  rowFields: string[]
+  columnFields: string[]
+  /** Labels of each column combination, one per column field */
+  columnKeys: string[][]
+  measures: PivotValue[]
+  /** Cells per row: each column key's measures in turn, then the row totals when there are column fields */
+  rows: { labels: string[]; cells: (number | null)[] }[]
+  /** Grand total row in the same layout */
+  totals: (number | null)[]
+  truncatedColumns: boolean
+}
+
+/** Stand-in measure when no values are chosen: the number of rows */
+const ROW_COUNT: PivotValue = { field: '', aggregate: 'count' }
+
+export function measureLabel(m: PivotValue): string {
+  return m.field === '' ? 'Rows' : `${AGGREGATES[m.aggregate]} of ${m.field}`
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true })
+
+function compareLabels(a: string[], b: string[]): number {
+  for (let i = 0; i < a.length; i++) {
+    const c = collator.compare(a[i], b[i])
+    if (c !== 0) return c
+  }
+  return 0
+}
+
+const labelsOf = (row: GridRow, fields: string[]) => fields.map((f) => groupLabel(groupingValue(row, f)))
+
+/** Rows bucketed by their labels for `fields`, in sorted label order */
+function bucket(rows: GridRow[], fields: string[]): { labels: string[]; rows: GridRow[] }[] {
+  const buckets = new Map<string, { labels: string[]; rows: GridRow[] }>()
+  for (const row of rows) {
+    const labels = labelsOf(row, fields)
+    const key = JSON.stringify(labels)
+    let b = buckets.get(key)
+    if (!b) buckets.set(key, (b = { labels, rows: [] }))
+    b.rows.push(row)
+  }
+  return [...buckets.values()].sort((a, b) => compareLabels(a.labels, b.labels))
+}
+
+function measure(rows: GridRow[], m: PivotValue): number | null {
+  return m.field === '' ? rows.length : aggregateRows(rows, m.field, m.aggregate)
+}
+
+/**
+ * @name buildPivot
+ * @description Cross-tabs `rows` by the row and column fields of `config`.
+ */
+export function buildPivot(rows: GridRow[], config: PivotConfig): PivotResult {
+  const measures = config.values.length ? config.values : [ROW_COUNT]
+  const columnBuckets = bucket(rows, config.columns)
+  const truncatedColumns = columnBuckets.length > MAX_PIVOT_COLUMNS
+  const columnKeys = columnBuckets.slice(0, MAX_PIVOT_COLUMNS).map((b) => b.labels)
+  const columnIndex = new Map(columnKeys.map((labels, i) => [JSON.stringify(labels), i]))
+  const withTotals = config.columns.length > 0
+
+  const cellsFor = (bucketRows: GridRow[]) => {
+    const byColumn = columnKeys.map((): GridRow[] => [])
+    for (const row of bucketRows) {
+      const i = columnIndex.get(JSON.stringify(labelsOf(row, config.columns)))
+      if (i !== undefined) byColumn[i].push(row)
+    }
+    const cells = byColumn.flatMap((colRows) => measures.map((m) => (colRows.length ? measure(colRows, m) : null)))
+    if (withTotals) cells.push(...measures.map((m) => measure(bucketRows, m)))
+    return cells
+  }
+
+  return {
+    rowFields: config.rows,
+    columnFields: config.columns,
+    columnKeys,
+    measures,
+    rows: bucket(rows, config.rows).map((b) => ({ labels: b.labels, cells: cellsFor(b.rows) })),
+    totals: cellsFor(rows),
+    truncatedColumns,
+  }
+}
+
+/**
+ * @name pivotColumnLabels
+ * @description Flat label per cell column: column labels, then the measure when there are several.
+ */
+export function pivotColumnLabels(pivot: PivotResult): string[] {
+  const withMeasure = (labels: string[], m: PivotValue) =>
+    [...labels, ...(pivot.measures.length > 1 || labels.length === 0 ? [measureLabel(m)] : [])].join(' / ')
+  const labels = pivot.columnKeys.flatMap((key) => pivot.measures.map((m) => withMeasure(key, m)))
+  if (pivot.columnFields.length) labels.push(...pivot.measures.map((m) => withMeasure(['Total'], m)))
+  return labels
+}
+
+/**
+ * @name pivotToRecords
+ * @description The pivot as flat records for the exporters, grand total row last.
+ */
+export function pivotToRecords(pivot: PivotResult): { columns: string[]; records: ExportRecord[] } {
+  // Header labels can repeat (a row field named like a column value); exporters need unique keys
+  const used = new Set<string>()
+  const unique = (label: string) => {
+    let name = label || '(empty)'
+    for (let i = 2; used.has(name); i++) name = `${label} (${i})`
+    used.add(name)
+    return name
+  }
+  const rowColumns = pivot.rowFields.map(unique)
+  const cellColumns = pivotColumnLabels(pivot).map(unique)
+  const toRecord = (labels: string[], cells: (number | null)[]) => {
+    const record: ExportRecord = {}
+    rowColumns.forEach((c, i) => (record[c] = labels[i]))
+    cellColumns.forEach((c, i) => (record[c] = cells[i]))
+    return record
+  }
+  const records = pivot.rows.map((r) => toRecord(r.labels, r.cells))
+  if (pivot.rowFields.length) records.push(toRecord(['Total'], pivot.totals))
+  return { columns: [...rowColumns, ...cellColumns], records }
+}
+
+/**
+ * @name movePivotField
+ * @description Puts `field` into `to` before `index` (or at the end). A field is either a row or
+ * a column field, so moving it there takes it out of the other; values may repeat fields, and a
+ * new value starts with `aggregate`.
+ */
+export function movePivotField(
+  config: PivotConfig,
+  field: string,
+  from: { area: PivotArea; index: number } | null,
+  to: PivotArea,
+  index?: number,
+  aggregate: AggregateKind = 'count',
+): PivotConfig {
+  const next: PivotConfig = { rows: [...config.rows], columns: [...config.columns], values: [...config.values] }
+  let moved: PivotValue | null = null
+  if (from) {
+    if (from.area === 'values') moved = next.values.splice(from.index, 1)[0] ?? null
+    else next[from.area].splice(from.index, 1)
+    // Removing an earlier item shifts the drop position in the same area
+    if (from.area === to && index !== undefined && from.index < index) index--
+  }
+  if (to === 'values') {
+    next.values.splice(index ?? next.values.length, 0, moved ?? { field, aggregate })
+    return next
+  }
+  next.rows = next.rows.filter((f) => f !== field)
+  next.columns = next.columns.filter((f) => f !== field)
+  next[to].splice(Math.min(index ?? Infinity, next[to].length), 0, field)
+  return next
+}
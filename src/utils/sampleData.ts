@@ -0,0 +1,86 @@
+// src/utils/sampleData.ts
+
+// Utility: the sample document shown in the first tab and loaded by the Sample button.
+
+export const SAMPLE_JSON = `[
+	{
+		"_id": "65ce58753546634a0dceb369",
+		"guid": "7eac8b2b-6d0d-47b6-9370-e8ee5d95421c",
+		"isActive": true,
+		"tags": {
+			"item": "et",
+			"value": {
+				"company": "Filodyne"
+			}
+		},
+		"balance": "$2,839.71",
+		"picture": "http://placehold.it/32x32",
+		"age": 35,
+		"eye Color": "brown",
+		"name": "Hartman Tyler",
+		"gender": "male",
+		"company": "COGENTRY",
+		"email": "hartmantyler@cogentry.com",
+		"phone": "+1 (843) 467-2321",
+		"friends": [
+			{
+				"id": 0,
+				"name": "Anastasia Mclean"
+			},
+			{
+				"id": 1,
+				"name": "Douglas Marshall"
+			},
+			{
+				"id": 2,
+				"name": "Chris Stone"
+			}
+		],
+		"address": "494 Gain Court, Wilmington, Guam, 9348",
+		"registered": "2018-07-22T10:00:39 +04:00",
+		"latitude": -37.13536,
+		"longitude": -116.583092,
+		"greeting": "Hello, Hartman Tyler! You have 1 unread messages.",
+		"favoriteFruit": "strawberry"
+	},
+	{
+		"_id": "65ce587519ec6121a04ba950",
+		"guid": "eb5afd03-c2fb-4344-9507-f71541593a15",
+		"isActive": false,
+		"tags": {
+			"item": "est",
+			"value": {
+				"company": "Affluex"
+			}
+		},
+		"balance": "$1,442.27",
+		"picture": "http://placehold.it/32x32",
+		"age": 35,
+		"eye Color": "green",
+		"name": "Malinda Jarvis",
+		"gender": "female",
+		"company": "OVATION",
+		"email": "malindajarvis@ovation.com",
+		"phone": "+1 (994) 436-2250",
+		"friends": [
+			{
+				"id": 0,
+				"name": "Carmella Cleveland"
+			},
+			{
+				"id": 1,
+				"name": "Mariana Moody"
+			},
+			{
+				"id": 2,
+				"name": "Marcia Tillman"
+			}
+		],
+		"address": "810 Lawn Court, Yettem, Mississippi, 8470",
+		"registered": "2014-06-30T01:51:15 +04:00",
+		"latitude": 78.030851,
+		"longitude": -135.193892,
+		"greeting": "Hello, Malinda Jarvis! You have 10 unread messages.",
+		"favoriteFruit": "banana"
+	}
+]`
@@ -0,0 +1,311 @@
+// src/utils/schemaInference.ts
+
+// Utility: infer a schema from sample data and print it as JSON Schema, TypeScript or Zod.
+// - Every value seen at the same position (all records of an array, all items of nested
+//   arrays) is merged into one shape, so nested objects combine the keys of all samples.
+// - A key is required when every object at that position has it.
+// - Strings get a format (date, date-time, email, uri, uuid) when all of them share it, or an
+//   enum when a few distinct values repeat.
+
+import { inferType } from './deriveGridData'
+
+export type SchemaOutput = 'json-schema' | 'typescript' | 'zod'
+
+export const SCHEMA_OUTPUTS: Record<SchemaOutput, string> = {
+  'json-schema': 'JSON Schema',
+  typescript: 'TypeScript',
+  zod: 'Zod',
+}
+
+type Kind = 'null' | 'boolean' | 'integer' | 'number' | 'string' | 'object' | 'array'
+type StringFormat = 'date' | 'date-time' | 'email' | 'uri' | 'uuid'
+
+const KIND_ORDER: Kind[] = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null']
+
+export type Shape = {
+  kinds: Set<Kind>
+  /** Objects seen at this position */
+  objects: number
+  props: Map<string, { shape: Shape; count: number }>
+  /** Merged shape of all array items; null until a non-empty array is seen */
+  items: Shape | null
+  /** Distinct strings with counts; null once there are too many for an enum */
+  strings: Map<string, number> | null
+  stringCount: number
+  /** Format shared by every string; undefined before the first string, null once they differ */
+  format: StringFormat | null | undefined
+}
+
+/** More distinct values than this is free text, not an enum */
+const MAX_ENUM_VALUES = 10
+/** Arrays are sampled; a million records say nothing ten thousand do not */
+const MAX_SAMPLES = 10000
+
+function emptyShape(): Shape {
+  return { kinds: new Set(), objects: 0, props: new Map(), items: null, strings: new Map(), stringCount: 0, format: undefined }
+}
+
+/** RFC 3339, as JSON Schema's date-time and Zod's datetime({ offset: true }) require: T and a zone */
+const RFC3339_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/
+
+function stringFormat(s: string): StringFormat | null {
+  if (inferType(s) === 'date') {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return 'date'
+    // Dates without a zone (2024-01-01 10:00:00) stay plain strings
+    return RFC3339_DATE_TIME.test(s) ? 'date-time' : null
+  }
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(s)) return 'uuid'
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s)) return 'email'
+  if (/^[a-z][a-z\d+.-]*:\/\/\S+$/i.test(s)) return 'uri'
+  return null
+}
+
+function addSample(shape: Shape, value: unknown) {
+  if (value === null || value === undefined) {
+    shape.kinds.add('null')
+  } else if (Array.isArray(value)) {
+    shape.kinds.add('array')
+    const step = Math.max(1, Math.floor(value.length / MAX_SAMPLES))
+    for (let i = 0; i < value.length; i += step) {
+      shape.items ??= emptyShape()
+      addSample(shape.items, value[i])
+    }
+  } else if (typeof value === 'object') {
+    shape.kinds.add('object')
+    shape.objects++
+    for (const [k, v] of Object.entries(value)) {
+      let prop = shape.props.get(k)
+      if (!prop) {
+        prop = { shape: emptyShape(), count: 0 }
+        shape.props.set(k, prop)
+      }
+      prop.count++
+      addSample(prop.shape, v)
+    }
+  } else if (typeof value === 'string') {
+    shape.kinds.add('string')
+    shape.stringCount++
+    const format = stringFormat(value)
+    shape.format = shape.format === undefined || shape.format === format ? format : null
+    if (shape.strings) {
+      shape.strings.set(value, (shape.strings.get(value) ?? 0) + 1)
+      if (shape.strings.size > MAX_ENUM_VALUES) shape.strings = null
+    }
+  } else if (typeof value === 'number') {
+    shape.kinds.add(Number.isInteger(value) ? 'integer' : 'number')
+  } else if (typeof value === 'boolean') {
+    shape.kinds.add('boolean')
+  }
+}
+
+/**
+ * @name inferShape
+ * @description Merged shape of `value`. Use the shape's `items` for the records of an array.
+ */
+export function inferShape(value: unknown): Shape {
+  const shape = emptyShape()
+  addSample(shape, value)
+  return shape
+}
+
+/** Enum values when a few distinct strings repeat; formatted strings are never enums */
+function enumValues(shape: Shape): string[] | null {
+  if (!shape.strings || shape.format || shape.stringCount < 3) return null
+  // Values must repeat: at most one distinct value per two strings
+  if (shape.strings.size > Math.ceil(shape.stringCount / 2)) return null
+  return [...shape.strings.keys()].sort()
+}
+
+function kindsOf(shape: Shape): Kind[] {
+  // 1 and 1.5 at the same position are just numbers
+  return KIND_ORDER.filter((k) => shape.kinds.has(k) && !(k === 'integer' && shape.kinds.has('number')))
+}
+
+const isRequired = (shape: Shape, count: number) => count === shape.objects
+
+// ---------------------------------------------------------------------------
+// JSON Schema
+
+function toJsonSchema(shape: Shape): Record<string, unknown> {
+  const variants = kindsOf(shape).map((kind): Record<string, unknown> => {
+    switch (kind) {
+      case 'object': {
+        const properties: Record<string, unknown> = {}
+        const required: string[] = []
+        for (const [k, { shape: s, count }] of shape.props) {
+          properties[k] = toJsonSchema(s)
+          if (isRequired(shape, count)) required.push(k)
+        }
+        return { type: 'object', properties, ...(required.length ? { required } : {}) }
+      }
+      case 'array':
+        return shape.items ? { type: 'array', items: toJsonSchema(shape.items) } : { type: 'array' }
+      case 'string': {
+        const values = enumValues(shape)
+        if (values) return { type: 'string', enum: values }
+        return shape.format ? { type: 'string', format: shape.format } : { type: 'string' }
+      }
+      default:
+        return { type: kind }
+    }
+  })
+  if (variants.length === 0) return {}
+  if (variants.length === 1) return variants[0]
+  // Plain types combine into a type list; anything with details needs anyOf
+  if (variants.every((v) => Object.keys(v).length === 1)) return { type: variants.map((v) => v.type) }
+  return { anyOf: variants }
+}
+
+// ---------------------------------------------------------------------------
+// TypeScript and Zod share naming and declaration order (nested types first)
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+
+function propertyKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key)
+}
+
+function pascalCase(s: string): string {
+  const name = s
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((w) => w[0].toUpperCase() + w.slice(1))
+    .join('')
+  return /^[A-Za-z]/.test(name) ? name : `T${name}`
+}
+
+/**
+ * Name for the items of an array called `name`: friends → Friend, boxes → Box, data → DataItem.
+ * Only plain plurals lose their ending; a singular ending in s (status, address, analysis)
+ * or a guess either way (houses, statuses) keeps it and gets Item.
+ */
+function itemName(name: string): string {
+  if (/ies$/i.test(name)) return name.replace(/ies$/i, 'y')
+  if (/(ss|x|z|ch|sh)es$/i.test(name)) return name.slice(0, -2)
+  if (/[^siu]s$/i.test(name) && !/uses$/i.test(name)) return name.slice(0, -1)
+  return `${name}Item`
+}
+
+type Printer = {
+  /** Type (or schema expression) for a shape; declares named types for objects */
+  print: (shape: Shape, name: string) => string
+  /** Keeps a type name for the caller; declarations made after get another one */
+  reserve: (name: string) => void
+  decls: string[]
+}
+
+function createNames() {
+  const used = new Set<string>()
+  const uniqueName = (hint: string) => {
+    const base = pascalCase(hint)
+    let name = base
+    for (let i = 2; used.has(name); i++) name = `${base}${i}`
+    used.add(name)
+    return name
+  }
+  return { uniqueName, reserve: (name: string) => void used.add(name) }
+}
+
+function typeScriptPrinter(): Printer {
+  const decls: string[] = []
+  const { uniqueName, reserve } = createNames()
+  const wrap = (t: string) => (t.includes(' | ') ? `(${t})` : t)
+
+  const print = (shape: Shape, name: string): string => {
+    const parts = kindsOf(shape).map((kind) => {
+      switch (kind) {
+        case 'object': {
+          if (shape.props.size === 0) return 'Record<string, unknown>'
+          const typeName = uniqueName(name)
+          const lines = [...shape.props].map(([k, { shape: s, count }]) =>
+            `  ${propertyKey(k)}${isRequired(shape, count) ? '' : '?'}: ${print(s, k)}`)
+          decls.push(`export interface ${typeName} {\n${lines.join('\n')}\n}`)
+          return typeName
+        }
+        case 'array':
+          return shape.items ? `${wrap(print(shape.items, itemName(name)))}[]` : 'unknown[]'
+        case 'string':
+          return enumValues(shape)?.map((v) => JSON.stringify(v)).join(' | ') ?? 'string'
+        case 'integer':
+          return 'number'
+        default:
+          return kind
+      }
+    })
+    return parts.length ? parts.join(' | ') : 'unknown'
+  }
+  return { print, reserve, decls }
+}
+
+const ZOD_FORMATS: Record<StringFormat, string> = {
+  date: 'z.string().date()',
+  'date-time': 'z.string().datetime({ offset: true })',
+  email: 'z.string().email()',
+  uri: 'z.string().url()',
+  uuid: 'z.string().uuid()',
+}
+
+function zodPrinter(): Printer {
+  const decls: string[] = []
+  const { uniqueName, reserve } = createNames()
+
+  const print = (shape: Shape, name: string): string => {
+    const kinds = kindsOf(shape)
+    const parts = kinds.filter((k) => k !== 'null').map((kind) => {
+      switch (kind) {
+        case 'object': {
+          if (shape.props.size === 0) return 'z.record(z.unknown())'
+          const typeName = uniqueName(name)
+          const lines = [...shape.props].map(([k, { shape: s, count }]) =>
+            `  ${propertyKey(k)}: ${print(s, k)}${isRequired(shape, count) ? '' : '.optional()'},`)
+          decls.push(`export const ${typeName}Schema = z.object({\n${lines.join('\n')}\n})\nexport type ${typeName} = z.infer<typeof ${typeName}Schema>`)
+          return `${typeName}Schema`
+        }
+        case 'array':
+          return `z.array(${shape.items ? print(shape.items, itemName(name)) : 'z.unknown()'})`
+        case 'string': {
+          const values = enumValues(shape)
+          if (values) return `z.enum([${values.map((v) => JSON.stringify(v)).join(', ')}])`
+          return shape.format ? ZOD_FORMATS[shape.format] : 'z.string()'
+        }
+        case 'integer':
+          return 'z.number().int()'
+        default:
+          return `z.${kind}()`
+      }
+    })
+    if (parts.length === 0) return kinds.includes('null') ? 'z.null()' : 'z.unknown()'
+    const type = parts.length === 1 ? parts[0] : `z.union([${parts.join(', ')}])`
+    return kinds.includes('null') ? `${type}.nullable()` : type
+  }
+  return { print, reserve, decls }
+}
+
+/**
+ * @name generateSchema
+ * @description Infers the shape of `value` and prints it in the chosen output. `rootName`
+ * names the top-level type; the records of a root array are named after it (Users → User).
+ */
+export function generateSchema(value: unknown, output: SchemaOutput, rootName = 'Root'): string {
+  const shape = inferShape(value)
+  if (output === 'json-schema') {
+    return `${JSON.stringify({ $schema: 'http://json-schema.org/draft-07/schema#', title: rootName, ...toJsonSchema(shape) }, null, 2)}\n`
+  }
+
+  const printer = output === 'typescript' ? typeScriptPrinter() : zodPrinter()
+  const rootType = pascalCase(rootName)
+  // A plain root object is declared first, so it takes the root name; anything else is declared
+  // under it last, so nested types must not take it in the meantime (a `root` key under Root)
+  const kinds = kindsOf(shape)
+  if (kinds.length !== 1 || kinds[0] !== 'object' || shape.props.size === 0) printer.reserve(rootType)
+  const root = printer.print(shape, rootName)
+  // A root object already got its own declaration under the root name
+  const declared = output === 'typescript' ? root === rootType : root === `${rootType}Schema`
+  if (!declared) {
+    printer.decls.push(output === 'typescript'
+      ? `export type ${rootType} = ${root}`
+      : `export const ${rootType}Schema = ${root}\nexport type ${rootType} = z.infer<typeof ${rootType}Schema>`)
+  }
+  const header = output === 'zod' ? "import { z } from 'zod'\n\n" : ''
+  return `${header}${printer.decls.join('\n\n')}\n`
+}
@@ -0,0 +1,187 @@
+// src/utils/schemaValidation.ts
+
+// Utility: validate the parsed document against a JSON Schema.
+// - Schemas compile with Ajv: draft-07 by default, 2019-09 / 2020-12 when their `$schema` says so.
+//   String formats (email, uri, …) are not checked; Ajv needs a separate plugin for them.
+// - Every error carries a JSON pointer plus the value path, so the grid can mark cells and rows.
+// - Schemas come from a chosen file, the document's own `$schema` key, or a filename glob
+//   mapping in the settings, in that order.
+
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv'
+import Ajv2019 from 'ajv/dist/2019'
+import Ajv2020 from 'ajv/dist/2020'
+import { pathKey } from './deepSearch'
+
+type Path = (string | number)[]
+
+export type SchemaError = {
+  /** JSON pointer of the failing value, e.g. `/items/3/price`; '' is the document root */
+  pointer: string
+  path: Path
+  message: string
+}
+
+export type SchemaMappingLike = { glob: string; schema: string }
+
+/** Validation could report one error per record; more than this is not useful to list */
+export const MAX_SCHEMA_ERRORS = 1000
+
+const compiled = new WeakMap<object, ValidateFunction>()
+
+function createAjv(schema: Record<string, unknown>): Ajv {
+  const dialect = typeof schema.$schema === 'string' ? schema.$schema : ''
+  const options = { allErrors: true, strict: false, validateFormats: false }
+  if (dialect.includes('2020-12')) return new Ajv2020(options)
+  if (dialect.includes('2019-09')) return new Ajv2019(options)
+  return new Ajv(options)
+}
+
+/**
+ * @name compileSchema
+ * @description Compiles (and caches) a schema.
+ * @throws {Error} When the schema itself is invalid or uses unresolvable `$ref`s.
+ */
+export function compileSchema(schema: object): ValidateFunction {
+  const cached = compiled.get(schema)
+  if (cached) return cached
+  const s = schema as Record<string, unknown>
+  const ajv = createAjv(s)
+  // Meta-schemas (e.g. validating a schema document) are already registered under their $id
+  const id = typeof s.$id === 'string' ? s.$id : typeof s.id === 'string' ? s.id : null
+  const validate = (id && ajv.getSchema(id.replace(/#$/, ''))) || ajv.compile(s)
+  compiled.set(schema, validate)
+  return validate
+}
+
+/** Decodes a JSON pointer; segments under arrays become numbers */
+export function pointerToPath(pointer: string, root: unknown): Path {
+  if (!pointer) return []
+  const path: Path = []
+  let node = root
+  for (const raw of pointer.slice(1).split('/')) {
+    const seg = raw.replace(/~1/g, '/').replace(/~0/g, '~')
+    const key = Array.isArray(node) && /^\d+$/.test(seg) ? Number(seg) : seg
+    path.push(key)
+    node = node !== null && typeof node === 'object' ? (node as Record<string | number, unknown>)[key] : undefined
+  }
+  return path
+}
+
+function escapePointer(seg: string | number): string {
+  return String(seg).replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function describeError(e: ErrorObject): string {
+  if (e.keyword === 'enum' && Array.isArray(e.params.allowedValues)) {
+    return `${e.message}: ${e.params.allowedValues.map((v: unknown) => JSON.stringify(v)).join(', ')}`
+  }
+  return e.message ?? e.keyword
+}
+
+/**
+ * @name validateValue
+ * @description Validates `value` and returns its errors (none when valid), capped at
+ * MAX_SCHEMA_ERRORS. Errors about unexpected properties point at the property itself.
+ * @throws {Error} When the schema does not compile.
+ */
+export function validateValue(value: unknown, schema: object): SchemaError[] {
+  const validate = compileSchema(schema)
+  if (validate(value)) return []
+  const seen = new Set<string>()
+  const out: SchemaError[] = []
+  for (const e of validate.errors ?? []) {
+    let pointer = e.instancePath
+    const extra = e.params.additionalProperty ?? e.params.unevaluatedProperty
+    if (typeof extra === 'string') pointer += `/${escapePointer(extra)}`
+    const message = describeError(e)
+    // anyOf/oneOf branches repeat the same complaint
+    const id = `${pointer}\n${message}`
+    if (seen.has(id)) continue
+    seen.add(id)
+    out.push({ pointer, path: pointerToPath(pointer, value), message })
+    if (out.length >= MAX_SCHEMA_ERRORS) break
+  }
+  return out
+}
+
+/**
+ * @name schemaRefOf
+ * @description The document's own schema reference: a string `$schema` key at the root.
+ */
+export function schemaRefOf(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const ref = (value as Record<string, unknown>).$schema
+  return typeof ref === 'string' && ref.trim() ? ref.trim() : null
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]
+    if (ch === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no folder at all
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*'
+      i += glob[i + 2] === '/' ? 2 : 1
+    } else if (ch === '*') {
+      source += '[^/]*'
+    } else if (ch === '?') {
+      source += '[^/]'
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`, 'i')
+}
+
+/**
+ * @name matchesGlob
+ * @description `*` and `?` stay within a folder, `**` crosses folders. A pattern without `/`
+ * matches the file name; otherwise it must match the end of the path.
+ */
+export function matchesGlob(filePath: string, glob: string): boolean {
+  const normalized = filePath.replace(/\\/g, '/')
+  const pattern = glob.trim().replace(/\\/g, '/')
+  if (!pattern) return false
+  if (!pattern.includes('/')) return globToRegExp(pattern).test(normalized.split('/').pop() ?? '')
+  return globToRegExp(pattern.startsWith('/') ? pattern : `**/${pattern}`).test(normalized)
+}
+
+/**
+ * @name findSchemaMapping
+ * @description First settings mapping whose glob matches the document path.
+ */
+export function findSchemaMapping<T extends SchemaMappingLike>(filePath: string | undefined, mappings: T[]): T | null {
+  if (!filePath) return null
+  return mappings.find((m) => matchesGlob(filePath, m.glob)) ?? null
+}
+
+/** What NestedGrid and GridView need to mark failing cells and rows */
+export type GridValidationState = {
+  /** pathKey (relative to the grid array) → messages for that value */
+  errorKeys: Map<string, string>
+  /** pathKey of every strict ancestor of a failing value, so collapsed cells can show it */
+  ancestorKeys: Set<string>
+  /** Indexes of records with at least one error */
+  rows: Set<number>
+}
+
+export const EMPTY_VALIDATION: GridValidationState = { errorKeys: new Map(), ancestorKeys: new Set(), rows: new Set() }
+
+/**
+ * @name buildValidationState
+ * @description Indexes the errors that fall inside the grid's array (`basePath`) by relative path.
+ */
+export function buildValidationState(errors: SchemaError[], basePath: Path): GridValidationState {
+  if (errors.length === 0) return EMPTY_VALIDATION
+  const state: GridValidationState = { errorKeys: new Map(), ancestorKeys: new Set(), rows: new Set() }
+  for (const e of errors) {
+    if (e.path.length <= basePath.length || !basePath.every((seg, i) => e.path[i] === seg)) continue
+    const rel = e.path.slice(basePath.length)
+    if (typeof rel[0] === 'number') state.rows.add(rel[0])
+    const key = pathKey(rel)
+    const prev = state.errorKeys.get(key)
+    state.errorKeys.set(key, prev ? `${prev}\n${e.message}` : e.message)
+    for (let i = 1; i < rel.length; i++) state.ancestorKeys.add(pathKey(rel.slice(0, i)))
+  }
+  return state
+}
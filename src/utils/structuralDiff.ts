@@ -0,0 +1,265 @@
+// src/utils/structuralDiff.ts
+
+// Utility: structural diff of two parsed documents, and row alignment for the grid's array.
+// - Objects are compared key by key; arrays match items by a key field (`_id`, `guid`, …)
+//   when one identifies every item, otherwise by equal content. Only unmatched items are
+//   paired up in order, so moving an item is never reported as a change.
+// - Paths of removed and changed values point into the first document, paths of added ones
+//   into the second.
+
+export type DiffKind = 'added' | 'removed' | 'changed'
+
+export type DiffPath = (string | number)[]
+
+export type DiffChange = {
+  kind: DiffKind
+  path: DiffPath
+  before?: unknown
+  after?: unknown
+}
+
+export type DiffOptions = {
+  /** Key field for the array at `path`; undefined detects one, null matches by content */
+  arrayKey?: (path: DiffPath) => string | null | undefined
+}
+
+/** Fields tried, in order, when detecting the key of an array of records */
+export const ID_KEYS = ['_id', 'id', 'guid', 'uuid', 'key']
+
+/** Diffs of huge documents stop here; the count is still right up to that point */
+export const MAX_DIFF_CHANGES = 5000
+
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v)
+
+/** JSON with sorted keys, so equal values give equal text whatever their key order */
+function canonical(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(canonical).join(',')}]`
+  if (isRecord(v)) {
+    return `{${Object.keys(v).sort().map((k) => `${JSON.stringify(k)}:${canonical(v[k])}`).join(',')}}`
+  }
+  return JSON.stringify(v) ?? 'undefined'
+}
+
+export const deepEqual = (a: unknown, b: unknown) => a === b || canonical(a) === canonical(b)
+
+/** Value of an item's key field as a lookup string; null when the item has no scalar key */
+function keyOf(item: unknown, key: string): string | null {
+  if (!isRecord(item)) return null
+  const v = item[key]
+  return v === null || v === undefined || typeof v === 'object' ? null : `${typeof v}:${String(v)}`
+}
+
+/** True when `key` is a scalar on every item and no two items share it */
+function identifies(items: unknown[], key: string): boolean {
+  const seen = new Set<string>()
+  for (const item of items) {
+    const k = keyOf(item, key)
+    if (k === null || seen.has(k)) return false
+    seen.add(k)
+  }
+  return true
+}
+
+/**
+ * @name keyCandidates
+ * @description Scalar fields of the records in both arrays that could align them, identifying
+ * ones first (ID-like names before others).
+ */
+export function keyCandidates(before: unknown[], after: unknown[]): { key: string; unique: boolean }[] {
+  const keys = new Set<string>()
+  for (const item of [...before, ...after]) {
+    if (!isRecord(item)) continue
+    for (const [k, v] of Object.entries(item)) if (v !== null && typeof v !== 'object') keys.add(k)
+  }
+  const rank = (k: string) => (ID_KEYS.includes(k) ? ID_KEYS.indexOf(k) : ID_KEYS.length)
+  return [...keys]
+    .map((key) => ({ key, unique: identifies(before, key) && identifies(after, key) }))
+    .sort((a, b) => Number(b.unique) - Number(a.unique) || rank(a.key) - rank(b.key))
+}
+
+/**
+ * @name detectArrayKey
+ * @description First ID-like field that identifies every item of both arrays, or null.
+ */
+export function detectArrayKey(before: unknown[], after: unknown[]): string | null {
+  if (!before.some(isRecord) && !after.some(isRecord)) return null
+  return ID_KEYS.find((k) => identifies(before, k) && identifies(after, k)) ?? null
+}
+
+export type ItemMatch = {
+  /** Matched [before index, after index] pairs */
+  pairs: [number, number][]
+  removed: number[]
+  added: number[]
+}
+
+/**
+ * @name matchItems
+ * @description Matches array items by `key` (items without it fall back to content), then by
+ * equal content; whatever is left is paired in order, and the rest is removed or added.
+ */
+export function matchItems(before: unknown[], after: unknown[], key: string | null): ItemMatch {
+  const pairs: [number, number][] = []
+  const pairedBefore = new Set<number>()
+  const pairedAfter = new Set<number>()
+
+  const matchBy = (toKey: (item: unknown) => string | null) => {
+    const waiting = new Map<string, number[]>()
+    after.forEach((item, j) => {
+      if (pairedAfter.has(j)) return
+      const k = toKey(item)
+      if (k === null) return
+      const list = waiting.get(k)
+      if (list) list.push(j)
+      else waiting.set(k, [j])
+    })
+    before.forEach((item, i) => {
+      if (pairedBefore.has(i)) return
+      const k = toKey(item)
+      const j = k === null ? undefined : waiting.get(k)?.shift()
+      if (j === undefined) return
+      pairs.push([i, j])
+      pairedBefore.add(i)
+      pairedAfter.add(j)
+    })
+  }
+
+  if (key) matchBy((item) => keyOf(item, key))
+  matchBy(canonical)
+
+  const removed = before.map((_, i) => i).filter((i) => !pairedBefore.has(i))
+  const added = after.map((_, j) => j).filter((j) => !pairedAfter.has(j))
+  // Without a key, leftovers in the same order are most likely edits of each other
+  const leftovers = key ? 0 : Math.min(removed.length, added.length)
+  for (let n = 0; n < leftovers; n++) pairs.push([removed[n], added[n]])
+  return { pairs, removed: removed.slice(leftovers), added: added.slice(leftovers) }
+}
+
+/**
+ * @name diffDocuments
+ * @description Changes that turn `before` into `after`, stopping at MAX_DIFF_CHANGES.
+ */
+export function diffDocuments(before: unknown, after: unknown, options: DiffOptions = {}): { changes: DiffChange[]; truncated: boolean } {
+  const changes: DiffChange[] = []
+  let truncated = false
+
+  const push = (change: DiffChange) => {
+    if (changes.length >= MAX_DIFF_CHANGES) truncated = true
+    else changes.push(change)
+  }
+
+  const walk = (a: unknown, b: unknown, path: DiffPath) => {
+    if (truncated || a === b) return
+    if (Array.isArray(a) && Array.isArray(b)) {
+      const chosen = options.arrayKey?.(path)
+      const key = chosen === undefined ? detectArrayKey(a, b) : chosen
+      const { pairs, removed, added } = matchItems(a, b, key)
+      for (const i of removed) push({ kind: 'removed', path: [...path, i], before: a[i] })
+      for (const [i, j] of pairs.sort((x, y) => x[0] - y[0])) walk(a[i], b[j], [...path, i])
+      for (const j of added) push({ kind: 'added', path: [...path, j], after: b[j] })
+    } else if (isRecord(a) && isRecord(b)) {
+      for (const k of Object.keys(a)) {
+        if (!Object.prototype.hasOwnProperty.call(b, k)) push({ kind: 'removed', path: [...path, k], before: a[k] })
+        else walk(a[k], b[k], [...path, k])
+      }
+      for (const k of Object.keys(b)) if (!Object.prototype.hasOwnProperty.call(a, k)) push({ kind: 'added', path: [...path, k], after: b[k] })
+    } else if (!deepEqual(a, b)) {
+      push({ kind: 'changed', path, before: a, after: b })
+    }
+  }
+
+  walk(before, after, [])
+  return { changes, truncated }
+}
+
+export type DiffTreeNode = {
+  /** Key or index under the parent; null for the root */
+  key: string | number | null
+  path: DiffPath
+  /** Set on the node a change was reported at */
+  change?: DiffChange
+  children: DiffTreeNode[]
+  counts: Record<DiffKind, number>
+}
+
+/**
+ * @name buildDiffTree
+ * @description Nests changes under their common parents, with change counts per subtree.
+ */
+export function buildDiffTree(changes: DiffChange[]): DiffTreeNode {
+  const root: DiffTreeNode = { key: null, path: [], children: [], counts: { added: 0, removed: 0, changed: 0 } }
+  for (const change of changes) {
+    let node = root
+    node.counts[change.kind]++
+    change.path.forEach((key, depth) => {
+      // An added item can share its index with a changed one; every change gets its own leaf
+      const leaf = depth === change.path.length - 1
+      let child = leaf ? undefined : node.children.find((c) => c.key === key && !c.change)
+      if (!child) {
+        child = { key, path: change.path.slice(0, depth + 1), children: [], counts: { added: 0, removed: 0, changed: 0 } }
+        node.children.push(child)
+      }
+      child.counts[change.kind]++
+      node = child
+    })
+    node.change = change
+  }
+  return root
+}
+
+export type RowStatus = 'added' | 'removed' | 'modified' | 'unchanged'
+
+export type RowDiff = {
+  status: RowStatus
+  before?: unknown
+  after?: unknown
+  beforeIndex?: number
+  afterIndex?: number
+  /** Top-level fields that differ; `value` for rows that are not records */
+  fields: Set<string>
+}
+
+function changedFields(a: unknown, b: unknown): Set<string> {
+  const fields = new Set<string>()
+  if (isRecord(a) && isRecord(b)) {
+    for (const k of new Set([...Object.keys(a), ...Object.keys(b)])) if (!deepEqual(a[k], b[k])) fields.add(k)
+  } else if (!deepEqual(a, b)) {
+    fields.add('value')
+  }
+  return fields
+}
+
+/**
+ * @name alignRows
+ * @description Row-by-row comparison of two arrays matched by `key` (or content), in the order
+ * of `after`; removed rows follow the row they came after.
+ */
+export function alignRows(before: unknown[], after: unknown[], key: string | null): RowDiff[] {
+  const { pairs, removed, added } = matchItems(before, after, key)
+  const afterOf = new Map(pairs)
+  const entries: { order: [number, number, number]; row: RowDiff }[] = []
+
+  for (const [i, j] of pairs) {
+    const fields = changedFields(before[i], after[j])
+    entries.push({
+      order: [j, 0, 0],
+      row: { status: fields.size ? 'modified' : 'unchanged', before: before[i], after: after[j], beforeIndex: i, afterIndex: j, fields },
+    })
+  }
+  for (const j of added) entries.push({ order: [j, 0, 0], row: { status: 'added', after: after[j], afterIndex: j, fields: new Set() } })
+  for (const i of removed) {
+    // Anchor to the nearest earlier row that is still there
+    let anchor = -1
+    for (let p = i - 1; p >= 0; p--) {
+      const j = afterOf.get(p)
+      if (j !== undefined) {
+        anchor = j
+        break
+      }
+    }
+    entries.push({ order: [anchor, 1, i], row: { status: 'removed', before: before[i], beforeIndex: i, fields: new Set() } })
+  }
+
+  entries.sort((x, y) => x.order[0] - y.order[0] || x.order[1] - y.order[1] || x.order[2] - y.order[2])
+  return entries.map((e) => e.row)
+}
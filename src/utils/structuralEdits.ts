@@ -0,0 +1,264 @@
+// src/utils/structuralEdits.ts
+
+// Utility: structural changes to the document (rows and keys) as minimal text edits.
+// - Rows are items of an array; "each" key operations apply to every object item of an
+//   array (a grid column), otherwise to the single object at the path.
+// - Like textEdits, only the affected source ranges change: duplicated rows copy their
+//   source text verbatim, moved rows swap source text, removed children take one separator
+//   with them.
+
+import { JsonArrayNode, JsonNode, JsonObjectNode, findNodeAtPath } from './jsonAst'
+import {
+  TextEdit,
+  childRanges,
+  detectIndentUnit,
+  formatKey,
+  insertIntoContainer,
+  listLayout,
+  quoteStyleOf,
+  serializeValue,
+} from './textEdits'
+
+type Path = (string | number)[]
+
+export type StructuralOp =
+  | { type: 'insertRow'; path: Path; index: number; value: unknown }
+  | { type: 'deleteRows'; path: Path; indexes: number[] }
+  | { type: 'duplicateRow'; path: Path; index: number }
+  | { type: 'moveRow'; path: Path; index: number; direction: -1 | 1 }
+  | { type: 'addKey'; path: Path; key: string; value: unknown; each: boolean }
+  | { type: 'renameKey'; path: Path; from: string; to: string; each: boolean }
+  | { type: 'removeKey'; path: Path; key: string; each: boolean }
+
+/**
+ * @name describeOp
+ * @description Short label for the history panel.
+ */
+export function describeOp(op: StructuralOp): string {
+  switch (op.type) {
+    case 'insertRow': return `Insert row ${op.index}`
+    case 'deleteRows': return op.indexes.length === 1 ? `Delete row ${op.indexes[0]}` : `Delete ${op.indexes.length} rows`
+    case 'duplicateRow': return `Duplicate row ${op.index}`
+    case 'moveRow': return `Move row ${op.index} ${op.direction < 0 ? 'up' : 'down'}`
+    case 'addKey': return `Add key "${op.key}"`
+    case 'renameKey': return `Rename key "${op.from}" to "${op.to}"`
+    case 'removeKey': return `Remove key "${op.key}"`
+  }
+}
+
+function arrayAt(root: JsonNode, path: Path): JsonArrayNode {
+  const node = findNodeAtPath(root, path)
+  if (node?.type !== 'array') throw new Error(`No array at ${JSON.stringify(path)}`)
+  return node
+}
+
+/** Objects a key operation applies to */
+function keyTargets(root: JsonNode, path: Path, each: boolean): JsonObjectNode[] {
+  const node = findNodeAtPath(root, path)
+  if (!each) {
+    if (node?.type !== 'object') throw new Error(`No object at ${JSON.stringify(path)}`)
+    return [node]
+  }
+  if (node?.type !== 'array') throw new Error(`No array at ${JSON.stringify(path)}`)
+  return node.items.filter((item): item is JsonObjectNode => item.type === 'object')
+}
+
+/** Start of the line containing `offset` */
+function lineStartAt(text: string, offset: number): number {
+  return text.lastIndexOf('\n', offset - 1) + 1
+}
+
+/**
+ * Edits that remove the children at `indexes`. Each contiguous run is removed together with
+ * the separator after it (or before it, for a run at the end) so runs never overlap.
+ */
+function removeChildren(text: string, parent: JsonObjectNode | JsonArrayNode, indexes: number[]): TextEdit[] {
+  const children = childRanges(parent)
+  const sorted = [...new Set(indexes)].filter((i) => i >= 0 && i < children.length).sort((a, b) => a - b)
+  if (sorted.length === 0) return []
+
+  if (parent.type === 'array' && parent.lines) {
+    // JSONL: drop whole lines
+    return sorted.map((i) => {
+      const start = lineStartAt(text, children[i].start)
+      const nl = text.indexOf('\n', children[i].end)
+      return { offset: start, length: (nl < 0 ? text.length : nl + 1) - start, text: '' }
+    })
+  }
+
+  if (sorted.length === children.length) {
+    return [{ offset: parent.start + 1, length: parent.end - parent.start - 2, text: '' }]
+  }
+
+  const edits: TextEdit[] = []
+  let runStart = 0
+  for (let k = 1; k <= sorted.length; k++) {
+    if (k < sorted.length && sorted[k] === sorted[k - 1] + 1) continue
+    const a = sorted[runStart]
+    const b = sorted[k - 1]
+    if (b + 1 < children.length) {
+      edits.push({ offset: children[a].start, length: children[b + 1].start - children[a].start, text: '' })
+    } else {
+      edits.push({ offset: children[a - 1].end, length: children[b].end - children[a - 1].end, text: '' })
+    }
+    runStart = k
+  }
+  return edits
+}
+
+/** Edit that inserts source `body` as a new child before child `index`, or after the last one */
+function insertChildSource(text: string, parent: JsonArrayNode, index: number, body: string): TextEdit {
+  const children = childRanges(parent)
+  if (parent.lines) {
+    if (index >= children.length) {
+      return { offset: text.length, length: 0, text: `${text.endsWith('\n') ? '' : '\n'}${body}\n` }
+    }
+    return { offset: lineStartAt(text, children[index].start), length: 0, text: `${body}\n` }
+  }
+  const { sep } = listLayout(text, parent)
+  if (index >= children.length) return { offset: children[children.length - 1].end, length: 0, text: `${sep}${body}` }
+  return { offset: children[index].start, length: 0, text: `${body}${sep}` }
+}
+
+/**
+ * @name structuralEdits
+ * @description Text edits that apply a structural operation to the document. Paths are
+ * absolute key/index paths.
+ * @throws {Error} When the path does not point at a suitable container, or a rename would
+ * create a duplicate key.
+ */
+export function structuralEdits(text: string, root: JsonNode, op: StructuralOp): TextEdit[] {
+  const quote = quoteStyleOf(text, root)
+
+  switch (op.type) {
+    case 'insertRow': {
+      const arr = arrayAt(root, op.path)
+      if (arr.items.length === 0) return [insertIntoContainer(text, arr, null, op.value, quote)]
+      // Pretty-print the new row only if its neighbour spans several lines
+      const neighbour = arr.items[Math.min(op.index, arr.items.length - 1)]
+      const pretty = !arr.lines && text.slice(neighbour.start, neighbour.end).includes('\n')
+      const { indent } = listLayout(text, arr)
+      const body = serializeValue(op.value, { quote, indentUnit: pretty ? detectIndentUnit(text) : '', baseIndent: indent })
+      return [insertChildSource(text, arr, Math.max(0, op.index), body)]
+    }
+
+    case 'deleteRows':
+      return removeChildren(text, arrayAt(root, op.path), op.indexes)
+
+    case 'duplicateRow': {
+      const arr = arrayAt(root, op.path)
+      const item = arr.items[op.index]
+      if (!item) throw new Error(`No row ${op.index}`)
+      return [insertChildSource(text, arr, op.index + 1, text.slice(item.start, item.end))]
+    }
+
+    case 'moveRow': {
+      const arr = arrayAt(root, op.path)
+      const a = arr.items[op.index]
+      const b = arr.items[op.index + op.direction]
+      if (!a || !b) return []
+      return [
+        { offset: a.start, length: a.end - a.start, text: text.slice(b.start, b.end) },
+        { offset: b.start, length: b.end - b.start, text: text.slice(a.start, a.end) },
+      ]
+    }
+
+    case 'addKey':
+      return keyTargets(root, op.path, op.each)
+        .filter((obj) => !obj.properties.some((p) => p.key === op.key))
+        .map((obj) => insertIntoContainer(text, obj, op.key, op.value, quote))
+
+    case 'renameKey': {
+      if (op.from === op.to) return []
+      const edits: TextEdit[] = []
+      for (const obj of keyTargets(root, op.path, op.each)) {
+        const props = obj.properties.filter((p) => p.key === op.from)
+        if (props.length === 0) continue
+        if (obj.properties.some((p) => p.key === op.to)) {
+          throw new Error(`Key "${op.to}" already exists`)
+        }
+        for (const p of props) {
+          const ch = text[p.keyStart]
+          edits.push({ offset: p.keyStart, length: p.keyEnd - p.keyStart, text: formatKey(op.to, ch === '"' || ch === "'" ? ch : 'bare') })
+        }
+      }
+      return edits
+    }
+
+    case 'removeKey':
+      return keyTargets(root, op.path, op.each).flatMap((obj) =>
+        removeChildren(text, obj, obj.properties.flatMap((p, i) => (p.key === op.key ? [i] : []))),
+      )
+  }
+}
+
+/**
+ * @name newRecordLike
+ * @description Value for a new row: an object with the given keys set to null, or null for
+ * arrays of primitives.
+ */
+export function newRecordLike(keys: string[] | null): unknown {
+  if (!keys) return null
+  return Object.fromEntries(keys.map((k) => [k, null]))
+}
+
+/**
+ * @name applyStructuralOp
+ * @description Value-level counterpart of structuralEdits for formats without a positioned
+ * parser (YAML, TOML): returns a changed copy of `root`.
+ * @throws {Error} Like structuralEdits.
+ */
+export function applyStructuralOp(root: unknown, op: StructuralOp): unknown {
+  const next = structuredClone(root)
+  let target: unknown = next
+  for (const seg of op.path) {
+    target = target !== null && typeof target === 'object' ? (target as Record<string | number, unknown>)[seg] : undefined
+  }
+
+  const objects = (each: boolean): Record<string, unknown>[] => {
+    const isObject = (v: unknown): v is Record<string, unknown> => v !== null && typeof v === 'object' && !Array.isArray(v)
+    if (!each) {
+      if (!isObject(target)) throw new Error(`No object at ${JSON.stringify(op.path)}`)
+      return [target]
+    }
+    if (!Array.isArray(target)) throw new Error(`No array at ${JSON.stringify(op.path)}`)
+    return target.filter(isObject)
+  }
+
+  if (op.type === 'addKey' || op.type === 'renameKey' || op.type === 'removeKey') {
+    for (const obj of objects(op.each)) {
+      if (op.type === 'addKey') {
+        if (!(op.key in obj)) obj[op.key] = op.value
+      } else if (op.type === 'removeKey') {
+        delete obj[op.key]
+      } else if (op.from in obj && op.from !== op.to) {
+        if (op.to in obj) throw new Error(`Key "${op.to}" already exists`)
+        // Rebuild in place to keep the key's position
+        const entries = Object.entries(obj)
+        for (const [k] of entries) delete obj[k]
+        for (const [k, v] of entries) obj[k === op.from ? op.to : k] = v
+      }
+    }
+    return next
+  }
+
+  if (!Array.isArray(target)) throw new Error(`No array at ${JSON.stringify(op.path)}`)
+  switch (op.type) {
+    case 'insertRow':
+      target.splice(Math.max(0, Math.min(op.index, target.length)), 0, op.value)
+      break
+    case 'deleteRows':
+      for (const i of [...new Set(op.indexes)].sort((a, b) => b - a)) target.splice(i, 1)
+      break
+    case 'duplicateRow':
+      if (op.index >= target.length) throw new Error(`No row ${op.index}`)
+      target.splice(op.index + 1, 0, structuredClone(target[op.index]))
+      break
+    case 'moveRow': {
+      const j = op.index + op.direction
+      if (j >= 0 && j < target.length) [target[op.index], target[j]] = [target[j], target[op.index]]
+      break
+    }
+  }
+  return next
+}
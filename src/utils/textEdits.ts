@@ -0,0 +1,216 @@
+// src/utils/textEdits.ts
+
+// Utility: turn grid edits into minimal text changes.
+// - Only the source range of the edited value is replaced, so comments, key order,
+//   quoting and indentation elsewhere in the document are untouched.
+// - New keys/items are inserted next to their siblings in the same style.
+
+import { JsonArrayNode, JsonNode, JsonObjectNode, findNodeAtPath } from './jsonAst'
+
+/** Replace `length` characters at `offset` with `text` */
+export type TextEdit = { offset: number; length: number; text: string }
+
+/**
+ * @name applyTextEdits
+ * @description Applies non-overlapping edits. Offsets refer to the original text.
+ */
+export function applyTextEdits(text: string, edits: TextEdit[]): string {
+  const sorted = [...edits].sort((a, b) => b.offset - a.offset)
+  let out = text
+  for (const e of sorted) {
+    out = out.slice(0, e.offset) + e.text + out.slice(e.offset + e.length)
+  }
+  return out
+}
+
+export type Quote = '"' | "'"
+
+/**
+ * @name detectIndentUnit
+ * @description The indentation step used by the document ('' for single-line/minified text).
+ */
+export function detectIndentUnit(text: string): string {
+  const m = /\n([ \t]+)\S/.exec(text)
+  return m ? m[1] : ''
+}
+
+/** Leading whitespace of the line containing `offset` */
+export function lineIndentAt(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1
+  return /^[ \t]*/.exec(text.slice(lineStart))![0]
+}
+
+/**
+ * @name quoteString
+ * @description Writes a string literal with the given quote character.
+ */
+export function quoteString(s: string, quote: Quote = '"'): string {
+  const json = JSON.stringify(s)
+  if (quote === '"') return json
+  return `'${json.slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+
+/**
+ * @name formatKey
+ * @description Writes an object key, unquoted only when the sibling keys are unquoted too.
+ */
+export function formatKey(key: string, style: KeyStyle): string {
+  if (style === 'bare' && IDENTIFIER.test(key)) return key
+  return quoteString(key, style === "'" ? "'" : '"')
+}
+
+export type KeyStyle = Quote | 'bare'
+
+/**
+ * @name serializeValue
+ * @description Writes a value as source text. Objects and arrays are pretty-printed with the
+ * document's indent unit, re-based at `baseIndent`, or compact for minified documents.
+ */
+export function serializeValue(value: unknown, opts: { quote?: Quote; indentUnit?: string; baseIndent?: string } = {}): string {
+  const { quote = '"', indentUnit = '', baseIndent = '' } = opts
+  if (value === undefined) return 'null'
+  if (typeof value === 'string') return quoteString(value, quote)
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null'
+  if (value === null || typeof value === 'boolean') return String(value)
+  const json = indentUnit ? JSON.stringify(value, null, indentUnit) : JSON.stringify(value)
+  return json.replace(/\n/g, `\n${baseIndent}`)
+}
+
+export function keyStyleOf(text: string, node: JsonObjectNode): KeyStyle {
+  const first = node.properties[0]
+  if (!first) return '"'
+  const ch = text[first.keyStart]
+  return ch === '"' || ch === "'" ? ch : 'bare'
+}
+
+export function quoteStyleOf(text: string, root: JsonNode): Quote {
+  // Follow the first string literal in the document
+  const m = /["']/.exec(text.slice(root.start, Math.min(root.end, root.start + 2000)))
+  return m?.[0] === "'" ? "'" : '"'
+}
+
+/** Builds the value to insert when `rest` names containers that do not exist yet */
+function buildNested(rest: (string | number)[], value: unknown): unknown {
+  let out = value
+  for (let i = rest.length - 1; i >= 0; i--) {
+    const seg = rest[i]
+    out = typeof seg === 'number' ? [out] : { [seg]: out }
+  }
+  return out
+}
+
+/** Source ranges of a container's children; properties start at their key */
+export function childRanges(parent: JsonObjectNode | JsonArrayNode): { start: number; end: number }[] {
+  return parent.type === 'object' ? parent.properties.map((p) => ({ start: p.keyStart, end: p.value.end })) : parent.items
+}
+
+/**
+ * @name listLayout
+ * @description How the children of a non-empty container are laid out: the separator placed
+ * between two children and the indentation of a child line.
+ */
+export function listLayout(text: string, parent: JsonObjectNode | JsonArrayNode): { sep: string; indent: string; multiline: boolean } {
+  const children = childRanges(parent)
+  const last = children[children.length - 1]
+  const prev = children.length > 1 ? children[children.length - 2] : null
+  const between = prev ? text.slice(prev.end, last.start) : ''
+  const multiline = prev ? between.includes('\n') : text.slice(parent.start, last.start).includes('\n')
+  const indent = lineIndentAt(text, last.start)
+  // A lone child gives no separator to copy; follow the document (pretty or minified)
+  const spaced = prev ? /,\s/.test(between) : detectIndentUnit(text) !== ''
+  const sep = multiline ? `,\n${indent}` : spaced ? ', ' : ','
+  return { sep, indent, multiline }
+}
+
+/** `key: ` prefix for a new property, copying the siblings' key quoting and colon spacing */
+export function propertyPrefix(text: string, parent: JsonObjectNode, key: string): string {
+  const lastProp = parent.properties[parent.properties.length - 1]
+  const colon = !lastProp || /:\s/.test(text.slice(lastProp.keyEnd, lastProp.value.start)) ? ': ' : ':'
+  return `${formatKey(key, keyStyleOf(text, parent))}${colon}`
+}
+
+/**
+ * @name insertIntoContainer
+ * @description Edit that adds a property (objects) or item (arrays) after the last existing
+ * child, copying the separator and indentation the siblings use.
+ */
+export function insertIntoContainer(
+  text: string,
+  parent: JsonObjectNode | JsonArrayNode,
+  key: string | null,
+  value: unknown,
+  quote: Quote,
+): TextEdit {
+  const indentUnit = detectIndentUnit(text)
+  const children = childRanges(parent)
+  const keyPrefix = parent.type === 'object' && key !== null ? propertyPrefix(text, parent, key) : ''
+
+  if (parent.type === 'array' && parent.lines) {
+    // JSONL: one compact record per line
+    const body = serializeValue(value, { quote })
+    const needsNewline = !text.endsWith('\n')
+    return { offset: text.length, length: 0, text: `${needsNewline ? '\n' : ''}${body}\n` }
+  }
+
+  if (children.length === 0) {
+    const inner = text.slice(parent.start + 1, parent.end - 1)
+    const multiline = inner.includes('\n')
+    const outerIndent = lineIndentAt(text, parent.start)
+    const indent = multiline ? outerIndent + indentUnit : ''
+    const body = keyPrefix + serializeValue(value, { quote, indentUnit: multiline ? indentUnit : '', baseIndent: indent })
+    return {
+      offset: parent.start + 1,
+      length: parent.end - parent.start - 2,
+      text: multiline ? `\n${indent}${body}\n${outerIndent}` : body,
+    }
+  }
+
+  const last = children[children.length - 1]
+  const { sep, indent, multiline } = listLayout(text, parent)
+  const body = keyPrefix + serializeValue(value, { quote, indentUnit: multiline ? indentUnit : '', baseIndent: indent })
+  return { offset: last.end, length: 0, text: `${sep}${body}` }
+}
+
+/**
+ * @name setValueEdits
+ * @description Edits that set the value at `path`. Existing values are replaced in place
+ * (strings keep their quote style); missing keys are inserted into the deepest existing
+ * container.
+ * @throws {Error} When no container on the path can hold the value.
+ */
+export function setValueEdits(text: string, root: JsonNode, path: (string | number)[], value: unknown): TextEdit[] {
+  const existing = findNodeAtPath(root, path)
+  const quote = quoteStyleOf(text, root)
+
+  if (existing) {
+    const ownQuote = existing.type === 'string' && text[existing.start] === "'" ? "'" : existing.type === 'string' ? '"' : quote
+    const baseIndent = lineIndentAt(text, existing.start)
+    // Keep compact containers compact; pretty-print where the document is pretty-printed
+    const isContainer = existing.type === 'object' || existing.type === 'array'
+    const indentUnit = !isContainer || text.slice(existing.start, existing.end).includes('\n') ? detectIndentUnit(text) : ''
+    return [{
+      offset: existing.start,
+      length: existing.end - existing.start,
+      text: serializeValue(value, { quote: ownQuote, indentUnit, baseIndent }),
+    }]
+  }
+
+  // Find the deepest container that exists and insert the rest of the path into it
+  for (let depth = path.length - 1; depth >= 0; depth--) {
+    const parent = findNodeAtPath(root, path.slice(0, depth))
+    if (!parent) continue
+    const seg = path[depth]
+    const rest = path.slice(depth + 1)
+    const newValue = buildNested(rest, value)
+    if (parent.type === 'object') {
+      return [insertIntoContainer(text, parent, String(seg), newValue, quote)]
+    }
+    if (parent.type === 'array' && seg === parent.items.length) {
+      return [insertIntoContainer(text, parent, null, newValue, quote)]
+    }
+    break
+  }
+  throw new Error(`Cannot set a value at ${JSON.stringify(path)}`)
+}
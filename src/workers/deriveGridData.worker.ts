@@ -0,0 +1,30 @@
+// src/workers/deriveGridData.worker.ts
+
+// Web Worker: runs deriveGridData off the renderer thread so large documents do not
+// freeze the editor. Every request carries an id that is echoed back, which lets the
+// caller drop results for text that has changed since.
+
+import { deriveGridData, DeriveOptions, DerivationOutput } from '../utils/deriveGridData'
+
+export type DeriveRequest = {
+  id: number
+  text: string
+  options: DeriveOptions
+}
+
+export type DeriveResponse = {
+  id: number
+  output: DerivationOutput
+}
+
+self.onmessage = (e: MessageEvent<DeriveRequest>) => {
+  const { id, text, options } = e.data
+  let output: DerivationOutput
+  try {
+    output = deriveGridData(text, options)
+  } catch (err) {
+    output = { data: null, error: err instanceof Error ? err.message : String(err) }
+  }
+  const response: DeriveResponse = { id, output }
+  self.postMessage(response)
+}
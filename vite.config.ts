@@ -63,10 +63,37 @@ export default defineConfig({
           },
         },
       },
+      {
+        // Headless CLI (`jsongrid export …`), run with Node rather than inside the app.
+        entry: 'electron/cli/cli.ts',
+        onstart() {
+          // Nothing to start: without this hook the plugin would launch Electron for it.
+        },
+        vite: {
+          build: {
+            sourcemap: true,
+            outDir: 'dist-electron',
+            lib: {
+              entry: 'electron/cli/cli.ts',
+              formats: ['cjs'],
+            },
+            rollupOptions: {
+              output: {
+                entryFileNames: 'cli.cjs',
+                banner: '#!/usr/bin/env node',
+              },
+            },
+          },
+        },
+      },
     ]),
     renderer(),
   ],
   build: {
     sourcemap: true,
   },
+  worker: {
+    // The grid derivation worker is created with { type: 'module' }
+    format: 'es',
+  },
 })
\ No newline at end of file